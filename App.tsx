@@ -1,11 +1,50 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import PrintSimulator from './components/PrintSimulator';
 import Controls from './components/Controls';
-import { PrintConfig, TabView, AnalysisResult } from './types';
-import { processTextureMaps } from './utils/textureUtils';
-import { analyzePrintFeasibility } from './services/geminiService';
-import { generateStandaloneHtml } from './utils/exportUtils';
+import PsdImportDialog from './components/PsdImportDialog';
+import { PrintConfig, TabView, AnalysisResult, MaskLayer, TextureMaps, PreflightOptions, IssueOverlayMode, IssueSelection, RegistrationConfig, RegistrationLayer, TrapConfig, WhiteGenOptions, Substrate, WhiteInkConfig, EmbossConfig, FoilLayer, VarnishLayer, SpotColorLayer, CmykConversion, ChannelRole, PsdLayerInfo, PrintSizeConfig, ProofProfileInfo, ProofProfileSlot, ProofStats, SoftProofOptions, CoverageReport, ConsumptionConfig, AnalysisProviderSettings, AnalysisFailure, ChatMessage, AnalysisRun, AnalysisRunSource, LightingConfig, EnvironmentMap } from './types';
+import { createTextureProcessor, TextureProcessor } from './utils/textureProcessor';
+import { runAnalysis, runChat } from './services/analysisProvider';
+import { createAnalysisProvider, loadProviderSettings, saveProviderSettings } from './services/providerRegistry';
+import { AnalysisLayer, JobSpec } from './services/analysisPrompt';
+import { loadChat, saveChat } from './services/chatStore';
+import { generateStandaloneHtml, downloadUrl, scaleImageToDataUrl } from './utils/exportUtils';
+import { DEFAULT_PREFLIGHT_OPTIONS } from './utils/preflightUtils';
+import { DEFAULT_WHITE_GEN_OPTIONS } from './utils/maskGenerator';
+import { DEFAULT_REGISTRATION, REGISTRATION_LAYERS, ZERO_WOBBLE, WobbleState, stepWobble, toLayerTransform } from './utils/registrationUtils';
+import { LayerTransform, pixelMapToDataUrl, whitePassOpacity } from './utils/textureUtils';
+import { DEFAULT_EMBOSS } from './utils/embossUtils';
+import { createFoilLayer } from './utils/foilUtils';
+import { createSpotLayer } from './utils/colorUtils';
+import { isTiffFile } from './utils/tiffDecoder';
+import { isPsdFile } from './utils/psdParser';
+import { DEFAULT_CMYK_CONVERSION } from './utils/separationUtils';
+import { DEFAULT_SOFT_PROOF } from './utils/proofUtils';
+import { DEFAULT_CONSUMPTION, consumptionToCsv, consumptionToJson, estimateConsumption } from './utils/coverageUtils';
+import { DEFAULT_DPI, DEFAULT_PRINT_SIZE, readImageDpi, resolvePhysicalSize } from './utils/printSizeUtils';
+import { PRIMARY_VARNISH_ID, VARNISH_TYPES, createVarnishLayer, toVarnishParams } from './utils/varnishUtils';
+import { DEFAULT_SUBSTRATE, loadCustomSubstrates, saveCustomSubstrates } from './utils/substrateUtils';
+import { THUMBNAIL_SIZE, loadAnalysisHistory, saveAnalysisHistory } from './utils/historyUtils';
+import { DEFAULT_LIGHTING, LIGHTING_PRESETS, decodeEnvironment, loadPresetEnvironment, rotateEnvironment } from './utils/lightingUtils';
+
+// Longer side of the images sent to the AI analysis
+const ANALYSIS_IMAGE_SIZE = 1536;
+
+const DEFAULT_TRAP: TrapConfig = {
+  mode: 'none',
+  amount: 0.1,
+  unit: 'mm',
+  showOriginal: false
+};
+
+const DEFAULT_WHITE_INK: WhiteInkConfig = {
+  passes: 1,
+  passOpacity: [0.85, 0.85],
+  screening: 'contone',
+  screenLpi: 150,
+  screenAngleDeg: 45
+};
 
 const DEFAULT_CONFIG: PrintConfig = {
   metalness: 1.0,
@@ -16,7 +55,9 @@ const DEFAULT_CONFIG: PrintConfig = {
   exposure: 1.0,
   toneMappingExposure: 0.9,
   backgroundColor: '#0d1117',
-  varnishBump: 0.02
+  varnishBump: 0.02,
+  inkTransparency: 0.85,
+  substrate: DEFAULT_SUBSTRATE
 };
 
 function App() {
@@ -26,17 +67,69 @@ function App() {
   const [cmykFile, setCmykFile] = useState<File | null>(null);
   const [whiteFile, setWhiteFile] = useState<File | null>(null);
   const [varnishFile, setVarnishFile] = useState<File | null>(null);
+  const [embossFile, setEmbossFile] = useState<File | null>(null);
+  // Separated TIFF behind the artwork (the artwork itself is its RGB composite)
+  const [tiffFile, setTiffFile] = useState<File | null>(null);
+  const [cmykConversion, setCmykConversion] = useState<CmykConversion>(DEFAULT_CMYK_CONVERSION);
+  const [separationChannels, setSeparationChannels] = useState<{ name: string; role: ChannelRole }[]>([]);
+  // Artwork comes from a separated file (TIFF / PSD), so the soft proof uses its CMYK data
+  const [separatedArtwork, setSeparatedArtwork] = useState(false);
+  // Bumped once the artwork is decoded in the worker
+  const [artworkVersion, setArtworkVersion] = useState(0);
+  // Opened PSD waiting for the user to confirm its layer slots
+  const [psdImport, setPsdImport] = useState<{ fileName: string; layers: PsdLayerInfo[]; hasComposite: boolean } | null>(null);
   
-  // Texture URL State
+  // Texture State
   const [cmykUrl, setCmykUrl] = useState<string | null>(null);
-  const [whiteUrl, setWhiteUrl] = useState<string | null>(null);
-  const [varnishUrl, setVarnishUrl] = useState<string | null>(null);
-  
-  const [metalnessMapUrl, setMetalnessMapUrl] = useState<string | null>(null);
-  const [roughnessMapUrl, setRoughnessMapUrl] = useState<string | null>(null);
-  const [clearcoatMapUrl, setClearcoatMapUrl] = useState<string | null>(null); // New state for Varnish
+  // Metalness / Roughness / Clearcoat (Varnish) maps generated by the texture worker
+  const [textureMaps, setTextureMaps] = useState<TextureMaps | null>(null);
+  // Bumped each time a mask is decoded in the worker
+  const [maskVersion, setMaskVersion] = useState(0);
+  const processorRef = useRef<TextureProcessor | null>(null);
+  // Finishing layers added by the last TIFF / PSD import, replaced by the next import
+  const importedLayerIds = useRef<string[]>([]);
   
   const [aspectRatio, setAspectRatio] = useState<number>(10 / 14);
+  const [artworkSize, setArtworkSize] = useState<{ width: number; height: number } | null>(null);
+  // Resolution stored in the uploaded artwork file, and the job size / guide settings
+  const [fileDpi, setFileDpi] = useState<number | null>(null);
+  const [printSize, setPrintSize] = useState<PrintSizeConfig>(DEFAULT_PRINT_SIZE);
+
+  // Registration (misregistration simulation) State
+  const [registration, setRegistration] = useState<RegistrationConfig>(DEFAULT_REGISTRATION);
+  const [wobble, setWobble] = useState<WobbleState>(ZERO_WOBBLE);
+
+  // Custom substrates (persisted in local storage)
+  const [customSubstrates, setCustomSubstrates] = useState<Substrate[]>(loadCustomSubstrates);
+
+  // Lighting studio; the environment of the preset (or the uploaded file) before rotation
+  const [lighting, setLighting] = useState<LightingConfig>(DEFAULT_LIGHTING);
+  const [customEnvironment, setCustomEnvironment] = useState<{ name: string; map: EnvironmentMap } | null>(null);
+  const [baseEnvironment, setBaseEnvironment] = useState<EnvironmentMap | null>(null);
+  const [lightingError, setLightingError] = useState<string | null>(null);
+  const presetEnvironments = useRef(new Map<string, EnvironmentMap>());
+
+  // White ink trapping (choke/spread) State
+  const [trap, setTrap] = useState<TrapConfig>(DEFAULT_TRAP);
+
+  // Varnish layers State (the first upload uses the 'varnish' mask slot, further layers are cached by id)
+  const [varnishLayers, setVarnishLayers] = useState<VarnishLayer[]>([]);
+
+  // Spot colour layers State, in press order (masks are cached in the worker under the layer id)
+  const [spots, setSpots] = useState<SpotColorLayer[]>([]);
+
+  // Foil finishing layers State (masks are cached in the worker under the layer id)
+  const [foils, setFoils] = useState<FoilLayer[]>([]);
+
+  // Emboss / deboss State
+  const [emboss, setEmboss] = useState<EmbossConfig>(DEFAULT_EMBOSS);
+
+  // White ink opacity model (passes, halftone screening) State
+  const [whiteInk, setWhiteInk] = useState<WhiteInkConfig>(DEFAULT_WHITE_INK);
+
+  // White mask generator State
+  const [whiteGenOptions, setWhiteGenOptions] = useState<WhiteGenOptions>(DEFAULT_WHITE_GEN_OPTIONS);
+  const [isPickingSeeds, setIsPickingSeeds] = useState(false);
   
   // UI State
   const [isProcessing, setIsProcessing] = useState(false);
@@ -47,16 +140,281 @@ function App() {
   // Analysis State
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [preflightOptions, setPreflightOptions] = useState<PreflightOptions>(DEFAULT_PREFLIGHT_OPTIONS);
+  const [issueOverlay, setIssueOverlay] = useState<IssueOverlayMode>('markers');
+  const [issueSelection, setIssueSelection] = useState<IssueSelection | null>(null);
+  const [providerSettings, setProviderSettings] = useState<AnalysisProviderSettings>(loadProviderSettings);
+  const [analysisFailure, setAnalysisFailure] = useState<AnalysisFailure | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // Capture of the 3D view, provided by the simulator
+  const screenshotRef = useRef<(() => string) | null>(null);
+
+  // Follow-up chat; the transcript belongs to the artwork it was loaded for
+  const [chat, setChat] = useState<{ job: string | null; messages: ChatMessage[] }>({ job: null, messages: [] });
+  const [isChatting, setIsChatting] = useState(false);
+  const [chatPoint, setChatPoint] = useState<{ x: number; y: number } | null>(null);
+  const [isPickingChatPoint, setIsPickingChatPoint] = useState(false);
+  const chatAbortRef = useRef<AbortController | null>(null);
+
+  // Every analysis run, newest first; kept across artwork revisions
+  const [analysisHistory, setAnalysisHistory] = useState<AnalysisRun[]>(loadAnalysisHistory);
+
+  // Soft proof State (ICC profiles live in the worker)
+  const [proofProfiles, setProofProfiles] = useState<Record<ProofProfileSlot, ProofProfileInfo | null>>({ press: null, output: null });
+  const [softProof, setSoftProof] = useState<SoftProofOptions>(DEFAULT_SOFT_PROOF);
+  const [proof, setProof] = useState<{ imageUrl: string; overlayUrl: string; stats: ProofStats } | null>(null);
+  const [proofError, setProofError] = useState<string | null>(null);
+
+  // Coverage report (computed on request) and the ink consumption settings
+  const [coverageReport, setCoverageReport] = useState<CoverageReport | null>(null);
+  const [consumption, setConsumption] = useState<ConsumptionConfig>(DEFAULT_CONSUMPTION);
+  const [isComputingCoverage, setIsComputingCoverage] = useState(false);
+
+  // Selection refers to issue indices of the current result
+  useEffect(() => {
+    setIssueSelection(null);
+  }, [analysisResult]);
+
+  useEffect(() => {
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  // Each artwork brings back its own transcript
+  useEffect(() => {
+    chatAbortRef.current?.abort();
+    setChat(cmykFile ? { job: cmykFile.name, messages: loadChat(cmykFile.name) } : { job: null, messages: [] });
+    setChatPoint(null);
+  }, [cmykFile?.name]);
+
+  // Saved once an answer is complete, not on every streamed chunk
+  useEffect(() => {
+    if (chat.job && !isChatting) saveChat(chat.job, chat.messages);
+  }, [chat, isChatting]);
+
+  useEffect(() => {
+    saveAnalysisHistory(analysisHistory);
+  }, [analysisHistory]);
+
+  // Environment of the selected preset; downloaded and generated ones are kept for reuse
+  useEffect(() => {
+    setLightingError(null);
+    if (lighting.preset === 'custom') {
+      setBaseEnvironment(customEnvironment?.map || null);
+      return;
+    }
+    const preset = LIGHTING_PRESETS.find(p => p.id === lighting.preset);
+    if (!preset) {
+      setBaseEnvironment(null);
+      return;
+    }
+    const cached = presetEnvironments.current.get(preset.id);
+    if (cached) {
+      setBaseEnvironment(cached);
+      return;
+    }
+    let cancelled = false;
+    loadPresetEnvironment(preset)
+      .then(map => {
+        presetEnvironments.current.set(preset.id, map);
+        if (!cancelled) setBaseEnvironment(map);
+      })
+      .catch(e => {
+        console.error("Environment failed to load", e);
+        if (!cancelled) setLightingError(`Не удалось загрузить окружение «${preset.label}»: ${e instanceof Error ? e.message : e}`);
+      });
+    return () => { cancelled = true; };
+  }, [lighting.preset, customEnvironment]);
+
+  // The app and the export share this exact map
+  const environment = useMemo(
+    () => baseEnvironment && rotateEnvironment(baseEnvironment, lighting.rotationDeg),
+    [baseEnvironment, lighting.rotationDeg]
+  );
+
+  // A report of replaced layers is stale
+  useEffect(() => {
+    setCoverageReport(null);
+  }, [maskVersion, artworkVersion]);
+
+  // Texture worker lives as long as the app
+  useEffect(() => {
+    const processor = createTextureProcessor();
+    processorRef.current = processor;
+    return () => {
+      processor.dispose();
+      processorRef.current = null;
+    };
+  }, []);
 
   // Enforce Paper Mode if no White Ink Mask is present
   useEffect(() => {
-    if (!whiteUrl) {
+    if (!whiteFile) {
       setIsPaperPreview(true);
     }
-  }, [whiteUrl]);
+  }, [whiteFile]);
+
+  // Handle CMYK Upload. Separated TIFFs and layered PSDs are decoded in the worker first.
+  const handleUploadCmyk = async (file: File) => {
+    setFileDpi(await readImageDpi(file));
+    if (await isPsdFile(file)) {
+      await openPsd(file);
+      return;
+    }
+    if (await isTiffFile(file)) {
+      setTiffFile(file);
+      await importSeparations(file);
+      return;
+    }
+    setTiffFile(null);
+    setSeparationChannels([]);
+    setSeparatedArtwork(false);
+    setIsProcessing(true);
+    try {
+      await loadArtwork(file);
+    } catch (e) {
+      console.error("Failed to process textures", e);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Separated file: the composite becomes the artwork, extra channels go to the matching layers
+  const importSeparations = async (file: File) => {
+    const processor = processorRef.current;
+    if (!processor) return;
+
+    setIsProcessing(true);
+    try {
+      const { composite, channels } = await processor.decodeSeparations(file, cmykConversion);
+      await clearImportedLayers();
+      setSeparatedArtwork(true);
+      await loadArtwork(compositeFile(composite, file.name));
+      setSeparationChannels(channels.map(({ name, role }) => ({ name, role })));
+
+      const added: (string | null)[] = [];
+      for (const channel of channels) {
+        const mask = new File([channel.mask], `${channel.name}.png`, { type: 'image/png' });
+        if (channel.role === 'white') {
+          setWhiteFile(mask);
+          await storeMask('white', mask);
+        } else if (channel.role === 'varnish') {
+          added.push(await (added.includes(PRIMARY_VARNISH_ID) ? addVarnishLayer(mask) : storePrimaryVarnish(mask)));
+        } else if (channel.role === 'spot') {
+          added.push(await addSpot(mask, channel.color ? { name: channel.name, color: channel.color } : { name: channel.name }));
+        }
+      }
+      importedLayerIds.current = added.filter((id): id is string => !!id);
+    } catch (e) {
+      console.error("Failed to decode separated file", e);
+      alert(`Не удалось прочитать TIFF: ${e instanceof Error ? e.message : e}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Removes the spot, foil and varnish layers of the previous import, so a new revision replaces them
+  const clearImportedLayers = async () => {
+    const processor = processorRef.current;
+    const ids = importedLayerIds.current;
+    importedLayerIds.current = [];
+    if (!processor || !ids.length) return;
+
+    setSpots(list => list.filter(s => !ids.includes(s.id)));
+    setFoils(list => list.filter(f => !ids.includes(f.id)));
+    setVarnishLayers(list => list.filter(v => !ids.includes(v.id)));
+    for (const id of ids) {
+      if (id === PRIMARY_VARNISH_ID) {
+        setVarnishFile(null);
+        await processor.setMask('varnish', null);
+      } else {
+        await processor.setFinishMask(id, null);
+      }
+    }
+  };
+
+  const compositeFile = (composite: Blob, name: string) =>
+    new File([composite], name.replace(/\.[^.]+$/, '') + '.png', { type: 'image/png' });
+
+  // Layered PSD: confident suggestions are applied right away, otherwise the user confirms them
+  const openPsd = async (file: File) => {
+    const processor = processorRef.current;
+    if (!processor) return;
+
+    setIsProcessing(true);
+    try {
+      const { layers, hasComposite } = await processor.openPsd(file);
+      const pending = { fileName: file.name, layers, hasComposite };
+      // Without a CMYK layer the merged image is used, which must not show technical layers
+      const usesComposite = !layers.some(l => l.role === 'cmyk');
+      const bakesLayers = usesComposite && layers.some(l => !l.hidden && l.role !== 'ignore');
+      if ((usesComposite && !hasComposite) || bakesLayers || layers.some(l => l.ambiguous)) {
+        setPsdImport(pending);
+      } else {
+        await importPsdLayers(pending.fileName, layers);
+      }
+    } catch (e) {
+      console.error("Failed to read PSD", e);
+      alert(`Не удалось прочитать PSD: ${e instanceof Error ? e.message : e}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // The CMYK layer (or the merged image) becomes the artwork, the other slots get their masks
+  const importPsdLayers = async (fileName: string, layers: PsdLayerInfo[]) => {
+    const processor = processorRef.current;
+    if (!processor) return;
+
+    setPsdImport(null);
+    setIsProcessing(true);
+    try {
+      const artworkLayer = layers.find(l => l.role === 'cmyk');
+      const artwork = await processor.renderPsdLayer(artworkLayer ? artworkLayer.index : -1, 'artwork', cmykConversion);
+      await clearImportedLayers();
+      setTiffFile(null);
+      setSeparationChannels([]);
+      setSeparatedArtwork(true);
+      await loadArtwork(compositeFile(artwork, fileName));
+
+      const added: (string | null)[] = [];
+      for (const layer of layers) {
+        if (layer.role === 'cmyk' || layer.role === 'ignore') continue;
+        const blob = await processor.renderPsdLayer(layer.index, 'mask', cmykConversion);
+        const mask = new File([blob], `${layer.name}.png`, { type: 'image/png' });
+        if (layer.role === 'white') {
+          setWhiteFile(mask);
+          await storeMask('white', mask);
+        } else if (layer.role === 'varnish') {
+          added.push(await (added.includes(PRIMARY_VARNISH_ID) ? addVarnishLayer(mask) : storePrimaryVarnish(mask)));
+        } else if (layer.role === 'foil') {
+          added.push(await addFoil(mask));
+        } else if (layer.role === 'emboss') {
+          setEmbossFile(mask);
+          await storeMask('emboss', mask);
+        } else {
+          added.push(await addSpot(mask, { name: layer.name }));
+        }
+      }
+      importedLayerIds.current = added.filter((id): id is string => !!id);
+    } catch (e) {
+      console.error("Failed to import PSD layers", e);
+      alert(`Не удалось импортировать слои PSD: ${e instanceof Error ? e.message : e}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-  // Handle CMYK Upload
-  const handleUploadCmyk = (file: File) => {
+  // Effect: CMYK display conversion changed, re-convert the loaded TIFF (its layers stay as they are)
+  useEffect(() => {
+    const processor = processorRef.current;
+    if (!processor || !tiffFile) return;
+    processor.decodeSeparations(null, cmykConversion)
+      .then(({ composite }) => loadArtwork(compositeFile(composite, tiffFile.name)))
+      .catch(e => console.error("CMYK conversion failed", e));
+  }, [cmykConversion]);
+
+  // Shows an image as the artwork
+  const loadArtwork = (file: File) => {
     setCmykFile(file);
     const url = URL.createObjectURL(file);
     setCmykUrl(url);
@@ -66,32 +424,28 @@ function App() {
     img.onload = () => {
         if (img.height > 0) {
             setAspectRatio(img.width / img.height);
+            setArtworkSize({ width: img.width, height: img.height });
         }
     };
     img.src = url;
+
+    // Artwork coverage is needed by the local preflight
+    return storeMask('cmyk', file).then(() => setArtworkVersion(v => v + 1));
   };
 
-  // Common Processing Logic
-  const processTextures = async (wUrl: string | null, vUrl: string | null) => {
-      // If no white ink and no varnish, we don't need generated maps
-      if (!wUrl && !vUrl) {
-          setMetalnessMapUrl(null);
-          setRoughnessMapUrl(null);
-          setClearcoatMapUrl(null);
-          return;
-      }
+  // Decode a mask once in the worker; maps are regenerated by the effect below.
+  // Without the processing flag, for callers that own it (imports).
+  const storeMask = async (layer: MaskLayer, file: File) => {
+      const processor = processorRef.current;
+      if (!processor) return;
+      await processor.setMask(layer, file);
+      setMaskVersion(v => v + 1);
+  };
 
+  const loadMask = async (layer: MaskLayer, file: File) => {
       setIsProcessing(true);
       try {
-        const { metalnessMap, roughnessMap, clearcoatMap } = await processTextureMaps(
-            wUrl, 
-            vUrl,
-            config.metalRoughness, 
-            config.paperRoughness
-        );
-        setMetalnessMapUrl(metalnessMap);
-        setRoughnessMapUrl(roughnessMap);
-        setClearcoatMapUrl(clearcoatMap);
+        await storeMask(layer, file);
       } catch (e) {
         console.error("Failed to process textures", e);
       } finally {
@@ -102,57 +456,342 @@ function App() {
   // Handle White Upload
   const handleUploadWhite = async (file: File) => {
     setWhiteFile(file);
-    const url = URL.createObjectURL(file);
-    setWhiteUrl(url);
-    // Process with existing varnish url if any
-    await processTextures(url, varnishUrl);
+    await loadMask('white', file);
+  };
+
+  // Handle White Mask generation from the CMYK artwork.
+  // The result is handled exactly like an uploaded mask.
+  const handleGenerateWhite = async () => {
+    const processor = processorRef.current;
+    if (!processor || !cmykFile) return;
+
+    setIsProcessing(true);
+    setIsPickingSeeds(false);
+    try {
+      const blob = await processor.generateWhite(whiteGenOptions);
+      const baseName = cmykFile.name.replace(/\.[^.]+$/, '');
+      await handleUploadWhite(new File([blob], `${baseName}-white-auto.png`, { type: 'image/png' }));
+    } catch (e) {
+      console.error("White mask generation failed", e);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Sheet clicks add magic wand seeds while picking
+  const handleSheetClick = (point: { x: number; y: number }) => {
+    if (!isPickingSeeds) return;
+    setWhiteGenOptions(options => ({ ...options, seeds: [...options.seeds, point] }));
   };
 
   // Handle Varnish Upload
   const handleUploadVarnish = async (file: File) => {
       setVarnishFile(file);
-      const url = URL.createObjectURL(file);
-      setVarnishUrl(url);
-      // Process with existing white url if any
-      await processTextures(whiteUrl, url);
+      await loadMask('varnish', file);
+      showPrimaryVarnish(file.name);
+  };
+
+  // The primary varnish layer (the cached 'varnish' mask) is listed first
+  const showPrimaryVarnish = (name: string) => {
+      setVarnishLayers(list => list.some(v => v.id === PRIMARY_VARNISH_ID)
+        ? list.map(v => v.id === PRIMARY_VARNISH_ID ? { ...v, name } : v)
+        : [createVarnishLayer(name, 'gloss', PRIMARY_VARNISH_ID), ...list]);
+  };
+
+  // Import variant of handleUploadVarnish (the import owns the processing flag)
+  const storePrimaryVarnish = async (file: File): Promise<string> => {
+      setVarnishFile(file);
+      await storeMask('varnish', file);
+      showPrimaryVarnish(file.name);
+      return PRIMARY_VARNISH_ID;
+  };
+
+  // Decodes a spot ink mask and adds the layer; callers own the processing flag and errors
+  const addSpot = async (file: File, init?: Partial<SpotColorLayer>): Promise<string | null> => {
+      const processor = processorRef.current;
+      if (!processor) return null;
+      const spot = { ...createSpotLayer(file.name), ...init };
+      await processor.setFinishMask(spot.id, file);
+      setSpots(list => [...list, spot]);
+      return spot.id;
+  };
+
+  // Handle Spot Colour Upload: every file adds a new spot ink, printed after the ones before
+  const handleAddSpot = async (file: File, init?: Partial<SpotColorLayer>) => {
+      setIsProcessing(true);
+      try {
+        await addSpot(file, init);
+      } catch (e) {
+        console.error("Failed to process spot colour mask", e);
+      } finally {
+        setIsProcessing(false);
+      }
+  };
+
+  const handleRemoveSpot = async (id: string) => {
+      const rest = spots.filter(s => s.id !== id);
+      setSpots(rest);
+      if (!rest.length && !whiteFile && !varnishLayers.length && !embossFile && !foils.length) setTextureMaps(null);
+      await processorRef.current?.setFinishMask(id, null);
+  };
+
+  // Further varnish layers (e.g. raised UV over a matte coat), applied bottom to top.
+  // Callers own the processing flag and errors.
+  const addVarnishLayer = async (file: File): Promise<string | null> => {
+      const processor = processorRef.current;
+      if (!processor) return null;
+      const layer = createVarnishLayer(file.name, 'raised');
+      await processor.setFinishMask(layer.id, file);
+      setVarnishLayers(list => [...list, layer]);
+      return layer.id;
+  };
+
+  const handleAddVarnishLayer = async (file: File) => {
+      setIsProcessing(true);
+      try {
+        await addVarnishLayer(file);
+      } catch (e) {
+        console.error("Failed to process varnish mask", e);
+      } finally {
+        setIsProcessing(false);
+      }
+  };
+
+  // A flood coat covers the whole sheet and needs no mask
+  const handleAddFloodCoat = () => {
+      setVarnishLayers(list => [...list, createVarnishLayer('Сплошной лак', 'flood')]);
+  };
+
+  const handleRemoveVarnishLayer = async (id: string) => {
+      const rest = varnishLayers.filter(v => v.id !== id);
+      setVarnishLayers(rest);
+      if (!rest.length && !whiteFile && !embossFile && !foils.length && !spots.length) setTextureMaps(null);
+      if (id === PRIMARY_VARNISH_ID) {
+        setVarnishFile(null);
+        await processorRef.current?.setMask('varnish', null);
+      } else {
+        await processorRef.current?.setFinishMask(id, null);
+      }
+  };
+
+  // Handle Emboss / Deboss Upload
+  const handleUploadEmboss = async (file: File) => {
+      setEmbossFile(file);
+      await loadMask('emboss', file);
+  };
+
+  // Decodes a foil mask and adds the layer; callers own the processing flag and errors
+  const addFoil = async (file: File): Promise<string | null> => {
+      const processor = processorRef.current;
+      if (!processor) return null;
+      const foil = createFoilLayer(file.name);
+      await processor.setFinishMask(foil.id, file);
+      setFoils(list => [...list, foil]);
+      return foil.id;
+  };
+
+  // Handle Foil Upload: every file adds a new foil layer
+  const handleAddFoil = async (file: File) => {
+      setIsProcessing(true);
+      try {
+        await addFoil(file);
+      } catch (e) {
+        console.error("Failed to process foil mask", e);
+      } finally {
+        setIsProcessing(false);
+      }
+  };
+
+  const handleRemoveFoil = async (id: string) => {
+      const rest = foils.filter(f => f.id !== id);
+      setFoils(rest);
+      // Without any mask left the worker has no maps to send, so drop the stale ones here
+      if (!rest.length && !whiteFile && !varnishLayers.length && !embossFile && !spots.length) setTextureMaps(null);
+      await processorRef.current?.setFinishMask(id, null);
+  };
+
+  // Effect: Press wobble, a random walk of every layer while enabled
+  useEffect(() => {
+    if (!registration.wobble) {
+      setWobble(ZERO_WOBBLE);
+      return;
+    }
+    const timer = setInterval(() => {
+      setWobble(w => stepWobble(w, registration.wobbleAmplitudeUm));
+    }, 400);
+    return () => clearInterval(timer);
+  }, [registration.wobble, registration.wobbleAmplitudeUm]);
+
+  // Physical size of the job; every mm / µm based tool converts with its resolution
+  const physicalSize = useMemo(
+    () => resolvePhysicalSize(artworkSize, fileDpi, printSize),
+    [artworkSize, fileDpi, printSize]
+  );
+  const dpi = physicalSize?.dpi || DEFAULT_DPI;
+
+  // Registration in physical units -> per-layer transforms (needs the artwork size for the DPI)
+  const layerTransforms = useMemo(() => {
+    if (!artworkSize) return null;
+    const transforms = {} as Record<RegistrationLayer, LayerTransform>;
+    REGISTRATION_LAYERS.forEach(layer => {
+      transforms[layer] = toLayerTransform(registration.layers[layer], wobble[layer], dpi, artworkSize.width);
+    });
+    return transforms;
+  }, [registration, wobble, dpi, artworkSize]);
+
+  // Signed trap distance in mask pixels (0 = as uploaded); the download always uses the correction
+  const exportTrapPx = useMemo(() => {
+    if (trap.mode === 'none') return 0;
+    const px = trap.unit === 'mm' ? (trap.amount / 25.4) * dpi : trap.amount;
+    return trap.mode === 'spread' ? px : -px;
+  }, [trap.mode, trap.unit, trap.amount, dpi]);
+  // The preview shows the uploaded mask while the before/after toggle is on "before"
+  const whiteTrapPx = trap.showOriginal ? 0 : exportTrapPx;
+
+  const whiteOpacity = whitePassOpacity(whiteInk.passOpacity.slice(0, whiteInk.passes));
+
+  // Halftone cell of the white screen in mask pixels
+  const whiteScreen = useMemo(() => {
+    if (whiteInk.screening !== 'halftone') return undefined;
+    return { cellPx: dpi / whiteInk.screenLpi, angleDeg: whiteInk.screenAngleDeg };
+  }, [whiteInk.screening, whiteInk.screenLpi, whiteInk.screenAngleDeg, dpi]);
+
+  // Emboss relief in mask pixels; a registered die follows the artwork's misregistration
+  const embossParams = useMemo(() => {
+    if (!embossFile) return undefined;
+    const toPx = (mm: number) => (mm / 25.4) * dpi;
+    return {
+      depthPx: toPx(emboss.depthMm) * (emboss.polarity === 'deboss' ? -1 : 1),
+      bevelPx: toPx(emboss.bevelMm),
+      transform: emboss.mode === 'registered' ? layerTransforms?.cmyk : undefined
+    };
+  }, [embossFile, emboss, dpi, layerTransforms]);
+
+  const varnishParams = useMemo(
+    () => toVarnishParams(varnishLayers, dpi),
+    [varnishLayers, dpi]
+  );
+
+  // Displacement of the subdivided sheet in world units (the sheet is 10 units wide)
+  const displacementScale = useMemo(() => {
+    if (!embossFile || !emboss.displacement || !physicalSize) return 0;
+    return emboss.depthMm * (10 / physicalSize.widthMm) * (emboss.polarity === 'deboss' ? -1 : 1);
+  }, [embossFile, emboss, physicalSize]);
+
+  // Effect: Live regeneration of the maps (Roughness calc).
+  // Masks stay decoded in the worker, so only the cheap remap step runs here.
+  useEffect(() => {
+    const processor = processorRef.current;
+    // We only need maps if there is at least a White Mask or a finishing layer
+    if (!processor || maskVersion === 0) return;
+
+    processor.remap({
+        metalRoughness: config.metalRoughness,
+        paperRoughness: config.paperRoughness,
+        whiteTrapPx,
+        whiteOpacity,
+        whiteScreen,
+        whiteTransform: layerTransforms?.white,
+        varnishTransform: layerTransforms?.varnish,
+        varnishes: varnishParams,
+        cmykTransform: layerTransforms?.cmyk,
+        inkTransparency: config.inkTransparency,
+        emboss: embossParams,
+        foils,
+        spots
+    })
+        .then(maps => {
+            if (maps) setTextureMaps(maps);
+        })
+        .catch(e => console.error("Failed to process textures", e));
+  }, [config.paperRoughness, config.metalRoughness, config.inkTransparency, maskVersion, layerTransforms, whiteTrapPx, whiteOpacity, whiteScreen, varnishParams, embossParams, foils, spots]);
+
+  // Handle Download of the trapped White Mask
+  const handleDownloadWhiteMask = async () => {
+    const processor = processorRef.current;
+    if (!processor || !whiteFile) return;
+    try {
+      const mask = await processor.exportMask('white', {
+          metalRoughness: config.metalRoughness,
+          paperRoughness: config.paperRoughness,
+          whiteTrapPx: exportTrapPx
+      });
+      if (!mask) return;
+      const baseName = whiteFile.name.replace(/\.[^.]+$/, '');
+      downloadUrl(pixelMapToDataUrl(mask), `${baseName}-${exportTrapPx === 0 ? 'original' : trap.mode}.png`);
+    } catch (e) {
+      console.error("Mask export failed", e);
+    }
+  };
+
+  // Handle ICC profile upload (null clears the slot)
+  const handleLoadProfile = async (slot: ProofProfileSlot, file: File | null) => {
+    const processor = processorRef.current;
+    if (!processor) return;
+    try {
+      const info = await processor.setProfile(slot, file);
+      setProofProfiles(profiles => ({ ...profiles, [slot]: info }));
+    } catch (e) {
+      console.error("Failed to load ICC profile", e);
+      alert(`Не удалось загрузить ICC-профиль: ${e instanceof Error ? e.message : e}`);
+    }
   };
 
-  // Effect: Debounced regeneration for textures only (Roughness calc)
+  // Effect: Soft proof, redone when the artwork, the profiles or the proof settings change
+  const proofActive = softProof.enabled || softProof.gamutWarning;
   useEffect(() => {
-    // We only need to regenerate maps if there is at least a White Mask or a Varnish Mask
-    if (!whiteUrl && !varnishUrl) return;
+    const processor = processorRef.current;
+    if (!processor || !proofProfiles.press || !artworkVersion || !proofActive) {
+      setProof(null);
+      setProofError(null);
+      return;
+    }
+    let cancelled = false;
+    processor.softProof(softProof, separatedArtwork)
+      .then(({ image, overlay, stats }) => {
+        if (cancelled) return;
+        setProof({ imageUrl: URL.createObjectURL(image), overlayUrl: URL.createObjectURL(overlay), stats });
+        setProofError(null);
+      })
+      .catch(e => {
+        console.error("Soft proof failed", e);
+        if (cancelled) return;
+        setProof(null);
+        setProofError(e instanceof Error ? e.message : String(e));
+      });
+    return () => { cancelled = true; };
+  }, [artworkVersion, proofProfiles, proofActive, softProof.paperWhite, softProof.totalInkLimit, separatedArtwork]);
 
-    const timer = setTimeout(async () => {
-        await processTextures(whiteUrl, varnishUrl);
-    }, 1000);
+  // Object URLs of a replaced proof are released
+  useEffect(() => () => {
+    if (!proof) return;
+    URL.revokeObjectURL(proof.imageUrl);
+    URL.revokeObjectURL(proof.overlayUrl);
+  }, [proof]);
 
-    return () => clearTimeout(timer);
-  }, [config.paperRoughness, config.metalRoughness, whiteUrl, varnishUrl]);
+  // The sheet shows the proofed colours while the soft proof is on
+  const displayUrl = softProof.enabled && proof ? proof.imageUrl : cmykUrl;
 
   // Handle Export to HTML
   const handleExport = async () => {
-    if (!cmykUrl) return;
+    if (!displayUrl) return;
     setIsExporting(true);
     try {
       const htmlContent = await generateStandaloneHtml(
-        cmykUrl, 
-        metalnessMapUrl, 
-        roughnessMapUrl,
-        clearcoatMapUrl,
+        displayUrl, 
+        textureMaps,
         config,
         aspectRatio,
-        isPaperPreview
+        isPaperPreview,
+        layerTransforms?.cmyk || null,
+        displacementScale,
+        lighting,
+        environment
       );
       
       const blob = new Blob([htmlContent], { type: 'text/html' });
       const url = URL.createObjectURL(blob);
-      
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `metal-print-${new Date().getTime()}.html`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      downloadUrl(url, `metal-print-${new Date().getTime()}.html`);
       URL.revokeObjectURL(url);
       
     } catch (e) {
@@ -163,52 +802,349 @@ function App() {
     }
   };
 
+  // Every uploaded layer for the AI analysis, downscaled, with a capture of the current render
+  const collectAnalysisLayers = async (): Promise<AnalysisLayer[]> => {
+    const processor = processorRef.current;
+    if (!cmykFile) return [];
+    const image = (source: Blob | string) => scaleImageToDataUrl(source, ANALYSIS_IMAGE_SIZE);
+    const finishMask = async (id: string) => {
+      const mask = await processor?.exportFinishMask(id);
+      return mask ? image(pixelMapToDataUrl(mask)) : null;
+    };
+
+    const layers: AnalysisLayer[] = [{ role: 'cmyk', name: cmykFile.name, image: await image(cmykFile) }];
+    if (whiteFile) layers.push({ role: 'white', name: whiteFile.name, image: await image(whiteFile) });
+    for (const varnish of varnishLayers) {
+      if (varnish.type === 'flood') continue; // No mask, described in the job spec
+      const detail = VARNISH_TYPES[varnish.type].label;
+      const url = varnish.id === PRIMARY_VARNISH_ID
+        ? varnishFile && await image(varnishFile)
+        : await finishMask(varnish.id);
+      if (url) layers.push({ role: 'varnish', name: varnish.name, image: url, detail });
+    }
+    for (const spot of spots) {
+      const url = await finishMask(spot.id);
+      if (url) layers.push({ role: 'spot', name: spot.name, image: url });
+    }
+    for (const foil of foils) {
+      const url = await finishMask(foil.id);
+      if (url) layers.push({ role: 'foil', name: foil.name, image: url, detail: foil.type === 'hot' ? 'горячая' : 'холодная' });
+    }
+    if (embossFile) layers.push({ role: 'emboss', name: embossFile.name, image: await image(embossFile) });
+
+    const render = screenshotRef.current?.();
+    if (render) layers.push({ role: 'render', name: 'render', image: await image(render) });
+    return layers;
+  };
+
+  // Job context for the AI analysis
+  const jobSpec = (): JobSpec => ({
+    size: physicalSize && { widthMm: physicalSize.widthMm, heightMm: physicalSize.heightMm, dpi: physicalSize.dpi, dpiFromFile: physicalSize.source === 'file' },
+    bleedMm: printSize.bleedMm,
+    safeMm: printSize.safeMm,
+    substrate: { name: config.substrate.name, metallic: config.substrate.metallic },
+    white: whiteFile ? {
+      passes: whiteInk.passes,
+      screening: whiteInk.screening,
+      screenLpi: whiteInk.screenLpi,
+      trap: trap.mode === 'none' ? 'нет' : `${trap.mode === 'choke' ? 'сжатие' : 'расширение'} ${trap.amount} ${trap.unit === 'mm' ? 'мм' : 'px'}`
+    } : null,
+    varnishes: varnishLayers.map(({ name, type }) => ({ name, type })),
+    foils: foils.map(({ name, type }) => ({ name, type })),
+    spots: spots.map(spot => spot.name),
+    emboss: embossFile ? { polarity: emboss.polarity, depthMm: emboss.depthMm } : null,
+    press: { ...preflightOptions, totalInkLimit: softProof.totalInkLimit }
+  });
+
+  // Adds a finished run to the history, with previews of its input layers
+  const recordRun = async (source: AnalysisRunSource, result: AnalysisResult, inputs: { name: string; image: Blob | string }[], provider: string | null) => {
+    if (!cmykFile) return;
+    const createdAt = Date.now();
+    const settings = { provider, preflight: preflightOptions, totalInkLimit: softProof.totalInkLimit, substrate: config.substrate.name, dpi };
+    const artworkName = cmykFile.name;
+    let thumbnails: AnalysisRun['thumbnails'] = [];
+    try {
+        thumbnails = await Promise.all(inputs.map(async ({ name, image }) => ({
+            name,
+            image: await scaleImageToDataUrl(image, THUMBNAIL_SIZE, 'image/jpeg')
+        })));
+    } catch (e) {
+        console.error("Run thumbnails failed", e);
+    }
+    setAnalysisHistory(runs => [{ id: `run-${createdAt}`, createdAt, source, artworkName, result, thumbnails, settings }, ...runs]);
+  };
+
   // Handle AI Analysis
   const handleAnalyze = async () => {
     if (!cmykFile) return;
 
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
+    setAnalysisFailure(null);
+    try {
+        const layers = await collectAnalysisLayers();
+        if (controller.signal.aborted) {
+            setAnalysisFailure({ kind: 'cancelled', message: "Анализ отменён", provider: '', attempts: 0 });
+            return;
+        }
+
+        const provider = createAnalysisProvider(providerSettings);
+        const outcome = await runAnalysis(
+            provider,
+            { layers, job: jobSpec() },
+            { timeoutSec: providerSettings.timeoutSec, retries: providerSettings.retries, signal: controller.signal }
+        );
+        if (outcome.type === 'result') {
+            setAnalysisResult(outcome.result);
+            await recordRun('ai', outcome.result, layers.map(layer => ({ name: layer.name, image: layer.image })), provider.label);
+        } else {
+            console.error("Analysis failed", outcome.failure);
+            setAnalysisFailure(outcome.failure);
+        }
+    } catch (e) {
+        console.error("Analysis failed", e);
+        setAnalysisFailure({ kind: 'config', message: e instanceof Error ? e.message : String(e), provider: '', attempts: 0 });
+    } finally {
+        analysisAbortRef.current = null;
+        setIsAnalyzing(false);
+    }
+  };
+
+  const handleCancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  // Follow-up question: fresh layers and the current findings as context, answer streamed
+  const handleSendChat = async (text: string) => {
+    if (!cmykFile || isChatting) return;
+    const job = cmykFile.name;
+    const now = Date.now();
+    const question: ChatMessage = { id: `chat-${now}-q`, role: 'user', text, createdAt: now, point: chatPoint ?? undefined };
+    const answerId = `chat-${now}-a`;
+    const messages = [...chat.messages, question];
+    setChat({ job, messages: [...messages, { id: answerId, role: 'assistant', text: '', createdAt: now }] });
+    setChatPoint(null);
+    setIsPickingChatPoint(false);
+
+    // The artwork may change while the answer streams; its transcript is then left alone
+    const updateAnswer = (patch: Partial<ChatMessage>) => setChat(current => current.job !== job ? current : {
+      job,
+      messages: current.messages.map(m => m.id === answerId ? { ...m, ...patch } : m)
+    });
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    setIsChatting(true);
     try {
-        const cmykBase64 = await fileToBase64(cmykFile);
-        const whiteBase64 = whiteFile 
-            ? await fileToBase64(whiteFile) 
-            : cmykBase64; 
+        const layers = await collectAnalysisLayers();
+        if (controller.signal.aborted) {
+            updateAnswer({ failure: { kind: 'cancelled', message: "Анализ отменён", provider: '', attempts: 0 } });
+            return;
+        }
+
+        const outcome = await runChat(
+            createAnalysisProvider(providerSettings),
+            { layers, job: jobSpec(), findings: analysisResult, messages },
+            { timeoutSec: providerSettings.timeoutSec, retries: providerSettings.retries, signal: controller.signal },
+            answer => updateAnswer({ text: answer })
+        );
+        if (outcome.type === 'result') {
+            updateAnswer({ text: outcome.result });
+        } else {
+            console.error("Chat failed", outcome.failure);
+            updateAnswer({ failure: outcome.failure });
+        }
+    } catch (e) {
+        console.error("Chat failed", e);
+        updateAnswer({ failure: { kind: 'config', message: e instanceof Error ? e.message : String(e), provider: '', attempts: 0 } });
+    } finally {
+        chatAbortRef.current = null;
+        setIsChatting(false);
+    }
+  };
 
-        const result = await analyzePrintFeasibility(cmykBase64, whiteBase64);
+  const handleCancelChat = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  const handleClearChat = () => {
+    setChat(current => ({ ...current, messages: [] }));
+  };
+
+  // Sheet clicks pick the point the next question refers to
+  const handleChatPoint = (point: { x: number; y: number }) => {
+    setChatPoint(point);
+    setIsPickingChatPoint(false);
+  };
+
+  // Handle Local Preflight (rule-based, works offline)
+  const handlePreflight = async () => {
+    const processor = processorRef.current;
+    if (!processor || !cmykFile) return;
+
+    setIsAnalyzing(true);
+    setAnalysisFailure(null);
+    try {
+        const names = Object.fromEntries(varnishLayers.map(v => [v.id, v.name]));
+        const result = await processor.preflight(preflightOptions, dpi, varnishParams, names);
         setAnalysisResult(result);
+        const inputs = [cmykFile, whiteFile, varnishFile].filter((file): file is File => !!file);
+        await recordRun('local', result, inputs.map(file => ({ name: file.name, image: file })), null);
     } catch (e) {
-        console.error("Analysis failed", e);
+        console.error("Preflight failed", e);
     } finally {
         setIsAnalyzing(false);
     }
   };
 
-  const handleResetConfig = () => {
-    setConfig(DEFAULT_CONFIG);
+  // Handle Coverage Report: plates as they go to press, TAC checked against the soft proof limit
+  const handleComputeCoverage = async () => {
+    const processor = processorRef.current;
+    if (!processor || !cmykFile) return;
+
+    setIsComputingCoverage(true);
+    try {
+        const names = Object.fromEntries(varnishLayers.map(v => [v.id, v.name]));
+        const report = await processor.coverage({
+            metalRoughness: config.metalRoughness,
+            paperRoughness: config.paperRoughness,
+            whiteTrapPx,
+            whiteScreen,
+            varnishes: varnishParams,
+            foils,
+            spots
+        }, softProof.totalInkLimit, separatedArtwork, names);
+        setCoverageReport(report);
+    } catch (e) {
+        console.error("Coverage report failed", e);
+        alert(`Не удалось рассчитать покрытие: ${e instanceof Error ? e.message : e}`);
+    } finally {
+        setIsComputingCoverage(false);
+    }
+  };
+
+  const consumptionRows = useMemo(
+    () => coverageReport ? estimateConsumption(coverageReport, consumption, physicalSize, whiteInk.passes) : [],
+    [coverageReport, consumption, physicalSize, whiteInk.passes]
+  );
+
+  const handleExportCoverage = (format: 'csv' | 'json') => {
+    if (!coverageReport) return;
+    const content = format === 'csv'
+      ? consumptionToCsv(consumptionRows)
+      : consumptionToJson(coverageReport, consumptionRows, consumption, physicalSize, whiteInk.passes);
+    const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const baseName = cmykFile?.name.replace(/\.[^.]+$/, '') || 'job';
+    downloadUrl(url, `${baseName}-coverage.${format}`);
+    URL.revokeObjectURL(url);
   };
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = reject;
+  // TAC hot spots go to the issue overlay like preflight findings
+  const handleShowHotSpots = () => {
+    const tac = coverageReport?.tac;
+    if (!tac || !tac.hotSpots.length) return;
+    setAnalysisResult({
+        title: "Суммарное покрытие красок",
+        feedback: [],
+        score: Math.round(100 * (1 - tac.overLimit)),
+        isCompatible: false,
+        issues: [{
+            rule: 'total-ink-limit',
+            severity: 'warning',
+            message: `Суммарное покрытие выше ${tac.limit}% (макс. ${Math.round(tac.max)}%): ${tac.hotSpots.length} зон.`,
+            regions: tac.hotSpots
+        }],
+        imageSize: tac.imageSize
     });
   };
 
+  // Findings (AI or preflight) as JSON; regions are in the units of imageSize
+  const handleExportFindings = () => {
+    if (!analysisResult) return;
+    const { title, score, isCompatible, feedback, imageSize, issues = [] } = analysisResult;
+    const content = JSON.stringify({
+      title,
+      score,
+      isCompatible,
+      feedback,
+      imageSize,
+      findings: issues.map(({ rule, category, severity, message, fix, regions }) => ({ rule, category, severity, message, fix, regions }))
+    }, null, 2);
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+    const baseName = cmykFile?.name.replace(/\.[^.]+$/, '') || 'job';
+    downloadUrl(url, `${baseName}-findings.json`);
+    URL.revokeObjectURL(url);
+  };
+
+  // Saves the current substrate settings (with the current metal roughness) as a custom stock
+  const handleSaveSubstrate = (name: string) => {
+    const substrate: Substrate = {
+      ...config.substrate,
+      id: `custom-${Date.now()}`,
+      name,
+      custom: true,
+      baseRoughness: config.metalRoughness
+    };
+    const next = [...customSubstrates, substrate];
+    setCustomSubstrates(next);
+    saveCustomSubstrates(next);
+    setConfig({ ...config, substrate });
+  };
+
+  const handleDeleteSubstrate = (id: string) => {
+    const next = customSubstrates.filter(s => s.id !== id);
+    setCustomSubstrates(next);
+    saveCustomSubstrates(next);
+    if (config.substrate.id === id) setConfig({ ...config, substrate: DEFAULT_SUBSTRATE });
+  };
+
+  // Uploaded .hdr / .exr becomes the custom environment
+  const handleLoadEnvironment = async (file: File) => {
+    try {
+      const map = decodeEnvironment(await file.arrayBuffer(), file.name);
+      setCustomEnvironment({ name: file.name, map });
+      setLighting(current => ({ ...current, preset: 'custom' }));
+      setLightingError(null);
+    } catch (e) {
+      console.error("Environment failed to load", e);
+      setLightingError(`Не удалось прочитать «${file.name}»: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const handleResetConfig = () => {
+    setConfig(DEFAULT_CONFIG);
+  };
+
   return (
     <div className="flex flex-col md:flex-row h-screen w-screen bg-black overflow-hidden">
       {/* 3D Viewport */}
       <div className="flex-1 h-[60vh] md:h-full relative order-2 md:order-1">
         <PrintSimulator 
-            cmykUrl={cmykUrl}
-            metalnessMapUrl={metalnessMapUrl}
-            roughnessMapUrl={roughnessMapUrl}
-            clearcoatMapUrl={clearcoatMapUrl}
+            cmykUrl={displayUrl}
+            gamutOverlayUrl={softProof.gamutWarning && proof ? proof.overlayUrl : null}
+            softProofLabel={softProof.enabled && proof ? proofProfiles.press?.description || null : null}
+            physicalSize={physicalSize}
+            guides={printSize.showGuides ? { bleedMm: printSize.bleedMm, safeMm: printSize.safeMm } : null}
+            textureMaps={textureMaps}
             config={config}
             aspectRatio={aspectRatio}
             exposure={config.exposure} // Pass directly, no deferral
             isPaperPreview={isPaperPreview}
+            cmykTransform={layerTransforms?.cmyk || null}
+            displacementScale={displacementScale}
+            onSheetClick={isPickingSeeds ? handleSheetClick : isPickingChatPoint ? handleChatPoint : undefined}
+            analysisResult={analysisResult}
+            issueOverlay={issueOverlay}
+            issueSelection={issueSelection}
+            screenshotRef={screenshotRef}
+            lighting={lighting}
+            environment={environment}
+            onSelectIssue={(selection) => {
+                setIssueSelection(selection);
+                setActiveTab(TabView.ANALYSIS);
+            }}
         />
       </div>
 
@@ -218,17 +1154,102 @@ function App() {
             config={config}
             setConfig={setConfig}
             onUploadCmyk={handleUploadCmyk}
+            cmykConversion={tiffFile ? cmykConversion : null}
+            setCmykConversion={setCmykConversion}
+            separationChannels={separationChannels}
+            printSize={printSize}
+            setPrintSize={setPrintSize}
+            physicalSize={physicalSize}
+            proofProfiles={proofProfiles}
+            onLoadProfile={handleLoadProfile}
+            softProof={softProof}
+            setSoftProof={setSoftProof}
+            proofStats={proof?.stats || null}
+            proofError={proofError}
             onUploadWhite={handleUploadWhite}
             onUploadVarnish={handleUploadVarnish}
+            onUploadEmboss={handleUploadEmboss}
+            emboss={emboss}
+            setEmboss={setEmboss}
+            varnishLayers={varnishLayers}
+            setVarnishLayers={setVarnishLayers}
+            onAddVarnishLayer={handleAddVarnishLayer}
+            onAddFloodCoat={handleAddFloodCoat}
+            onRemoveVarnishLayer={handleRemoveVarnishLayer}
+            spots={spots}
+            setSpots={setSpots}
+            onAddSpot={handleAddSpot}
+            onRemoveSpot={handleRemoveSpot}
+            foils={foils}
+            setFoils={setFoils}
+            onAddFoil={handleAddFoil}
+            onRemoveFoil={handleRemoveFoil}
             isProcessing={isProcessing}
             activeTab={activeTab}
             setActiveTab={setActiveTab}
             onAnalyze={handleAnalyze}
+            onCancelAnalysis={handleCancelAnalysis}
+            providerSettings={providerSettings}
+            setProviderSettings={setProviderSettings}
+            analysisFailure={analysisFailure}
+            onPreflight={handlePreflight}
+            preflightOptions={preflightOptions}
+            setPreflightOptions={setPreflightOptions}
+            whiteGenOptions={whiteGenOptions}
+            setWhiteGenOptions={setWhiteGenOptions}
+            isPickingSeeds={isPickingSeeds}
+            setIsPickingSeeds={setIsPickingSeeds}
+            onGenerateWhite={handleGenerateWhite}
+            trap={trap}
+            setTrap={setTrap}
+            whiteInk={whiteInk}
+            setWhiteInk={setWhiteInk}
+            onDownloadWhiteMask={handleDownloadWhiteMask}
+            registration={registration}
+            setRegistration={setRegistration}
+            customSubstrates={customSubstrates}
+            onSaveSubstrate={handleSaveSubstrate}
+            onDeleteSubstrate={handleDeleteSubstrate}
+            lighting={lighting}
+            setLighting={setLighting}
+            customEnvironmentName={customEnvironment?.name || null}
+            onLoadEnvironment={handleLoadEnvironment}
+            lightingError={lightingError}
+            issueOverlay={issueOverlay}
+            setIssueOverlay={setIssueOverlay}
+            issueSelection={issueSelection}
+            onSelectIssue={setIssueSelection}
             isAnalyzing={isAnalyzing}
             analysisResult={analysisResult}
+            coverageReport={coverageReport}
+            consumptionRows={consumptionRows}
+            consumption={consumption}
+            setConsumption={setConsumption}
+            isComputingCoverage={isComputingCoverage}
+            onComputeCoverage={handleComputeCoverage}
+            onExportCoverage={handleExportCoverage}
+            onShowHotSpots={handleShowHotSpots}
+            onExportFindings={handleExportFindings}
+            analysisHistory={analysisHistory}
+            onOpenRun={(run) => setAnalysisResult(run.result)}
+            onDeleteRun={(id) => setAnalysisHistory(runs => runs.filter(run => run.id !== id))}
+            onClearHistory={() => setAnalysisHistory([])}
+            chatMessages={chat.messages}
+            isChatting={isChatting}
+            onSendChat={handleSendChat}
+            onCancelChat={handleCancelChat}
+            onClearChat={handleClearChat}
+            chatPoint={chatPoint}
+            onClearChatPoint={() => setChatPoint(null)}
+            isPickingChatPoint={isPickingChatPoint}
+            setIsPickingChatPoint={(isPicking) => {
+                setIsPickingChatPoint(isPicking);
+                if (isPicking) setIsPickingSeeds(false);
+            }}
             cmykFileName={cmykFile?.name || null}
             whiteFileName={whiteFile?.name || null}
             varnishFileName={varnishFile?.name || null}
+            embossFileName={embossFile?.name || null}
             onExport={handleExport}
             isExporting={isExporting}
             isPaperPreview={isPaperPreview}
@@ -236,6 +1257,16 @@ function App() {
             onReset={handleResetConfig}
         />
       </div>
+
+      {psdImport && (
+        <PsdImportDialog
+            fileName={psdImport.fileName}
+            layers={psdImport.layers}
+            hasComposite={psdImport.hasComposite}
+            onConfirm={(layers) => importPsdLayers(psdImport.fileName, layers)}
+            onCancel={() => setPsdImport(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowRight, CheckCircle, GitCompare, History, Info, RotateCcw, Trash2, XCircle } from 'lucide-react';
+import { AnalysisRun, AnalysisRunSettings, IssueChange, IssueSeverity } from '../types';
+import { compareRuns } from '../utils/historyUtils';
+
+interface AnalysisHistoryProps {
+  runs: AnalysisRun[];
+  onOpenRun: (run: AnalysisRun) => void;
+  onDeleteRun: (id: string) => void;
+  onClearHistory: () => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const severityIcon = (severity: IssueSeverity) => {
+  if (severity === 'error') return <XCircle size={12} className="text-red-500 mt-0.5 shrink-0" />;
+  if (severity === 'warning') return <AlertTriangle size={12} className="text-yellow-500 mt-0.5 shrink-0" />;
+  return <Info size={12} className="text-blue-400 mt-0.5 shrink-0" />;
+};
+
+// Settings that make two runs not directly comparable
+const settingsChanges = (a: AnalysisRunSettings, b: AnalysisRunSettings): string[] => {
+  const changes: string[] = [];
+  if (a.provider !== b.provider) changes.push('анализатор');
+  if (a.substrate !== b.substrate) changes.push('материал');
+  if (Math.round(a.dpi) !== Math.round(b.dpi)) changes.push('разрешение');
+  if (a.totalInkLimit !== b.totalInkLimit) changes.push('лимит суммы красок');
+  if ((Object.keys(a.preflight) as (keyof AnalysisRunSettings['preflight'])[]).some(key => a.preflight[key] !== b.preflight[key])) {
+    changes.push('ограничения печати');
+  }
+  return changes;
+};
+
+const ChangeList: React.FC<{ title: string; items: IssueChange[]; tone: string }> = ({ title, items, tone }) => (
+  <div className="space-y-1">
+    <div className={`text-[10px] font-semibold uppercase tracking-wider ${tone}`}>{title} · {items.length}</div>
+    {items.map((change, idx) => (
+      <div key={idx} className="flex gap-2 items-start bg-gray-900 p-2 rounded text-xs text-gray-300">
+        {severityIcon(change.issue.severity)}
+        <span>
+          {change.issue.message}
+          {change.regions.length > 0 && change.regions.length < change.issue.regions.length && (
+            <span className="text-gray-500"> ({change.regions.length} из {change.issue.regions.length} обл.)</span>
+          )}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+/**
+ * Every analysis run (AI or local) with its layer previews; two picked runs are
+ * compared: fixed and new findings and the score change.
+ */
+const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({ runs, onOpenRun, onDeleteRun, onClearHistory }) => {
+  const [picked, setPicked] = useState<string[]>([]);
+
+  // Earlier run first, whatever order they were picked in
+  const pair = useMemo(() => {
+    const selected = runs.filter(run => picked.includes(run.id)).sort((a, b) => a.createdAt - b.createdAt);
+    return selected.length === 2 ? selected : null;
+  }, [runs, picked]);
+  const comparison = useMemo(() => pair && compareRuns(pair[0].result, pair[1].result), [pair]);
+
+  const togglePick = (id: string) => setPicked(list =>
+    list.includes(id) ? list.filter(p => p !== id) : [...list, id].slice(-2));
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <History size={14} /> История анализов
+        </h3>
+        {runs.length > 0 && (
+          <button onClick={onClearHistory} className="text-gray-500 hover:text-red-400" title="Очистить историю">
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        {runs.length ? 'Отметьте два запуска, чтобы сравнить ревизии.' : 'Здесь появятся запуски AI-анализа и локальной проверки.'}
+      </p>
+
+      {runs.length > 0 && (
+        <div className="max-h-72 overflow-y-auto space-y-1.5 pr-1">
+          {runs.map(run => (
+            <div
+              key={run.id}
+              className={`p-2 rounded border text-xs transition ${picked.includes(run.id) ? 'bg-gray-750 border-indigo-500' : 'bg-gray-900 border-gray-700'}`}
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={picked.includes(run.id)}
+                  onChange={() => togglePick(run.id)}
+                  className="accent-indigo-500"
+                />
+                <span className="text-gray-400 font-mono shrink-0">{formatTime(run.createdAt)}</span>
+                <span className={`px-1 rounded text-[10px] shrink-0 ${run.source === 'ai' ? 'bg-indigo-900 text-indigo-300' : 'bg-gray-700 text-gray-300'}`}>
+                  {run.source === 'ai' ? 'AI' : 'Локально'}
+                </span>
+                <span className="flex-1 min-w-0 truncate text-gray-300" title={run.artworkName}>{run.artworkName}</span>
+                <span className={`font-bold shrink-0 ${run.result.isCompatible ? 'text-green-400' : 'text-red-400'}`}>{run.result.score}</span>
+                <button onClick={() => onOpenRun(run)} className="text-gray-500 hover:text-white" title="Показать результат">
+                  <RotateCcw size={12} />
+                </button>
+                <button onClick={() => onDeleteRun(run.id)} className="text-gray-500 hover:text-red-400" title="Удалить">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              {run.thumbnails.length > 0 && (
+                <div className="flex gap-1 mt-1.5 pl-5">
+                  {run.thumbnails.map((thumb, idx) => (
+                    <img
+                      key={idx}
+                      src={thumb.image}
+                      alt={thumb.name}
+                      title={thumb.name}
+                      className="h-8 w-8 object-contain bg-gray-950 rounded border border-gray-700"
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pair && comparison && (
+        <div className="mt-4 space-y-3 border-t border-gray-700 pt-3">
+          <div className="flex items-center gap-2 text-xs text-gray-300">
+            <GitCompare size={14} className="text-indigo-400 shrink-0" />
+            <span className="truncate" title={pair[0].artworkName}>{formatTime(pair[0].createdAt)}</span>
+            <ArrowRight size={12} className="shrink-0" />
+            <span className="truncate" title={pair[1].artworkName}>{formatTime(pair[1].createdAt)}</span>
+          </div>
+
+          <div className="flex items-center justify-between bg-gray-900 p-2 rounded text-xs">
+            <span className="text-gray-400">Оценка</span>
+            <span className="font-mono text-gray-200">
+              {pair[0].result.score} → {pair[1].result.score}{' '}
+              <span className={comparison.scoreDelta > 0 ? 'text-green-400' : comparison.scoreDelta < 0 ? 'text-red-400' : 'text-gray-500'}>
+                ({comparison.scoreDelta > 0 ? '+' : ''}{comparison.scoreDelta})
+              </span>
+            </span>
+          </div>
+
+          {settingsChanges(pair[0].settings, pair[1].settings).length > 0 && (
+            <p className="text-[10px] text-yellow-500">
+              Запуски сделаны с разными настройками ({settingsChanges(pair[0].settings, pair[1].settings).join(', ')}): часть различий может быть не из-за макета.
+            </p>
+          )}
+
+          {comparison.fixed.length === 0 && comparison.introduced.length === 0 ? (
+            <p className="flex items-center gap-2 text-xs text-gray-400">
+              <CheckCircle size={12} className="text-green-500" /> Находки совпадают ({comparison.unchanged}).
+            </p>
+          ) : (
+            <>
+              {comparison.fixed.length > 0 && <ChangeList title="Исправлено" items={comparison.fixed} tone="text-green-400" />}
+              {comparison.introduced.length > 0 && <ChangeList title="Новые" items={comparison.introduced} tone="text-red-400" />}
+              <p className="text-[10px] text-gray-500">Без изменений: {comparison.unchanged}</p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisHistory;
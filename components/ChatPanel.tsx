@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Crosshair, MessageSquare, Send, Trash2, X, XCircle } from 'lucide-react';
+import { ChatMessage } from '../types';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  isChatting: boolean;
+  // Chat needs the artwork (and is blocked while the one-shot analysis runs)
+  disabled: boolean;
+  onSend: (text: string) => void;
+  onCancel: () => void;
+  onClear: () => void;
+  // Point to attach to the next question, 0-1 of the artwork
+  point: { x: number; y: number } | null;
+  onClearPoint: () => void;
+  isPickingPoint: boolean;
+  setIsPickingPoint: (isPicking: boolean) => void;
+}
+
+const formatPoint = (point: { x: number; y: number }) =>
+  `x ${Math.round(point.x * 100)}%, y ${Math.round(point.y * 100)}%`;
+
+/**
+ * Follow-up questions about the analysed layout. Answers stream into the last
+ * message; a point picked on the sheet goes with the next question.
+ */
+const ChatPanel: React.FC<ChatPanelProps> = ({
+  messages, isChatting, disabled, onSend, onCancel, onClear, point, onClearPoint, isPickingPoint, setIsPickingPoint
+}) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow the streamed answer
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages]);
+
+  const canSend = !disabled && !isChatting && draft.trim().length > 0;
+  const send = () => {
+    if (!canSend) return;
+    onSend(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <MessageSquare size={14} /> Вопросы по макету
+        </h3>
+        {messages.length > 0 && (
+          <button
+            onClick={onClear}
+            disabled={isChatting}
+            className="text-gray-500 hover:text-red-400 disabled:opacity-50"
+            title="Очистить переписку"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        Модель видит все слои, параметры заказа и результаты последнего анализа. Переписка сохраняется для этого макета.
+      </p>
+
+      {messages.length > 0 && (
+        <div ref={listRef} className="max-h-80 overflow-y-auto space-y-2 mb-3 pr-1">
+          {messages.map(message => (
+            <div
+              key={message.id}
+              className={`p-2 rounded text-xs whitespace-pre-wrap break-words ${
+                message.role === 'user' ? 'bg-indigo-900/40 text-indigo-100 ml-6' : 'bg-gray-900 text-gray-300 mr-6'
+              }`}
+            >
+              {message.point && (
+                <span className="flex items-center gap-1 text-[10px] text-indigo-300 mb-1">
+                  <Crosshair size={10} /> {formatPoint(message.point)}
+                </span>
+              )}
+              {message.text || (message.role === 'assistant' && !message.failure && <span className="text-gray-500">...</span>)}
+              {message.failure && (
+                <span className={`flex gap-1 items-start mt-1 text-[10px] ${message.failure.kind === 'cancelled' ? 'text-gray-500' : 'text-red-400'}`}>
+                  <XCircle size={10} className="mt-0.5 shrink-0" />
+                  {message.failure.kind === 'cancelled' ? 'Ответ прерван' : message.failure.message}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            send();
+          }
+        }}
+        rows={2}
+        disabled={disabled}
+        placeholder="Например: читается ли текст 6 pt на задней панели?"
+        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200 resize-none disabled:opacity-50"
+      />
+
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={() => setIsPickingPoint(!isPickingPoint)}
+          disabled={disabled}
+          className={`flex-1 min-w-0 py-1.5 px-2 rounded text-xs font-medium flex items-center justify-center gap-1 border transition disabled:opacity-50 ${isPickingPoint ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-700'}`}
+        >
+          <Crosshair size={12} /> {isPickingPoint ? 'Кликните по листу' : point ? formatPoint(point) : 'Указать область'}
+        </button>
+        {point && !isPickingPoint && (
+          <button
+            onClick={onClearPoint}
+            className="px-2 rounded bg-gray-900 border border-gray-700 hover:bg-gray-700 text-gray-400 transition"
+            title="Убрать точку"
+          >
+            <X size={12} />
+          </button>
+        )}
+        {isChatting ? (
+          <button
+            onClick={onCancel}
+            className="py-1.5 px-3 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-medium transition"
+          >
+            Остановить
+          </button>
+        ) : (
+          <button
+            onClick={send}
+            disabled={!canSend}
+            className={`py-1.5 px-3 rounded text-xs font-medium transition flex items-center gap-1 ${
+              canSend ? 'bg-indigo-600 hover:bg-indigo-500 text-white' : 'bg-gray-700 text-gray-500 cursor-not-allowed'
+            }`}
+          >
+            <Send size={12} /> Спросить
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -1,23 +1,118 @@
 
-import React, { useRef } from 'react';
-import { Upload, Layers, Settings, Activity, AlertTriangle, CheckCircle, Download, FileText, Sparkles, RotateCcw, Droplets } from 'lucide-react';
-import { PrintConfig, TabView, AnalysisResult } from '../types';
+import React, { useRef, useState } from 'react';
+import { Upload, Layers, Settings, Activity, AlertTriangle, CheckCircle, Download, FileText, Sparkles, RotateCcw, Droplets, XCircle, Info, ShieldCheck, Move, Scissors, Wand2, Crosshair, Save, Trash2, Layers2, Mountain, Stamp, Palette, ChevronUp, ChevronDown, Monitor, Ruler, PieChart, Flame, Sun, Plus } from 'lucide-react';
+import { PrintConfig, TabView, AnalysisResult, PreflightOptions, IssueSeverity, IssueOverlayMode, IssueSelection, RegistrationConfig, RegistrationLayer, LayerRegistration, TrapConfig, TrapMode, WhiteGenOptions, WhiteGenMode, Substrate, MicroTextureKind, HologramPattern, WhiteInkConfig, EmbossConfig, FoilLayer, VarnishLayer, VarnishType, SpotColorLayer, CmykConversion, CmykConversionMode, ChannelRole, ProofProfileInfo, ProofProfileSlot, ProofStats, SoftProofOptions, PrintSizeConfig, PrintSizeMode, PhysicalSize, CoverageReport, ConsumptionConfig, ConsumptionRow, InkRates, AnalysisProviderSettings, AnalysisFailure, AnalysisErrorKind, AnalysisProviderKind, AnalysisIssue, FindingCategory, ChatMessage, AnalysisRun, LightingConfig, LightingPresetId, KeyLight } from '../types';
+import { DEFAULT_REGISTRATION } from '../utils/registrationUtils';
+import { SUBSTRATES } from '../utils/substrateUtils';
+import { FOIL_PRESETS } from '../utils/foilUtils';
+import { VARNISH_TYPES } from '../utils/varnishUtils';
+import { LIGHTING_PRESETS, createKeyLight } from '../utils/lightingUtils';
+import { hexToRgb, labToSrgb, rgbToHex, spotColorRgb, srgbToLab } from '../utils/colorUtils';
+import { whitePassOpacity } from '../utils/textureUtils';
+import { PROVIDER_KINDS } from '../services/providerRegistry';
+import { FINDING_CATEGORIES } from '../services/analysisProvider';
+import ChatPanel from './ChatPanel';
+import AnalysisHistory from './AnalysisHistory';
 
 interface ControlsProps {
   config: PrintConfig;
   setConfig: React.Dispatch<React.SetStateAction<PrintConfig>>;
   onUploadCmyk: (file: File) => void;
+  // CMYK display conversion, null when the artwork is not a separated TIFF
+  cmykConversion: CmykConversion | null;
+  setCmykConversion: React.Dispatch<React.SetStateAction<CmykConversion>>;
+  separationChannels: { name: string; role: ChannelRole }[];
+  printSize: PrintSizeConfig;
+  setPrintSize: React.Dispatch<React.SetStateAction<PrintSizeConfig>>;
+  physicalSize: PhysicalSize | null;
+  proofProfiles: Record<ProofProfileSlot, ProofProfileInfo | null>;
+  onLoadProfile: (slot: ProofProfileSlot, file: File | null) => void;
+  softProof: SoftProofOptions;
+  setSoftProof: React.Dispatch<React.SetStateAction<SoftProofOptions>>;
+  proofStats: ProofStats | null;
+  proofError: string | null;
   onUploadWhite: (file: File) => void;
   onUploadVarnish: (file: File) => void;
+  onUploadEmboss: (file: File) => void;
+  emboss: EmbossConfig;
+  setEmboss: React.Dispatch<React.SetStateAction<EmbossConfig>>;
+  varnishLayers: VarnishLayer[];
+  setVarnishLayers: React.Dispatch<React.SetStateAction<VarnishLayer[]>>;
+  onAddVarnishLayer: (file: File) => void;
+  onAddFloodCoat: () => void;
+  onRemoveVarnishLayer: (id: string) => void;
+  spots: SpotColorLayer[];
+  setSpots: React.Dispatch<React.SetStateAction<SpotColorLayer[]>>;
+  onAddSpot: (file: File) => void;
+  onRemoveSpot: (id: string) => void;
+  foils: FoilLayer[];
+  setFoils: React.Dispatch<React.SetStateAction<FoilLayer[]>>;
+  onAddFoil: (file: File) => void;
+  onRemoveFoil: (id: string) => void;
   isProcessing: boolean;
   activeTab: TabView;
   setActiveTab: (tab: TabView) => void;
   onAnalyze: () => void;
+  onCancelAnalysis: () => void;
+  providerSettings: AnalysisProviderSettings;
+  setProviderSettings: React.Dispatch<React.SetStateAction<AnalysisProviderSettings>>;
+  analysisFailure: AnalysisFailure | null;
+  onPreflight: () => void;
+  preflightOptions: PreflightOptions;
+  setPreflightOptions: React.Dispatch<React.SetStateAction<PreflightOptions>>;
+  whiteGenOptions: WhiteGenOptions;
+  setWhiteGenOptions: React.Dispatch<React.SetStateAction<WhiteGenOptions>>;
+  isPickingSeeds: boolean;
+  setIsPickingSeeds: (isPicking: boolean) => void;
+  onGenerateWhite: () => void;
+  trap: TrapConfig;
+  setTrap: React.Dispatch<React.SetStateAction<TrapConfig>>;
+  whiteInk: WhiteInkConfig;
+  setWhiteInk: React.Dispatch<React.SetStateAction<WhiteInkConfig>>;
+  onDownloadWhiteMask: () => void;
+  registration: RegistrationConfig;
+  setRegistration: React.Dispatch<React.SetStateAction<RegistrationConfig>>;
+  customSubstrates: Substrate[];
+  onSaveSubstrate: (name: string) => void;
+  onDeleteSubstrate: (id: string) => void;
+  lighting: LightingConfig;
+  setLighting: React.Dispatch<React.SetStateAction<LightingConfig>>;
+  // Name of the uploaded .hdr / .exr, if any
+  customEnvironmentName: string | null;
+  onLoadEnvironment: (file: File) => void;
+  lightingError: string | null;
+  issueOverlay: IssueOverlayMode;
+  setIssueOverlay: (mode: IssueOverlayMode) => void;
+  issueSelection: IssueSelection | null;
+  onSelectIssue: (selection: IssueSelection) => void;
   isAnalyzing: boolean;
   analysisResult: AnalysisResult | null;
+  coverageReport: CoverageReport | null;
+  consumptionRows: ConsumptionRow[];
+  consumption: ConsumptionConfig;
+  setConsumption: React.Dispatch<React.SetStateAction<ConsumptionConfig>>;
+  isComputingCoverage: boolean;
+  onComputeCoverage: () => void;
+  onExportCoverage: (format: 'csv' | 'json') => void;
+  onShowHotSpots: () => void;
+  onExportFindings: () => void;
+  chatMessages: ChatMessage[];
+  isChatting: boolean;
+  onSendChat: (text: string) => void;
+  onCancelChat: () => void;
+  onClearChat: () => void;
+  chatPoint: { x: number; y: number } | null;
+  onClearChatPoint: () => void;
+  isPickingChatPoint: boolean;
+  setIsPickingChatPoint: (isPicking: boolean) => void;
+  analysisHistory: AnalysisRun[];
+  onOpenRun: (run: AnalysisRun) => void;
+  onDeleteRun: (id: string) => void;
+  onClearHistory: () => void;
   cmykFileName: string | null;
   whiteFileName: string | null;
   varnishFileName: string | null;
+  embossFileName: string | null;
   onExport: () => void;
   isExporting: boolean;
   isPaperPreview: boolean;
@@ -29,17 +124,99 @@ const Controls: React.FC<ControlsProps> = ({
   config,
   setConfig,
   onUploadCmyk,
+  cmykConversion,
+  setCmykConversion,
+  separationChannels,
+  printSize,
+  setPrintSize,
+  physicalSize,
+  proofProfiles,
+  onLoadProfile,
+  softProof,
+  setSoftProof,
+  proofStats,
+  proofError,
   onUploadWhite,
   onUploadVarnish,
+  onUploadEmboss,
+  emboss,
+  setEmboss,
+  varnishLayers,
+  setVarnishLayers,
+  onAddVarnishLayer,
+  onAddFloodCoat,
+  onRemoveVarnishLayer,
+  spots,
+  setSpots,
+  onAddSpot,
+  onRemoveSpot,
+  foils,
+  setFoils,
+  onAddFoil,
+  onRemoveFoil,
   isProcessing,
   activeTab,
   setActiveTab,
   onAnalyze,
+  onCancelAnalysis,
+  providerSettings,
+  setProviderSettings,
+  analysisFailure,
+  onPreflight,
+  preflightOptions,
+  setPreflightOptions,
+  whiteGenOptions,
+  setWhiteGenOptions,
+  isPickingSeeds,
+  setIsPickingSeeds,
+  onGenerateWhite,
+  trap,
+  setTrap,
+  whiteInk,
+  setWhiteInk,
+  onDownloadWhiteMask,
+  registration,
+  setRegistration,
+  customSubstrates,
+  onSaveSubstrate,
+  onDeleteSubstrate,
+  lighting,
+  setLighting,
+  customEnvironmentName,
+  onLoadEnvironment,
+  lightingError,
+  issueOverlay,
+  setIssueOverlay,
+  issueSelection,
+  onSelectIssue,
   isAnalyzing,
   analysisResult,
+  coverageReport,
+  consumptionRows,
+  consumption,
+  setConsumption,
+  isComputingCoverage,
+  onComputeCoverage,
+  onExportCoverage,
+  onShowHotSpots,
+  onExportFindings,
+  chatMessages,
+  isChatting,
+  onSendChat,
+  onCancelChat,
+  onClearChat,
+  chatPoint,
+  onClearChatPoint,
+  isPickingChatPoint,
+  setIsPickingChatPoint,
+  analysisHistory,
+  onOpenRun,
+  onDeleteRun,
+  onClearHistory,
   cmykFileName,
   whiteFileName,
   varnishFileName,
+  embossFileName,
   onExport,
   isExporting,
   isPaperPreview,
@@ -47,19 +224,248 @@ const Controls: React.FC<ControlsProps> = ({
   onReset
 }) => {
   const cmykInputRef = useRef<HTMLInputElement>(null);
+  const pressProfileInputRef = useRef<HTMLInputElement>(null);
+  const environmentInputRef = useRef<HTMLInputElement>(null);
+  const outputProfileInputRef = useRef<HTMLInputElement>(null);
   const whiteInputRef = useRef<HTMLInputElement>(null);
   const varnishInputRef = useRef<HTMLInputElement>(null);
+  const embossInputRef = useRef<HTMLInputElement>(null);
+  const foilInputRef = useRef<HTMLInputElement>(null);
+  const spotInputRef = useRef<HTMLInputElement>(null);
+  const varnishLayerInputRef = useRef<HTMLInputElement>(null);
+  const [registrationLayer, setRegistrationLayer] = useState<RegistrationLayer>('white');
+  const [substrateName, setSubstrateName] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<FindingCategory | 'all'>('all');
+  const [severityFilter, setSeverityFilter] = useState<IssueSeverity | 'all'>('all');
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, type: 'cmyk' | 'white' | 'varnish') => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, type: 'cmyk' | 'white' | 'varnish' | 'emboss') => {
     if (e.target.files && e.target.files[0]) {
       if (type === 'cmyk') onUploadCmyk(e.target.files[0]);
       else if (type === 'white') onUploadWhite(e.target.files[0]);
+      else if (type === 'emboss') onUploadEmboss(e.target.files[0]);
       else onUploadVarnish(e.target.files[0]);
     }
   };
 
+  // Press limits editable in the ANALYSIS tab
+  const preflightFields: { key: keyof PreflightOptions; label: string; step: number }[] = [
+    { key: 'minKnockoutWidthMm', label: 'Мин. выворотка, мм', step: 0.05 },
+    { key: 'minLineWidthMm', label: 'Мин. линия по металлу, мм', step: 0.05 },
+    { key: 'minVarnishWidthMm', label: 'Мин. элемент лака, мм', step: 0.05 },
+    { key: 'minWhiteSpeckAreaMm2', label: 'Мин. точка белил, мм²', step: 0.01 }
+  ];
+
+  const failureLabels: Record<AnalysisErrorKind, string> = {
+    config: 'Ошибка настройки',
+    network: 'Нет связи',
+    timeout: 'Превышено время ожидания',
+    http: 'Ошибка сервера',
+    rateLimit: 'Превышен лимит запросов',
+    invalidResponse: 'Некорректный ответ модели',
+    cancelled: 'Анализ отменён'
+  };
+
+  // Ink lay-down rates at 100 % coverage
+  const rateFields: { key: keyof InkRates; label: string }[] = [
+    { key: 'process', label: 'CMYK (на канал), г/м²' },
+    { key: 'white', label: 'Белила (за проход), г/м²' },
+    { key: 'varnish', label: 'Лак, г/м²' },
+    { key: 'spot', label: 'Смесевые, г/м²' }
+  ];
+
+  const cmykSourceLabels: Record<NonNullable<CoverageReport['cmykSource']>, string> = {
+    separation: 'из файла сепарации',
+    profile: 'по профилю печати',
+    estimate: 'оценка по RGB'
+  };
+
+  const formatGrams = (grams: number | null) =>
+    grams === null ? '—' : grams >= 1000 ? `${(grams / 1000).toFixed(2)} кг` : `${grams.toFixed(grams < 10 ? 2 : 1)} г`;
+
+  const severityIcon = (severity: IssueSeverity) => {
+    if (severity === 'error') return <XCircle size={16} className="text-red-500 mt-0.5 shrink-0" />;
+    if (severity === 'warning') return <AlertTriangle size={16} className="text-yellow-500 mt-0.5 shrink-0" />;
+    return <Info size={16} className="text-blue-400 mt-0.5 shrink-0" />;
+  };
+
+  const printSizeModes: { mode: PrintSizeMode; label: string }[] = [
+    { mode: 'auto', label: 'По разрешению файла' },
+    { mode: 'manual', label: 'Вручную' }
+  ];
+
+  const whiteGenModes: { mode: WhiteGenMode; label: string }[] = [
+    { mode: 'keyColor', label: 'Ключевой цвет' },
+    { mode: 'luminance', label: 'Яркость' },
+    { mode: 'saturation', label: 'Насыщенность' },
+    { mode: 'selection', label: 'Выделение' }
+  ];
+
+  const trapModes: { mode: TrapMode; label: string }[] = [
+    { mode: 'none', label: 'Нет' },
+    { mode: 'choke', label: 'Сжатие' },
+    { mode: 'spread', label: 'Расширение' }
+  ];
+
+  const updatePassOpacity = (pass: 0 | 1, value: number) => {
+    const passOpacity: [number, number] = [...whiteInk.passOpacity];
+    passOpacity[pass] = value;
+    setWhiteInk({ ...whiteInk, passOpacity });
+  };
+
+  const updateSpot = (id: string, changes: Partial<SpotColorLayer>) => {
+    setSpots(list => list.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  // Switching the colour mode carries the current colour over
+  const setSpotColorMode = (spot: SpotColorLayer, colorMode: SpotColorLayer['colorMode']) => {
+    if (colorMode === 'lab') {
+      updateSpot(spot.id, { colorMode, lab: srgbToLab(hexToRgb(spot.color)).map(v => Math.round(v)) as SpotColorLayer['lab'] });
+    } else {
+      updateSpot(spot.id, { colorMode, color: rgbToHex(labToSrgb(spot.lab)) });
+    }
+  };
+
+  // Press order: the list is printed top to bottom
+  const moveSpot = (index: number, delta: number) => {
+    setSpots(list => {
+      const next = [...list];
+      const [spot] = next.splice(index, 1);
+      next.splice(index + delta, 0, spot);
+      return next;
+    });
+  };
+
+  const updateFoil = (id: string, changes: Partial<FoilLayer>) => {
+    setFoils(list => list.map(f => f.id === id ? { ...f, ...changes } : f));
+  };
+
+  const applyFoilPreset = (id: string, presetId: string) => {
+    const preset = FOIL_PRESETS.find(p => p.id === presetId);
+    if (preset) updateFoil(id, { color: preset.color, roughness: preset.roughness, holographic: preset.holographic });
+  };
+
+  const embossPolarities: { polarity: EmbossConfig['polarity']; label: string }[] = [
+    { polarity: 'emboss', label: 'Выпуклое' },
+    { polarity: 'deboss', label: 'Вдавленное' }
+  ];
+
+  const cmykConversionModes: { mode: CmykConversionMode; label: string }[] = [
+    { mode: 'press', label: 'Модель печати (мелованная)' },
+    { mode: 'naive', label: 'Простая формула' }
+  ];
+
+  const channelRoleLabels: Record<ChannelRole, string> = {
+    white: 'Белила',
+    varnish: 'Лак',
+    spot: 'Смесевая краска',
+    ignore: 'Не используется'
+  };
+
+  const embossModes: { mode: EmbossConfig['mode']; label: string }[] = [
+    { mode: 'blind', label: 'Блинтовое' },
+    { mode: 'registered', label: 'В приводку' }
+  ];
+
+  const embossFields: { key: 'depthMm' | 'bevelMm'; label: string; min: number; max: number; step: number }[] = [
+    { key: 'depthMm', label: 'Глубина', min: 0.05, max: 1, step: 0.05 },
+    { key: 'bevelMm', label: 'Скругление края', min: 0, max: 1, step: 0.05 }
+  ];
+
+  const registrationLayers: { layer: RegistrationLayer; label: string }[] = [
+    { layer: 'cmyk', label: 'CMYK' },
+    { layer: 'white', label: 'Белила' },
+    { layer: 'varnish', label: 'Лак' }
+  ];
+
+  const registrationFields: { key: keyof LayerRegistration; label: string; unit: string; min: number; max: number; step: number }[] = [
+    { key: 'offsetXUm', label: 'Смещение X', unit: 'мкм', min: -500, max: 500, step: 10 },
+    { key: 'offsetYUm', label: 'Смещение Y', unit: 'мкм', min: -500, max: 500, step: 10 },
+    { key: 'rotationDeg', label: 'Поворот', unit: '°', min: -0.5, max: 0.5, step: 0.01 },
+    { key: 'scalePct', label: 'Растяжение', unit: '%', min: -0.5, max: 0.5, step: 0.01 }
+  ];
+
+  const updateRegistration = (key: keyof LayerRegistration, value: number) => {
+    setRegistration({
+      ...registration,
+      layers: {
+        ...registration.layers,
+        [registrationLayer]: { ...registration.layers[registrationLayer], [key]: value }
+      }
+    });
+  };
+
+  const substrates = [...SUBSTRATES, ...customSubstrates];
+
+  // Picking a stock also sets its base roughness
+  const selectSubstrate = (id: string) => {
+    const substrate = substrates.find(s => s.id === id);
+    if (substrate) setConfig({ ...config, substrate, metalRoughness: substrate.baseRoughness });
+  };
+
+  const updateSubstrate = (changes: Partial<Substrate>) => {
+    setConfig({ ...config, substrate: { ...config.substrate, ...changes } });
+  };
+
+  const substrateFields: { key: 'reflectivity' | 'anisotropy' | 'brushDirectionDeg' | 'iridescence' | 'microStrength' | 'microScale'; label: string; min: number; max: number; step: number }[] = [
+    { key: 'reflectivity', label: 'Отражающая способность', min: 0.5, max: 1.2, step: 0.05 },
+    { key: 'anisotropy', label: 'Анизотропия (шлифовка)', min: 0, max: 1, step: 0.05 },
+    { key: 'brushDirectionDeg', label: 'Направление шлифовки / решётки, °', min: 0, max: 180, step: 5 },
+    { key: 'iridescence', label: 'Радужность', min: 0, max: 1, step: 0.05 },
+    { key: 'microStrength', label: 'Сила микрорельефа', min: 0, max: 0.5, step: 0.01 },
+    { key: 'microScale', label: 'Масштаб микрорельефа', min: 1, max: 60, step: 1 }
+  ];
+
+  const microTextures: { kind: MicroTextureKind; label: string }[] = [
+    { kind: 'none', label: 'Нет' },
+    { kind: 'grain', label: 'Зерно' },
+    { kind: 'brushed', label: 'Шлифовка' },
+    { kind: 'paper', label: 'Бумажное волокно' }
+  ];
+
+  const hologramPatterns: { pattern: HologramPattern; label: string }[] = [
+    { pattern: 'none', label: 'Нет' },
+    { pattern: 'linear', label: 'Линейная' },
+    { pattern: 'radial', label: 'Радиальная' },
+    { pattern: 'pillar', label: 'Колонны' }
+  ];
+
+  const categoryLabels: Record<FindingCategory, string> = {
+    knockout: 'Выворотка',
+    trapping: 'Треппинг',
+    contrast: 'Контраст',
+    registration: 'Совмещение',
+    varnish: 'Лак'
+  };
+
+  const severityLabels: Record<IssueSeverity, string> = {
+    error: 'Ошибки',
+    warning: 'Предупреждения',
+    info: 'Замечания'
+  };
+
+  // Issues grouped by category (uncategorized last), with their indices in the result
+  const issueGroups = (() => {
+    const issues = (analysisResult?.issues || [])
+      .map((issue, idx) => ({ issue, idx }))
+      .filter(({ issue }) =>
+        (categoryFilter === 'all' || issue.category === categoryFilter) &&
+        (severityFilter === 'all' || issue.severity === severityFilter));
+    const groups: { category: FindingCategory | null; items: { issue: AnalysisIssue; idx: number }[] }[] = [];
+    [...FINDING_CATEGORIES, null].forEach(category => {
+      const items = issues.filter(({ issue }) => (issue.category || null) === category);
+      if (items.length) groups.push({ category, items });
+    });
+    return groups;
+  })();
+
+  const overlayModes: { mode: IssueOverlayMode; label: string }[] = [
+    { mode: 'markers', label: 'Маркеры' },
+    { mode: 'heatmap', label: 'Тепловая карта' },
+    { mode: 'off', label: 'Скрыть' }
+  ];
+
   const hasWhiteInk = !!whiteFileName;
-  const hasVarnish = !!varnishFileName;
+  const hasVarnish = varnishLayers.length > 0;
 
   return (
     <div className="h-full flex flex-col bg-gray-850 border-l border-gray-750 w-full max-w-sm">
@@ -105,17 +511,123 @@ const Controls: React.FC<ControlsProps> = ({
               >
                 <Upload className="text-gray-500 group-hover:text-indigo-400 mb-2" />
                 <span className="text-sm text-gray-300 font-medium">{cmykFileName || "Загрузить макет"}</span>
-                <span className="text-xs text-gray-500 mt-1">PNG/JPG</span>
+                <span className="text-xs text-gray-500 mt-1">PNG/JPG, CMYK/многоканальный TIFF, PSD со слоями</span>
                 <input 
                   type="file" 
                   ref={cmykInputRef} 
                   onChange={(e) => handleFileChange(e, 'cmyk')} 
                   className="hidden" 
-                  accept="image/*"
+                  accept="image/*,.tif,.tiff,.psd,.psb"
                 />
               </div>
+
+              {cmykConversion && (
+                <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-sm text-gray-300">CMYK → RGB</label>
+                    <select
+                      value={cmykConversion.mode}
+                      onChange={(e) => setCmykConversion({ ...cmykConversion, mode: e.target.value as CmykConversionMode })}
+                      className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200"
+                    >
+                      {cmykConversionModes.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-300">Растискивание (50%)</label>
+                      <span className="text-xs font-mono text-gray-500">{cmykConversion.dotGain}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="30"
+                      step="1"
+                      value={cmykConversion.dotGain}
+                      onChange={(e) => setCmykConversion({ ...cmykConversion, dotGain: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                  </div>
+                  {separationChannels.length > 0 && (
+                    <div className="space-y-1">
+                      <span className="text-xs text-gray-500">Дополнительные каналы:</span>
+                      {separationChannels.map((channel, i) => (
+                        <div key={i} className="flex justify-between text-xs">
+                          <span className="text-gray-300 truncate">{channel.name}</span>
+                          <span className={channel.role === 'ignore' ? 'text-gray-600' : 'text-indigo-300'}>{channelRoleLabels[channel.role]}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
+            {physicalSize && (
+              <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-3">
+                <div className="text-xs font-semibold uppercase tracking-wider text-gray-500 flex items-center gap-2">
+                  <Ruler size={14} /> Размер и поля
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <label className="text-sm text-gray-300">Размер</label>
+                  <select
+                    value={printSize.mode}
+                    onChange={(e) => setPrintSize({
+                      ...printSize,
+                      mode: e.target.value as PrintSizeMode,
+                      // Manual size starts from the current one
+                      widthMm: Math.round(physicalSize.widthMm * 10) / 10
+                    })}
+                    className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200"
+                  >
+                    {printSizeModes.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+                  </select>
+                </div>
+                {printSize.mode === 'manual' && (
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-sm text-gray-300">Ширина с вылетами, мм</label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="0.1"
+                      value={printSize.widthMm}
+                      onChange={(e) => setPrintSize({ ...printSize, widthMm: parseFloat(e.target.value) || 0 })}
+                      className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 text-right"
+                    />
+                  </div>
+                )}
+                <div className="text-xs text-gray-500">
+                  {physicalSize.widthMm.toFixed(1)} × {physicalSize.heightMm.toFixed(1)} мм, {Math.round(physicalSize.dpi)} dpi
+                  {physicalSize.source === 'default' && ' (в файле нет разрешения)'}
+                </div>
+                {([
+                  { key: 'bleedMm', label: 'Вылеты, мм' },
+                  { key: 'safeMm', label: 'Безопасное поле, мм' }
+                ] as const).map(({ key, label }) => (
+                  <div key={key} className="flex items-center justify-between gap-2">
+                    <label className="text-sm text-gray-300">{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={printSize[key]}
+                      onChange={(e) => setPrintSize({ ...printSize, [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 text-right"
+                    />
+                  </div>
+                ))}
+                <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={printSize.showGuides}
+                    onChange={(e) => setPrintSize({ ...printSize, showGuides: e.target.checked })}
+                    className="accent-indigo-500"
+                  />
+                  Показывать линии вылета, обреза и безопасного поля
+                </label>
+              </div>
+            )}
+
             <div className="space-y-2">
               <label className="text-xs font-semibold uppercase tracking-wider text-gray-500">Маска Белил</label>
               <div 
@@ -137,6 +649,387 @@ const Controls: React.FC<ControlsProps> = ({
               </div>
             </div>
 
+            {cmykFileName && (
+              <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-3">
+                <div className="text-xs font-semibold uppercase tracking-wider text-gray-500 flex items-center gap-2">
+                  <Wand2 size={14} /> Маска белил из CMYK
+                </div>
+
+                <select
+                  value={whiteGenOptions.mode}
+                  onChange={(e) => setWhiteGenOptions({ ...whiteGenOptions, mode: e.target.value as WhiteGenMode })}
+                  className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200"
+                >
+                  {whiteGenModes.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+                </select>
+
+                {whiteGenOptions.mode === 'keyColor' && (
+                  <div className="flex gap-2 items-center">
+                    <input
+                      type="color"
+                      value={whiteGenOptions.keyColor}
+                      onChange={(e) => setWhiteGenOptions({ ...whiteGenOptions, keyColor: e.target.value })}
+                      className="h-8 w-12 p-1 bg-gray-900 border border-gray-700 rounded cursor-pointer"
+                    />
+                    <span className="text-xs text-gray-500">Цвет = открытый металл</span>
+                  </div>
+                )}
+
+                {(whiteGenOptions.mode === 'luminance' || whiteGenOptions.mode === 'saturation') && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <label className="text-xs text-gray-400">Металл ниже порога</label>
+                      <span className="text-xs font-mono text-gray-500">{whiteGenOptions.threshold}%</span>
+                    </div>
+                    <input
+                      type="range" min="0" max="100" step="1"
+                      value={whiteGenOptions.threshold}
+                      onChange={(e) => setWhiteGenOptions({ ...whiteGenOptions, threshold: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                  </div>
+                )}
+
+                {whiteGenOptions.mode === 'selection' && (
+                  <div className="flex gap-2 items-center">
+                    <button
+                      onClick={() => setIsPickingSeeds(!isPickingSeeds)}
+                      className={`flex-1 py-1.5 px-2 rounded text-xs font-medium flex items-center justify-center gap-1 border transition ${isPickingSeeds ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-300 hover:bg-gray-700'}`}
+                    >
+                      <Crosshair size={12} /> {isPickingSeeds ? 'Кликните по листу' : 'Указать точки'}
+                    </button>
+                    <span className="text-xs font-mono text-gray-500">{whiteGenOptions.seeds.length}</span>
+                    <button
+                      onClick={() => setWhiteGenOptions({ ...whiteGenOptions, seeds: [] })}
+                      className="text-xs text-gray-400 hover:text-white"
+                    >
+                      Сброс
+                    </button>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-xs text-gray-400">Допуск</label>
+                    <span className="text-xs font-mono text-gray-500">{whiteGenOptions.tolerance}%</span>
+                  </div>
+                  <input
+                    type="range" min="0" max="100" step="1"
+                    value={whiteGenOptions.tolerance}
+                    onChange={(e) => setWhiteGenOptions({ ...whiteGenOptions, tolerance: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-xs text-gray-400">Сглаживание краёв</label>
+                    <span className="text-xs font-mono text-gray-500">{whiteGenOptions.smoothing} px</span>
+                  </div>
+                  <input
+                    type="range" min="0" max="10" step="1"
+                    value={whiteGenOptions.smoothing}
+                    onChange={(e) => setWhiteGenOptions({ ...whiteGenOptions, smoothing: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                </div>
+
+                <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={whiteGenOptions.invert}
+                    onChange={(e) => setWhiteGenOptions({ ...whiteGenOptions, invert: e.target.checked })}
+                    className="accent-indigo-500"
+                  />
+                  Инвертировать (металл вне выбора)
+                </label>
+
+                <button
+                  onClick={onGenerateWhite}
+                  disabled={isProcessing || (whiteGenOptions.mode === 'selection' && whiteGenOptions.seeds.length === 0)}
+                  className="w-full py-2 px-3 rounded bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white text-xs font-medium flex items-center justify-center gap-2 transition"
+                >
+                  <Wand2 size={14} /> Сгенерировать маску белил
+                </button>
+              </div>
+            )}
+
+            {hasWhiteInk && (
+              <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-3">
+                <div className="text-xs font-semibold uppercase tracking-wider text-gray-500 flex items-center gap-2">
+                  <Scissors size={14} /> Треппинг белил
+                </div>
+
+                <div className="bg-gray-900 p-1 rounded-lg flex border border-gray-700">
+                  {trapModes.map(({ mode, label }) => (
+                    <button
+                      key={mode}
+                      onClick={() => setTrap({ ...trap, mode })}
+                      className={`flex-1 py-1.5 text-xs font-medium rounded transition ${trap.mode === mode ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {trap.mode !== 'none' && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-300">Величина</label>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs font-mono text-gray-500">{trap.amount} {trap.unit === 'mm' ? 'мм' : 'px'}</span>
+                        <button
+                          onClick={() => setTrap({ ...trap, unit: trap.unit === 'mm' ? 'px' : 'mm', amount: trap.unit === 'mm' ? 2 : 0.1 })}
+                          className="text-[10px] px-1.5 py-0.5 rounded border border-gray-600 text-gray-400 hover:text-white"
+                        >
+                          {trap.unit === 'mm' ? 'мм → px' : 'px → мм'}
+                        </button>
+                      </div>
+                    </div>
+                    <input
+                      type="range"
+                      min={trap.unit === 'mm' ? 0.01 : 1}
+                      max={trap.unit === 'mm' ? 1 : 30}
+                      step={trap.unit === 'mm' ? 0.01 : 1}
+                      value={trap.amount}
+                      onChange={(e) => setTrap({ ...trap, amount: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+
+                    <div className="bg-gray-900 p-1 rounded-lg flex border border-gray-700">
+                      <button
+                        onClick={() => setTrap({ ...trap, showOriginal: true })}
+                        className={`flex-1 py-1.5 text-xs font-medium rounded transition ${trap.showOriginal ? 'bg-gray-200 text-black' : 'text-gray-400 hover:text-white'}`}
+                      >
+                        До
+                      </button>
+                      <button
+                        onClick={() => setTrap({ ...trap, showOriginal: false })}
+                        className={`flex-1 py-1.5 text-xs font-medium rounded transition ${!trap.showOriginal ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                      >
+                        После
+                      </button>
+                    </div>
+                  </>
+                )}
+
+                <button
+                  onClick={onDownloadWhiteMask}
+                  className="w-full py-2 px-3 rounded bg-gray-900 border border-gray-700 hover:bg-gray-700 text-gray-300 text-xs font-medium flex items-center justify-center gap-2 transition"
+                >
+                  <Download size={14} /> Скачать маску белил (PNG)
+                </button>
+              </div>
+            )}
+
+            {hasWhiteInk && (
+              <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-3">
+                <div className="text-xs font-semibold uppercase tracking-wider text-gray-500 flex items-center gap-2">
+                  <Layers2 size={14} /> Укрывистость белил
+                </div>
+
+                <div className="bg-gray-900 p-1 rounded-lg flex border border-gray-700">
+                  {([1, 2] as const).map(passes => (
+                    <button
+                      key={passes}
+                      onClick={() => setWhiteInk({ ...whiteInk, passes })}
+                      className={`flex-1 py-1.5 text-xs font-medium rounded transition ${whiteInk.passes === passes ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                      {passes === 1 ? 'Один прогон' : 'Двойной прогон'}
+                    </button>
+                  ))}
+                </div>
+
+                {([0, 1] as const).slice(0, whiteInk.passes).map(pass => (
+                  <div key={pass} className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-300">Укрывистость прогона {pass + 1}</label>
+                      <span className="text-xs font-mono text-gray-500">{Math.round(whiteInk.passOpacity[pass] * 100)}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0.3"
+                      max="1"
+                      step="0.01"
+                      value={whiteInk.passOpacity[pass]}
+                      onChange={(e) => updatePassOpacity(pass, parseFloat(e.target.value))}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                  </div>
+                ))}
+
+                <div className="text-[10px] text-gray-500">
+                  Итоговая укрывистость: {Math.round(whitePassOpacity(whiteInk.passOpacity.slice(0, whiteInk.passes)) * 100)}%
+                </div>
+
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-300">Полутона белил</label>
+                  <select
+                    value={whiteInk.screening}
+                    onChange={(e) => setWhiteInk({ ...whiteInk, screening: e.target.value as WhiteInkConfig['screening'] })}
+                    className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200"
+                  >
+                    <option value="contone">Плавный переход</option>
+                    <option value="halftone">Растр</option>
+                  </select>
+                </div>
+
+                {whiteInk.screening === 'halftone' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="text-xs text-gray-400 space-y-1">
+                      <span>Линиатура, lpi</span>
+                      <input
+                        type="number"
+                        min="20"
+                        max="300"
+                        value={whiteInk.screenLpi}
+                        onChange={(e) => setWhiteInk({ ...whiteInk, screenLpi: Math.max(20, parseFloat(e.target.value) || 150) })}
+                        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200"
+                      />
+                    </label>
+                    <label className="text-xs text-gray-400 space-y-1">
+                      <span>Угол, °</span>
+                      <input
+                        type="number"
+                        min="0"
+                        max="90"
+                        value={whiteInk.screenAngleDeg}
+                        onChange={(e) => setWhiteInk({ ...whiteInk, screenAngleDeg: parseFloat(e.target.value) || 0 })}
+                        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200"
+                      />
+                    </label>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-gray-500">Смесевые краски (Pantone)</label>
+              <div
+                onClick={() => spotInputRef.current?.click()}
+                className="border-2 border-dashed border-gray-700 hover:border-indigo-500 hover:bg-gray-800 rounded-lg p-4 flex flex-col items-center cursor-pointer transition group"
+              >
+                <Palette className="text-gray-500 group-hover:text-indigo-400 mb-2" />
+                <span className="text-sm text-gray-300 font-medium">Добавить смесевую краску</span>
+                <span className="text-xs text-gray-500 mt-1">Необязательно. Черный = Краска</span>
+                <input
+                  type="file"
+                  ref={spotInputRef}
+                  onChange={(e) => {
+                    if (e.target.files && e.target.files[0]) onAddSpot(e.target.files[0]);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                  accept="image/*"
+                />
+              </div>
+
+              {spots.length > 1 && (
+                <p className="text-xs text-gray-500">Порядок списка = порядок печати (сверху вниз).</p>
+              )}
+
+              {spots.map((spot, index) => (
+                <div key={spot.id} className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="w-4 h-4 rounded-sm border border-gray-600 shrink-0" style={{ backgroundColor: rgbToHex(spotColorRgb(spot)) }} />
+                      <span className="text-xs text-gray-300 truncate">{spot.name}</span>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={() => moveSpot(index, -1)}
+                        disabled={index === 0}
+                        title="Печатать раньше"
+                        className="text-gray-500 hover:text-white disabled:opacity-30 transition"
+                      >
+                        <ChevronUp size={14} />
+                      </button>
+                      <button
+                        onClick={() => moveSpot(index, 1)}
+                        disabled={index === spots.length - 1}
+                        title="Печатать позже"
+                        className="text-gray-500 hover:text-white disabled:opacity-30 transition"
+                      >
+                        <ChevronDown size={14} />
+                      </button>
+                      <button
+                        onClick={() => onRemoveSpot(spot.id)}
+                        title="Удалить смесевую краску"
+                        className="text-gray-500 hover:text-red-300 transition"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="bg-gray-900 p-1 rounded-lg flex border border-gray-700">
+                    {(['white', 'metal'] as const).map(base => (
+                      <button
+                        key={base}
+                        onClick={() => updateSpot(spot.id, { base })}
+                        className={`flex-1 py-1.5 text-xs font-medium rounded transition ${spot.base === base ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                      >
+                        {base === 'white' ? 'По белилам' : 'По металлу'}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={spot.colorMode}
+                      onChange={(e) => setSpotColorMode(spot, e.target.value as SpotColorLayer['colorMode'])}
+                      className="bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200"
+                    >
+                      <option value="srgb">sRGB</option>
+                      <option value="lab">Lab (D50)</option>
+                    </select>
+                    {spot.colorMode === 'srgb' ? (
+                      <input
+                        type="color"
+                        value={spot.color}
+                        onChange={(e) => updateSpot(spot.id, { color: e.target.value })}
+                        className="w-10 h-7 bg-transparent border border-gray-700 rounded cursor-pointer"
+                      />
+                    ) : (
+                      (['L', 'a', 'b'] as const).map((channel, k) => (
+                        <input
+                          key={channel}
+                          type="number"
+                          title={channel}
+                          min={k === 0 ? 0 : -128}
+                          max={k === 0 ? 100 : 127}
+                          step={1}
+                          value={spot.lab[k]}
+                          onChange={(e) => {
+                            const lab = [...spot.lab] as SpotColorLayer['lab'];
+                            lab[k] = parseFloat(e.target.value) || 0;
+                            updateSpot(spot.id, { lab });
+                          }}
+                          className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 font-mono"
+                        />
+                      ))
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-300">Кроющая способность</label>
+                      <span className="text-xs font-mono text-gray-500">{Math.round(spot.opacity * 100)}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={spot.opacity}
+                      onChange={(e) => updateSpot(spot.id, { opacity: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
             <div className="space-y-2">
               <label className="text-xs font-semibold uppercase tracking-wider text-gray-500">Выборочный лак (Varnish)</label>
               <div 
@@ -154,6 +1047,233 @@ const Controls: React.FC<ControlsProps> = ({
                   accept="image/*"
                 />
               </div>
+
+              {varnishLayers.map(layer => (
+                <div key={layer.id} className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-300 truncate">{layer.name}</span>
+                    <button
+                      onClick={() => onRemoveVarnishLayer(layer.id)}
+                      title="Удалить слой лака"
+                      className="text-gray-500 hover:text-red-300 transition"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                  <select
+                    value={layer.type}
+                    onChange={(e) => setVarnishLayers(list => list.map(v => v.id === layer.id ? { ...v, type: e.target.value as VarnishType } : v))}
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200"
+                  >
+                    {(Object.keys(VARNISH_TYPES) as VarnishType[])
+                      .filter(type => type !== 'flood' || layer.type === 'flood')
+                      .map(type => (
+                        <option key={type} value={type}>{VARNISH_TYPES[type].label}</option>
+                      ))}
+                  </select>
+                </div>
+              ))}
+
+              {hasVarnish && (
+                <p className="text-xs text-gray-500">Слои наносятся сверху вниз по списку. Оттенки серого в маске задают плотность и толщину лака.</p>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => varnishLayerInputRef.current?.click()}
+                  className="flex-1 py-1.5 text-xs font-medium rounded bg-gray-800 border border-gray-700 text-gray-300 hover:text-white hover:border-indigo-500 transition"
+                >
+                  + Слой лака
+                </button>
+                <button
+                  onClick={onAddFloodCoat}
+                  className="flex-1 py-1.5 text-xs font-medium rounded bg-gray-800 border border-gray-700 text-gray-300 hover:text-white hover:border-indigo-500 transition"
+                >
+                  + Сплошной лак
+                </button>
+                <input
+                  type="file"
+                  ref={varnishLayerInputRef}
+                  onChange={(e) => {
+                    if (e.target.files && e.target.files[0]) onAddVarnishLayer(e.target.files[0]);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                  accept="image/*"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-gray-500">Тиснение (Emboss / Deboss)</label>
+              <div
+                onClick={() => embossInputRef.current?.click()}
+                className="border-2 border-dashed border-gray-700 hover:border-indigo-500 hover:bg-gray-800 rounded-lg p-6 flex flex-col items-center cursor-pointer transition group"
+              >
+                <Mountain className="text-gray-500 group-hover:text-indigo-400 mb-2" />
+                <span className="text-sm text-gray-300 font-medium">{embossFileName || "Загрузить штамп"}</span>
+                <span className="text-xs text-gray-500 mt-1">Необязательно. Черный = Полная высота</span>
+                <input
+                  type="file"
+                  ref={embossInputRef}
+                  onChange={(e) => handleFileChange(e, 'emboss')}
+                  className="hidden"
+                  accept="image/*"
+                />
+              </div>
+            </div>
+
+            {embossFileName && (
+              <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-3">
+                <div className="bg-gray-900 p-1 rounded-lg flex border border-gray-700">
+                  {embossPolarities.map(({ polarity, label }) => (
+                    <button
+                      key={polarity}
+                      onClick={() => setEmboss({ ...emboss, polarity })}
+                      className={`flex-1 py-1.5 text-xs font-medium rounded transition ${emboss.polarity === polarity ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="bg-gray-900 p-1 rounded-lg flex border border-gray-700">
+                  {embossModes.map(({ mode, label }) => (
+                    <button
+                      key={mode}
+                      onClick={() => setEmboss({ ...emboss, mode })}
+                      className={`flex-1 py-1.5 text-xs font-medium rounded transition ${emboss.mode === mode ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {embossFields.map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-300">{field.label}</label>
+                      <span className="text-xs font-mono text-gray-500">{emboss[field.key]} мм</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={field.min}
+                      max={field.max}
+                      step={field.step}
+                      value={emboss[field.key]}
+                      onChange={(e) => setEmboss({ ...emboss, [field.key]: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                  </div>
+                ))}
+
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={emboss.displacement}
+                    onChange={(e) => setEmboss({ ...emboss, displacement: e.target.checked })}
+                    className="accent-indigo-500"
+                  />
+                  Смещать геометрию (displacement)
+                </label>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-gray-500">Фольга (горячая / холодная)</label>
+              <div
+                onClick={() => foilInputRef.current?.click()}
+                className="border-2 border-dashed border-gray-700 hover:border-indigo-500 hover:bg-gray-800 rounded-lg p-4 flex flex-col items-center cursor-pointer transition group"
+              >
+                <Stamp className="text-gray-500 group-hover:text-indigo-400 mb-2" />
+                <span className="text-sm text-gray-300 font-medium">Добавить слой фольги</span>
+                <span className="text-xs text-gray-500 mt-1">Необязательно. Черный = Фольга</span>
+                <input
+                  type="file"
+                  ref={foilInputRef}
+                  onChange={(e) => {
+                    if (e.target.files && e.target.files[0]) onAddFoil(e.target.files[0]);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                  accept="image/*"
+                />
+              </div>
+
+              {foils.map(foil => (
+                <div key={foil.id} className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-300 truncate">{foil.name}</span>
+                    <button
+                      onClick={() => onRemoveFoil(foil.id)}
+                      title="Удалить слой фольги"
+                      className="text-gray-500 hover:text-red-300 transition"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+
+                  <div className="bg-gray-900 p-1 rounded-lg flex border border-gray-700">
+                    {(['hot', 'cold'] as const).map(type => (
+                      <button
+                        key={type}
+                        onClick={() => updateFoil(foil.id, { type })}
+                        className={`flex-1 py-1.5 text-xs font-medium rounded transition ${foil.type === type ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                      >
+                        {type === 'hot' ? 'Горячая' : 'Холодная'}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="text-[10px] text-gray-500">
+                    {foil.type === 'hot' ? 'Тиснение после печати и лака, перекрывает краски' : 'Наносится перед CMYK, краски тонируют фольгу'}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={FOIL_PRESETS.find(p => p.color === foil.color && p.holographic === foil.holographic)?.id || ''}
+                      onChange={(e) => applyFoilPreset(foil.id, e.target.value)}
+                      className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200"
+                    >
+                      <option value="" disabled>Свой цвет</option>
+                      {FOIL_PRESETS.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="color"
+                      value={foil.color}
+                      onChange={(e) => updateFoil(foil.id, { color: e.target.value })}
+                      className="h-7 w-10 p-0.5 bg-gray-900 border border-gray-700 rounded cursor-pointer"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <label className="text-xs text-gray-400">Шероховатость</label>
+                      <span className="text-xs font-mono text-gray-500">{foil.roughness.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      value={foil.roughness}
+                      onChange={(e) => updateFoil(foil.id, { roughness: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                  </div>
+
+                  <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={foil.holographic}
+                      onChange={(e) => updateFoil(foil.id, { holographic: e.target.checked })}
+                      className="accent-indigo-500"
+                    />
+                    Голографический эффект
+                  </label>
+                </div>
+              ))}
             </div>
 
             {isProcessing && (
@@ -225,6 +1345,382 @@ const Controls: React.FC<ControlsProps> = ({
               />
             </div>
 
+            <hr className="border-gray-750" />
+            <div className="text-xs font-semibold uppercase tracking-wider text-gray-500 flex items-center gap-2">
+              <Sun size={14} /> Освещение
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <select
+                  value={lighting.preset}
+                  onChange={(e) => {
+                    const preset = e.target.value as LightingPresetId;
+                    const ambient = LIGHTING_PRESETS.find(p => p.id === preset)?.ambient ?? lighting.ambient;
+                    setLighting({ ...lighting, preset, ambient });
+                  }}
+                  className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200"
+                >
+                  {LIGHTING_PRESETS.map(p => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                  ))}
+                  {customEnvironmentName && <option value="custom">Файл: {customEnvironmentName}</option>}
+                </select>
+                <button
+                  onClick={() => environmentInputRef.current?.click()}
+                  className="shrink-0 px-2 rounded bg-gray-900 border border-gray-700 hover:bg-gray-700 text-gray-300 transition"
+                  title="Загрузить HDRI (.hdr, .exr)"
+                >
+                  <Upload size={14} />
+                </button>
+                <input
+                  type="file"
+                  ref={environmentInputRef}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onLoadEnvironment(file);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                  accept=".hdr,.exr"
+                />
+              </div>
+              {lightingError && <p className="text-[10px] text-red-400">{lightingError}</p>}
+
+              {([
+                { key: 'rotationDeg', label: 'Поворот окружения', min: -180, max: 180, step: 5, format: (v: number) => `${v}°` },
+                { key: 'ambient', label: 'Рассеянный свет', min: 0, max: 2, step: 0.05, format: (v: number) => v.toFixed(2) }
+              ] as const).map(({ key, label, min, max, step, format }) => (
+                <div key={key} className="space-y-1">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm text-gray-300">{label}</label>
+                    <span className="text-xs font-mono text-gray-500">{format(lighting[key])}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={lighting[key]}
+                    onChange={(e) => setLighting({ ...lighting, [key]: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                </div>
+              ))}
+
+              {lighting.keyLights.map((light, idx) => {
+                const update = (patch: Partial<KeyLight>) => setLighting({
+                  ...lighting,
+                  keyLights: lighting.keyLights.map(l => l.id === light.id ? { ...l, ...patch } : l)
+                });
+                return (
+                  <div key={light.id} className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-gray-300">Ключевой свет {idx + 1}</span>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={light.color}
+                          onChange={(e) => update({ color: e.target.value })}
+                          className="w-6 h-6 bg-transparent border-0 cursor-pointer"
+                        />
+                        <button
+                          onClick={() => setLighting({ ...lighting, keyLights: lighting.keyLights.filter(l => l.id !== light.id) })}
+                          className="text-gray-500 hover:text-red-400"
+                          title="Удалить свет"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                    {([
+                      { key: 'azimuthDeg', label: 'Азимут', min: -180, max: 180, step: 5, unit: '°' },
+                      { key: 'elevationDeg', label: 'Высота', min: 5, max: 90, step: 5, unit: '°' },
+                      { key: 'intensity', label: 'Яркость', min: 0, max: 10, step: 0.1, unit: '' }
+                    ] as const).map(({ key, label, min, max, step, unit }) => (
+                      <label key={key} className="flex items-center gap-2 text-[10px] text-gray-400">
+                        <span className="w-12 shrink-0">{label}</span>
+                        <input
+                          type="range"
+                          min={min}
+                          max={max}
+                          step={step}
+                          value={light[key]}
+                          onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+                          className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                        />
+                        <span className="w-8 text-right font-mono">{light[key]}{unit}</span>
+                      </label>
+                    ))}
+                  </div>
+                );
+              })}
+
+              <button
+                onClick={() => setLighting({ ...lighting, keyLights: [...lighting.keyLights, createKeyLight()] })}
+                className="w-full py-1.5 px-2 rounded bg-gray-900 border border-gray-700 hover:bg-gray-700 text-gray-300 text-xs font-medium transition flex items-center justify-center gap-1"
+              >
+                <Plus size={12} /> Добавить ключевой свет
+              </button>
+            </div>
+
+            <hr className="border-gray-750" />
+            <div className="text-xs font-semibold uppercase tracking-wider text-gray-500 flex items-center gap-2">
+              <Monitor size={14} /> Цветопроба (ICC)
+            </div>
+
+            <div className="space-y-3">
+              {([
+                { slot: 'press', label: 'Профиль печати (CMYK)', ref: pressProfileInputRef, empty: 'Не загружен' },
+                { slot: 'output', label: 'Профиль вывода (RGB)', ref: outputProfileInputRef, empty: 'sRGB (по умолчанию)' }
+              ] as const).map(({ slot, label, ref, empty }) => (
+                <div key={slot} className="space-y-1">
+                  <label className="text-sm text-gray-300">{label}</label>
+                  <div className="flex gap-2 items-center">
+                    <button
+                      onClick={() => ref.current?.click()}
+                      className="flex-1 min-w-0 py-1.5 px-2 rounded bg-gray-900 border border-gray-700 hover:bg-gray-700 text-gray-300 text-xs text-left truncate transition"
+                      title={proofProfiles[slot]?.fileName}
+                    >
+                      {proofProfiles[slot]?.description || empty}
+                    </button>
+                    {proofProfiles[slot] && (
+                      <button onClick={() => onLoadProfile(slot, null)} className="text-gray-500 hover:text-red-400" title="Убрать профиль">
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                    <input
+                      type="file"
+                      ref={ref}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onLoadProfile(slot, file);
+                        e.target.value = '';
+                      }}
+                      className="hidden"
+                      accept=".icc,.icm"
+                    />
+                  </div>
+                </div>
+              ))}
+
+              {proofProfiles.press && (
+                <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 space-y-3">
+                  <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={softProof.enabled}
+                      onChange={(e) => setSoftProof({ ...softProof, enabled: e.target.checked })}
+                      className="accent-indigo-500"
+                    />
+                    Показывать цвета печати
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={softProof.paperWhite}
+                      onChange={(e) => setSoftProof({ ...softProof, paperWhite: e.target.checked })}
+                      className="accent-indigo-500"
+                    />
+                    Имитировать белизну бумаги
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={softProof.gamutWarning}
+                      onChange={(e) => setSoftProof({ ...softProof, gamutWarning: e.target.checked })}
+                      className="accent-indigo-500"
+                    />
+                    Подсветка вне охвата / сверх лимита краски
+                  </label>
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm text-gray-300">Лимит суммы красок</label>
+                      <span className="text-xs font-mono text-gray-500">{softProof.totalInkLimit}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="200"
+                      max="400"
+                      step="5"
+                      value={softProof.totalInkLimit}
+                      onChange={(e) => setSoftProof({ ...softProof, totalInkLimit: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                  </div>
+
+                  {proofError && <div className="text-xs text-red-400">{proofError}</div>}
+                  {proofStats && (
+                    <div className="space-y-1 text-xs">
+                      <div className="flex justify-between">
+                        <span className="text-fuchsia-400">Вне охвата печати</span>
+                        <span className="font-mono text-gray-400">
+                          {proofStats.separated ? 'н/д (данные CMYK)' : `${(proofStats.outOfGamut * 100).toFixed(1)}%`}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-cyan-400">Сверх лимита {softProof.totalInkLimit}%</span>
+                        <span className="font-mono text-gray-400">{(proofStats.overInkLimit * 100).toFixed(1)}%</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Максимум суммы красок</span>
+                        <span className="font-mono text-gray-400">{Math.round(proofStats.maxInk)}%</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <hr className="border-gray-750" />
+            <div className="text-xs font-semibold uppercase tracking-wider text-gray-500">Основа (запечатываемый материал)</div>
+
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <select
+                  value={config.substrate.id}
+                  onChange={(e) => selectSubstrate(e.target.value)}
+                  className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200"
+                >
+                  {!substrates.some(s => s.id === config.substrate.id) && (
+                    <option value={config.substrate.id}>{config.substrate.name}</option>
+                  )}
+                  {substrates.map(s => (
+                    <option key={s.id} value={s.id}>{s.custom ? `★ ${s.name}` : s.name}</option>
+                  ))}
+                </select>
+                {config.substrate.custom && (
+                  <button
+                    onClick={() => onDeleteSubstrate(config.substrate.id)}
+                    title="Удалить пользовательскую основу"
+                    className="px-2 rounded bg-gray-800 border border-gray-700 hover:bg-red-900/40 text-gray-400 hover:text-red-300 transition"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={config.substrate.metallic}
+                    onChange={(e) => updateSubstrate({ metallic: e.target.checked })}
+                    className="accent-indigo-500"
+                  />
+                  Металлизированная
+                </label>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-gray-400">Оттенок</span>
+                  <input
+                    type="color"
+                    value={config.substrate.tint}
+                    onChange={(e) => updateSubstrate({ tint: e.target.value })}
+                    className="h-7 w-10 p-0.5 bg-gray-800 border border-gray-700 rounded cursor-pointer"
+                  />
+                </div>
+              </div>
+
+              {substrateFields.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-xs text-gray-400">{field.label}</label>
+                    <span className="text-xs font-mono text-gray-500">{config.substrate[field.key]}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={config.substrate[field.key]}
+                    onChange={(e) => updateSubstrate({ [field.key]: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                </div>
+              ))}
+
+              <div className="flex justify-between items-center">
+                <label className="text-xs text-gray-400">Микрорельеф</label>
+                <select
+                  value={config.substrate.microTexture}
+                  onChange={(e) => updateSubstrate({ microTexture: e.target.value as MicroTextureKind })}
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200"
+                >
+                  {microTextures.map(({ kind, label }) => (
+                    <option key={kind} value={kind}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex justify-between items-center">
+                <label className="text-xs text-gray-400">Голография (дифракция)</label>
+                <select
+                  value={config.substrate.hologram}
+                  onChange={(e) => updateSubstrate({ hologram: e.target.value as HologramPattern })}
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200"
+                >
+                  {hologramPatterns.map(({ pattern, label }) => (
+                    <option key={pattern} value={pattern}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {config.substrate.hologram !== 'none' && (
+                <>
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <label className="text-xs text-gray-400">Плотность решётки</label>
+                      <span className="text-xs font-mono text-gray-500">{config.substrate.gratingDensity} лин/мм</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="300"
+                      max="3000"
+                      step="50"
+                      value={config.substrate.gratingDensity}
+                      onChange={(e) => updateSubstrate({ gratingDensity: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <label className="text-xs text-gray-400">Сила эффекта</label>
+                      <span className="text-xs font-mono text-gray-500">{config.substrate.hologramStrength}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={config.substrate.hologramStrength}
+                      onChange={(e) => updateSubstrate({ hologramStrength: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                  </div>
+                </>
+              )}
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={substrateName}
+                  onChange={(e) => setSubstrateName(e.target.value)}
+                  placeholder="Название своей основы"
+                  className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200"
+                />
+                <button
+                  onClick={() => {
+                    onSaveSubstrate(substrateName.trim());
+                    setSubstrateName('');
+                  }}
+                  disabled={!substrateName.trim()}
+                  className="px-3 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-xs font-medium flex items-center gap-1 transition"
+                >
+                  <Save size={14} /> Сохранить
+                </button>
+              </div>
+            </div>
+
             <hr className="border-gray-750" />
             <div className="text-xs font-semibold uppercase tracking-wider text-gray-500">Свойства поверхности</div>
 
@@ -244,6 +1740,23 @@ const Controls: React.FC<ControlsProps> = ({
               />
             </div>
 
+            <div className={`space-y-4 transition-opacity ${isPaperPreview ? 'opacity-50 pointer-events-none' : ''}`}>
+              <div className="flex justify-between items-center">
+                <label className="text-sm text-gray-300">Прозрачность красок по металлу</label>
+                <span className="text-xs font-mono text-gray-500">{config.inkTransparency.toFixed(2)}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={config.inkTransparency}
+                onChange={(e) => setConfig({ ...config, inkTransparency: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+              />
+              <div className="text-[10px] text-gray-500">CMYK без белил под ним тонирует металл (жёлтый по серебру = золото)</div>
+            </div>
+
             <div className="space-y-4">
               <div className="flex justify-between items-center">
                 <label className="text-sm text-gray-300">Шероховатость бумаги (Белил)</label>
@@ -278,6 +1791,80 @@ const Controls: React.FC<ControlsProps> = ({
                 </div>
             )}
 
+            <hr className="border-gray-750" />
+            <div className="text-xs font-semibold uppercase tracking-wider text-gray-500 flex items-center gap-2">
+              <Move size={14} /> Совмещение слоёв
+            </div>
+
+            <div className="bg-gray-800 p-1 rounded-lg flex border border-gray-700">
+              {registrationLayers.map(({ layer, label }) => (
+                <button
+                  key={layer}
+                  onClick={() => setRegistrationLayer(layer)}
+                  className={`flex-1 py-1.5 text-xs font-medium rounded transition ${registrationLayer === layer ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {registrationFields.map(field => (
+              <div key={field.key} className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm text-gray-300">{field.label}</label>
+                  <span className="text-xs font-mono text-gray-500">
+                    {registration.layers[registrationLayer][field.key]} {field.unit}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={registration.layers[registrationLayer][field.key]}
+                  onChange={(e) => updateRegistration(field.key, parseFloat(e.target.value))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                />
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={registration.wobble}
+                  onChange={(e) => setRegistration({ ...registration, wobble: e.target.checked })}
+                  className="accent-indigo-500"
+                />
+                Биение машины (случайное блуждание)
+              </label>
+              {registration.wobble && (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-xs text-gray-400">Амплитуда</label>
+                    <span className="text-xs font-mono text-gray-500">±{registration.wobbleAmplitudeUm} мкм</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="10"
+                    max="500"
+                    step="10"
+                    value={registration.wobbleAmplitudeUm}
+                    onChange={(e) => setRegistration({ ...registration, wobbleAmplitudeUm: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                </div>
+              )}
+            </div>
+
+            <button
+                onClick={() => setRegistration(DEFAULT_REGISTRATION)}
+                className="w-full py-2 px-3 rounded bg-gray-800 border border-gray-700 hover:bg-gray-700 text-gray-300 text-xs font-medium flex items-center justify-center gap-2 transition"
+            >
+                <RotateCcw size={14} />
+                Идеальное совмещение
+            </button>
+
             <hr className="border-gray-750" />
 
             <div className="space-y-4">
@@ -335,24 +1922,287 @@ const Controls: React.FC<ControlsProps> = ({
             <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
               <h3 className="text-sm font-semibold text-white mb-2">Предпечатная проверка</h3>
               <p className="text-xs text-gray-400 mb-4">
-                Используйте Google Gemini для анализа макетов на наличие проблем печати на металлизированной бумаге.
+                AI-анализ макета на наличие проблем печати на металлизированной бумаге.
+              </p>
+
+              <div className="space-y-2 mb-4">
+                <select
+                  value={providerSettings.kind}
+                  onChange={(e) => {
+                    const kind = e.target.value as AnalysisProviderKind;
+                    const model = PROVIDER_KINDS.find(p => p.kind === kind)?.defaultModel || '';
+                    setProviderSettings({ ...providerSettings, kind, model });
+                  }}
+                  className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200"
+                >
+                  {PROVIDER_KINDS.map(p => (
+                    <option key={p.kind} value={p.kind}>{p.label}</option>
+                  ))}
+                </select>
+                {providerSettings.kind !== 'stub' && (
+                  <>
+                    {providerSettings.kind === 'openai' && (
+                      <label className="flex flex-col gap-1 text-[10px] text-gray-400">
+                        Адрес сервера
+                        <input
+                          type="text"
+                          value={providerSettings.baseUrl}
+                          onChange={(e) => setProviderSettings({ ...providerSettings, baseUrl: e.target.value })}
+                          placeholder="http://localhost:8000/v1"
+                          className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 font-mono"
+                        />
+                      </label>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="flex flex-col gap-1 text-[10px] text-gray-400">
+                        Модель
+                        <input
+                          type="text"
+                          value={providerSettings.model}
+                          onChange={(e) => setProviderSettings({ ...providerSettings, model: e.target.value })}
+                          className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 font-mono"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1 text-[10px] text-gray-400">
+                        Ключ API
+                        <input
+                          type="password"
+                          value={providerSettings.apiKey}
+                          onChange={(e) => setProviderSettings({ ...providerSettings, apiKey: e.target.value })}
+                          placeholder={providerSettings.kind === 'gemini' ? 'Из сборки' : 'Не нужен'}
+                          className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 font-mono"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1 text-[10px] text-gray-400">
+                        Таймаут, с
+                        <input
+                          type="number"
+                          min="5"
+                          step="5"
+                          value={providerSettings.timeoutSec}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (!isNaN(value) && value > 0) setProviderSettings({ ...providerSettings, timeoutSec: value });
+                          }}
+                          className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 font-mono"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1 text-[10px] text-gray-400">
+                        Повторы
+                        <input
+                          type="number"
+                          min="0"
+                          max="5"
+                          value={providerSettings.retries}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (!isNaN(value) && value >= 0) setProviderSettings({ ...providerSettings, retries: Math.min(5, value) });
+                          }}
+                          className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 font-mono"
+                        />
+                      </label>
+                    </div>
+                    <div className="text-[10px] text-gray-500">
+                      Настройки сохраняются в браузере. Ключ API хранится только до закрытия вкладки.
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={onAnalyze}
+                  disabled={isAnalyzing || !cmykFileName}
+                  className={`flex-1 py-2 px-4 rounded font-medium text-sm transition flex items-center justify-center gap-2 ${
+                    isAnalyzing || !cmykFileName
+                      ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                      : 'bg-indigo-600 hover:bg-indigo-500 text-white'
+                  }`}
+                >
+                  {isAnalyzing ? (
+                    <>Обработка...</>
+                  ) : (
+                    <>Запустить анализ</>
+                  )}
+                </button>
+                {isAnalyzing && (
+                  <button
+                    onClick={onCancelAnalysis}
+                    className="py-2 px-3 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-medium transition"
+                  >
+                    Отменить
+                  </button>
+                )}
+              </div>
+
+              {analysisFailure && (
+                <div className={`mt-3 p-3 rounded border text-xs flex gap-2 items-start ${
+                  analysisFailure.kind === 'cancelled' ? 'bg-gray-900 border-gray-700 text-gray-400' : 'bg-red-900/30 border-red-800 text-red-300'
+                }`}>
+                  <XCircle size={14} className="mt-0.5 shrink-0" />
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-semibold">{failureLabels[analysisFailure.kind]}</p>
+                    {analysisFailure.kind !== 'cancelled' && <p className="break-words">{analysisFailure.message}</p>}
+                    {analysisFailure.provider && (
+                      <p className="text-[10px] opacity-70">
+                        {analysisFailure.provider}, попыток: {analysisFailure.attempts}. Результат анализа не получен.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+              <h3 className="text-sm font-semibold text-white mb-2">Локальная проверка</h3>
+              <p className="text-xs text-gray-400 mb-4">
+                Проверка по правилам печати: выворотки, линии по металлу, лак и точки белил. Работает без сети.
               </p>
-              
+
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                {preflightFields.map(field => (
+                  <label key={field.key} className="flex flex-col gap-1 text-[10px] text-gray-400">
+                    {field.label}
+                    <input
+                      type="number"
+                      min="0"
+                      step={field.step}
+                      value={preflightOptions[field.key]}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value > 0) setPreflightOptions({ ...preflightOptions, [field.key]: value });
+                      }}
+                      className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 font-mono"
+                    />
+                  </label>
+                ))}
+              </div>
+
               <button
-                onClick={onAnalyze}
+                onClick={onPreflight}
                 disabled={isAnalyzing || !cmykFileName}
                 className={`w-full py-2 px-4 rounded font-medium text-sm transition flex items-center justify-center gap-2 ${
                   isAnalyzing || !cmykFileName
                     ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
-                    : 'bg-indigo-600 hover:bg-indigo-500 text-white'
+                    : 'bg-gray-700 hover:bg-gray-600 text-white border border-gray-600'
                 }`}
               >
-                {isAnalyzing ? (
-                  <>Обработка...</>
-                ) : (
-                  <>Запустить анализ</>
-                )}
+                <ShieldCheck size={16} /> Проверить локально
+              </button>
+            </div>
+
+            <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+              <h3 className="text-sm font-semibold text-white mb-2">Покрытие и расход</h3>
+              <p className="text-xs text-gray-400 mb-4">
+                Доля площади под каждой краской, открытый металл, зоны превышения суммарного покрытия и расход краски на лист и тираж.
+              </p>
+
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                {rateFields.map(field => (
+                  <label key={field.key} className="flex flex-col gap-1 text-[10px] text-gray-400">
+                    {field.label}
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={consumption.rates[field.key]}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value >= 0) setConsumption({ ...consumption, rates: { ...consumption.rates, [field.key]: value } });
+                      }}
+                      className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 font-mono"
+                    />
+                  </label>
+                ))}
+                <label className="flex flex-col gap-1 text-[10px] text-gray-400 col-span-2">
+                  Тираж, листов
+                  <input
+                    type="number"
+                    min="1"
+                    step="100"
+                    value={consumption.runLength}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (!isNaN(value) && value > 0) setConsumption({ ...consumption, runLength: value });
+                    }}
+                    className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 font-mono"
+                  />
+                </label>
+              </div>
+
+              <button
+                onClick={onComputeCoverage}
+                disabled={isComputingCoverage || !cmykFileName}
+                className={`w-full py-2 px-4 rounded font-medium text-sm transition flex items-center justify-center gap-2 ${
+                  isComputingCoverage || !cmykFileName
+                    ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                    : 'bg-gray-700 hover:bg-gray-600 text-white border border-gray-600'
+                }`}
+              >
+                <PieChart size={16} /> {isComputingCoverage ? 'Расчёт...' : 'Рассчитать покрытие'}
               </button>
+
+              {coverageReport && (
+                <div className="mt-4 space-y-3">
+                  <table className="w-full text-xs text-gray-300">
+                    <thead>
+                      <tr className="text-[10px] text-gray-500 text-left">
+                        <th className="font-normal pb-1">Слой</th>
+                        <th className="font-normal pb-1 text-right">Покрытие</th>
+                        <th className="font-normal pb-1 text-right">Лист</th>
+                        <th className="font-normal pb-1 text-right">Тираж</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {consumptionRows.map((row, idx) => (
+                        <tr key={idx} className="border-t border-gray-750">
+                          <td className="py-1 pr-2 truncate max-w-[8rem]" title={row.name}>{row.name}</td>
+                          <td className="py-1 text-right font-mono">{(row.coverage * 100).toFixed(1)}%</td>
+                          <td className="py-1 text-right font-mono">{formatGrams(row.gramsPerSheet)}</td>
+                          <td className="py-1 text-right font-mono">{formatGrams(row.gramsPerRun)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  {coverageReport.cmykSource && (
+                    <p className="text-[10px] text-gray-500">CMYK: {cmykSourceLabels[coverageReport.cmykSource]}</p>
+                  )}
+                  {!physicalSize && (
+                    <p className="text-[10px] text-yellow-500">Размер листа неизвестен, расход не рассчитан.</p>
+                  )}
+
+                  {coverageReport.tac && (
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span className={coverageReport.tac.overLimit > 0 ? 'text-yellow-500' : 'text-gray-400'}>
+                        Сумма красок: ср. {Math.round(coverageReport.tac.mean)}%, макс. {Math.round(coverageReport.tac.max)}%
+                        {coverageReport.tac.overLimit > 0 && <>, выше {coverageReport.tac.limit}%: {(coverageReport.tac.overLimit * 100).toFixed(1)}% листа</>}
+                      </span>
+                      {coverageReport.tac.hotSpots.length > 0 && (
+                        <button
+                          onClick={onShowHotSpots}
+                          className="shrink-0 text-yellow-500 hover:text-yellow-400"
+                          title="Показать зоны на листе"
+                        >
+                          <Flame size={14} />
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    {(['csv', 'json'] as const).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => onExportCoverage(format)}
+                        className="flex-1 py-1.5 px-2 rounded bg-gray-900 border border-gray-700 hover:bg-gray-700 text-gray-300 text-xs font-medium transition flex items-center justify-center gap-1"
+                      >
+                        <Download size={12} /> {format.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {analysisResult && (
@@ -364,16 +2214,115 @@ const Controls: React.FC<ControlsProps> = ({
                     </div>
                 </div>
                 
+                {!!analysisResult.issues?.length && (
+                  <div className="bg-gray-800 p-1 rounded-lg flex border border-gray-700">
+                    {overlayModes.map(({ mode, label }) => (
+                      <button
+                        key={mode}
+                        onClick={() => setIssueOverlay(mode)}
+                        className={`flex-1 py-1.5 text-xs font-medium rounded transition ${issueOverlay === mode ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {!!analysisResult.issues?.length && (
+                  <div className="flex gap-2">
+                    <select
+                      value={categoryFilter}
+                      onChange={(e) => setCategoryFilter(e.target.value as FindingCategory | 'all')}
+                      className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200"
+                    >
+                      <option value="all">Все категории</option>
+                      {FINDING_CATEGORIES.map(category => (
+                        <option key={category} value={category}>{categoryLabels[category]}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={severityFilter}
+                      onChange={(e) => setSeverityFilter(e.target.value as IssueSeverity | 'all')}
+                      className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200"
+                    >
+                      <option value="all">Все уровни</option>
+                      {(Object.keys(severityLabels) as IssueSeverity[]).map(severity => (
+                        <option key={severity} value={severity}>{severityLabels[severity]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={onExportFindings}
+                      className="shrink-0 px-2 rounded bg-gray-900 border border-gray-700 hover:bg-gray-700 text-gray-300 transition"
+                      title="Экспорт находок в JSON"
+                    >
+                      <Download size={14} />
+                    </button>
+                  </div>
+                )}
+
                 <div className="space-y-2">
-                    {analysisResult.feedback.map((item, idx) => (
+                    {/* General remarks; preflight feedback only repeats its issues */}
+                    {analysisResult.feedback
+                      .filter(item => !analysisResult.issues?.some(issue => issue.message === item))
+                      .map((item, idx) => (
                         <div key={idx} className="flex gap-2 items-start bg-gray-800 p-3 rounded text-sm text-gray-300">
                            {analysisResult.isCompatible ? <CheckCircle size={16} className="text-green-500 mt-0.5 shrink-0" /> : <AlertTriangle size={16} className="text-yellow-500 mt-0.5 shrink-0" />}
                            <span>{item}</span>
                         </div>
                     ))}
+
+                    {issueGroups.map(({ category, items }) => (
+                      <div key={category || 'other'} className="space-y-2">
+                        <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-500 pt-1">
+                          {category ? categoryLabels[category] : 'Прочее'} · {items.length}
+                        </div>
+                        {items.map(({ issue, idx }) => (
+                          <button
+                            key={idx}
+                            onClick={() => onSelectIssue({ issue: idx, region: null })}
+                            disabled={issue.regions.length === 0}
+                            className={`w-full text-left flex gap-2 items-start p-3 rounded text-sm text-gray-300 border transition ${
+                              issueSelection?.issue === idx
+                                ? 'bg-gray-750 border-indigo-500'
+                                : 'bg-gray-800 border-transparent hover:border-gray-600'
+                            }`}
+                          >
+                             {severityIcon(issue.severity)}
+                             <span className="space-y-1">
+                               <span className="block">{issue.message}</span>
+                               {issue.fix && <span className="block text-xs text-gray-400">Решение: {issue.fix}</span>}
+                             </span>
+                          </button>
+                        ))}
+                      </div>
+                    ))}
+
+                    {!!analysisResult.issues?.length && issueGroups.length === 0 && (
+                      <p className="text-xs text-gray-500 text-center py-2">Нет находок с такими фильтрами.</p>
+                    )}
                 </div>
               </div>
             )}
+
+            <ChatPanel
+              messages={chatMessages}
+              isChatting={isChatting}
+              disabled={!cmykFileName || isAnalyzing}
+              onSend={onSendChat}
+              onCancel={onCancelChat}
+              onClear={onClearChat}
+              point={chatPoint}
+              onClearPoint={onClearChatPoint}
+              isPickingPoint={isPickingChatPoint}
+              setIsPickingPoint={setIsPickingChatPoint}
+            />
+
+            <AnalysisHistory
+              runs={analysisHistory}
+              onOpenRun={onOpenRun}
+              onDeleteRun={onDeleteRun}
+              onClearHistory={onClearHistory}
+            />
           </div>
         )}
 
@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ThreeEvent, useFrame, useThree } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { AnalysisIssue, ImageRegion, IssueOverlayMode, IssueSelection, IssueSeverity } from '../types';
+
+const SEVERITY_COLORS: Record<IssueSeverity, string> = {
+  error: '#ef4444',
+  warning: '#eab308',
+  info: '#60a5fa'
+};
+
+// Overlay floats just above the sheet to avoid z-fighting
+const OVERLAY_HEIGHT = 0.01;
+// Tiny regions (single specks) are enlarged to stay visible and clickable
+const MIN_MARKER_SIZE = 0.15;
+
+interface SheetRect {
+  centerX: number;
+  centerZ: number;
+  width: number;
+  depth: number;
+}
+
+/**
+ * Maps a region in image pixels to world units on the sheet
+ * (plane of width 10 lying flat, top of the image away from the camera).
+ */
+const regionToSheet = (
+  region: ImageRegion,
+  imageSize: { width: number; height: number },
+  sheetWidth: number,
+  sheetHeight: number
+): SheetRect => {
+  const u = (region.x + region.width / 2) / imageSize.width;
+  const v = (region.y + region.height / 2) / imageSize.height;
+  return {
+    centerX: (u - 0.5) * sheetWidth,
+    centerZ: (v - 0.5) * sheetHeight,
+    width: Math.max(MIN_MARKER_SIZE, (region.width / imageSize.width) * sheetWidth),
+    depth: Math.max(MIN_MARKER_SIZE, (region.height / imageSize.height) * sheetHeight)
+  };
+};
+
+// Bounding box of several regions
+const unionRegion = (regions: ImageRegion[]): ImageRegion => {
+  const minX = Math.min(...regions.map(r => r.x));
+  const minY = Math.min(...regions.map(r => r.y));
+  const maxX = Math.max(...regions.map(r => r.x + r.width));
+  const maxY = Math.max(...regions.map(r => r.y + r.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Region the camera should frame for a selection (one region or the whole issue).
+ */
+export const selectionRegion = (issues: AnalysisIssue[], selection: IssueSelection | null): ImageRegion | null => {
+  if (!selection) return null;
+  const issue = issues[selection.issue];
+  if (!issue || issue.regions.length === 0) return null;
+  if (selection.region !== null && issue.regions[selection.region]) return issue.regions[selection.region];
+  return unionRegion(issue.regions);
+};
+
+interface OverlayProps {
+  issues: AnalysisIssue[];
+  imageSize: { width: number; height: number };
+  aspectRatio: number;
+  mode: IssueOverlayMode;
+  selection: IssueSelection | null;
+  onSelect: (selection: IssueSelection) => void;
+}
+
+// Semi-transparent heatmap painted on a canvas the size of the sheet
+const Heatmap: React.FC<Omit<OverlayProps, 'mode' | 'selection' | 'onSelect'>> = ({ issues, imageSize, aspectRatio }) => {
+  const sheetHeight = 10 / aspectRatio;
+
+  const texture = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1024;
+    canvas.height = Math.max(1, Math.round(1024 / aspectRatio));
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      const scaleX = canvas.width / imageSize.width;
+      const scaleY = canvas.height / imageSize.height;
+      const minSize = canvas.width * (MIN_MARKER_SIZE / 10);
+      ctx.filter = 'blur(6px)';
+      ctx.globalAlpha = 0.45;
+      issues.forEach(issue => {
+        ctx.fillStyle = SEVERITY_COLORS[issue.severity];
+        issue.regions.forEach(region => {
+          if (region.polygon && region.polygon.length > 2) {
+            ctx.beginPath();
+            region.polygon.forEach((pt, i) => {
+              if (i === 0) ctx.moveTo(pt.x * scaleX, pt.y * scaleY);
+              else ctx.lineTo(pt.x * scaleX, pt.y * scaleY);
+            });
+            ctx.closePath();
+            ctx.fill();
+            return;
+          }
+          const w = Math.max(minSize, region.width * scaleX);
+          const h = Math.max(minSize, region.height * scaleY);
+          const cx = (region.x + region.width / 2) * scaleX;
+          const cy = (region.y + region.height / 2) * scaleY;
+          ctx.fillRect(cx - w / 2, cy - h / 2, w, h);
+        });
+      });
+    }
+    const tex = new THREE.CanvasTexture(canvas);
+    tex.colorSpace = THREE.SRGBColorSpace;
+    return tex;
+  }, [issues, imageSize, aspectRatio]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, OVERLAY_HEIGHT, 0]} raycast={() => null}>
+      <planeGeometry args={[10, sheetHeight]} />
+      <meshBasicMaterial map={texture} transparent depthWrite={false} toneMapped={false} />
+    </mesh>
+  );
+};
+
+const Marker: React.FC<{
+  rect: SheetRect;
+  color: string;
+  isSelected: boolean;
+  onClick: () => void;
+}> = ({ rect, color, isSelected, onClick }) => {
+  const halfW = rect.width / 2;
+  const halfD = rect.depth / 2;
+  const points = useMemo(() => [
+    [-halfW, 0, -halfD], [halfW, 0, -halfD], [halfW, 0, halfD], [-halfW, 0, halfD], [-halfW, 0, -halfD]
+  ] as [number, number, number][], [halfW, halfD]);
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    onClick();
+  };
+
+  return (
+    <group position={[rect.centerX, OVERLAY_HEIGHT, rect.centerZ]}>
+      <Line points={points} color={isSelected ? '#ffffff' : color} lineWidth={isSelected ? 3 : 2} />
+      {/* Transparent hit area */}
+      <mesh rotation={[-Math.PI / 2, 0, 0]} onClick={handleClick}>
+        <planeGeometry args={[rect.width, rect.depth]} />
+        <meshBasicMaterial color={color} transparent opacity={isSelected ? 0.25 : 0.1} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+};
+
+/**
+ * Draws preflight issue regions on the sheet as clickable markers or a heatmap.
+ */
+const IssueOverlay: React.FC<OverlayProps> = ({ issues, imageSize, aspectRatio, mode, selection, onSelect }) => {
+  if (mode === 'off' || issues.length === 0) return null;
+
+  if (mode === 'heatmap') {
+    return <Heatmap issues={issues} imageSize={imageSize} aspectRatio={aspectRatio} />;
+  }
+
+  const sheetHeight = 10 / aspectRatio;
+  return (
+    <group>
+      {issues.map((issue, issueIdx) => issue.regions.map((region, regionIdx) => (
+        <Marker
+          key={`${issueIdx}-${regionIdx}`}
+          rect={regionToSheet(region, imageSize, 10, sheetHeight)}
+          color={SEVERITY_COLORS[issue.severity]}
+          isSelected={selection?.issue === issueIdx}
+          onClick={() => onSelect({ issue: issueIdx, region: regionIdx })}
+        />
+      )))}
+    </group>
+  );
+};
+
+// Subset of the OrbitControls API used for focusing
+type FocusControls = THREE.EventDispatcher<{ start: {} }> & { target: THREE.Vector3; update: () => void };
+
+// The default controls are only used when they orbit a target (OrbitControls and alike)
+const isFocusControls = (controls: THREE.EventDispatcher | null): controls is FocusControls =>
+  !!controls && 'target' in controls && controls.target instanceof THREE.Vector3 &&
+  'update' in controls && typeof controls.update === 'function';
+
+/**
+ * Smoothly moves the default OrbitControls camera to frame a region of the sheet.
+ * Any user interaction with the controls cancels the move.
+ */
+export const CameraFocus: React.FC<{
+  region: ImageRegion | null;
+  imageSize: { width: number; height: number } | null;
+  aspectRatio: number;
+}> = ({ region, imageSize, aspectRatio }) => {
+  const camera = useThree(state => state.camera) as THREE.PerspectiveCamera;
+  const defaultControls = useThree(state => state.controls);
+  const controls = isFocusControls(defaultControls) ? defaultControls : null;
+  const goal = useRef<{ target: THREE.Vector3; position: THREE.Vector3 } | null>(null);
+
+  useEffect(() => {
+    if (!region || !imageSize || !controls) {
+      goal.current = null;
+      return;
+    }
+    const rect = regionToSheet(region, imageSize, 10, 10 / aspectRatio);
+    const target = new THREE.Vector3(rect.centerX, 0, rect.centerZ);
+
+    // Keep the current viewing direction, only change distance
+    const size = Math.max(rect.width, rect.depth);
+    const fov = THREE.MathUtils.degToRad(camera.fov);
+    const distance = Math.max(1.5, (size * 1.5) / (2 * Math.tan(fov / 2)));
+    const direction = camera.position.clone().sub(controls.target).normalize();
+    goal.current = { target, position: target.clone().add(direction.multiplyScalar(distance)) };
+
+    const cancel = () => { goal.current = null; };
+    controls.addEventListener('start', cancel);
+    return () => controls.removeEventListener('start', cancel);
+  }, [region, imageSize, aspectRatio, controls, camera]);
+
+  useFrame((_, delta) => {
+    if (!goal.current || !controls) return;
+    const t = 1 - Math.exp(-delta * 6);
+    controls.target.lerp(goal.current.target, t);
+    camera.position.lerp(goal.current.position, t);
+    controls.update();
+    if (camera.position.distanceTo(goal.current.position) < 0.01) goal.current = null;
+  });
+
+  return null;
+};
+
+export default IssueOverlay;
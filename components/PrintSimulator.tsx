@@ -1,19 +1,33 @@
 
-import React, { useRef, useMemo, useEffect } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect, useCallback, Suspense } from 'react';
+import { Canvas, ThreeEvent, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Stage, useTexture, Environment } from '@react-three/drei';
 import * as THREE from 'three';
-import { PrintConfig } from '../types';
+import { PrintConfig, PixelMap, TextureMaps, AnalysisResult, IssueOverlayMode, IssueSelection, PhysicalSize, EnvironmentMap, LightingConfig } from '../types';
+import IssueOverlay, { CameraFocus, selectionRegion } from './IssueOverlay';
+import SheetGuides from './SheetGuides';
+import { LayerTransform, fitPixelMap, isIdentityTransform } from '../utils/textureUtils';
+import { transformToUvMatrix } from '../utils/registrationUtils';
+import { generateMicroTexture } from '../utils/substrateUtils';
+import { SHEET_VERTEX_CHUNKS, SUBSTRATE_SHADER_CHUNKS, substrateScalarUniforms } from '../utils/substrateShader';
+import { FOIL_SHADER_CHUNKS } from '../utils/foilShader';
+import { SPOT_SHADER_CHUNKS } from '../utils/spotShader';
+import { VARNISH_HEIGHT_RANGE } from '../utils/varnishUtils';
+import { keyLightPosition } from '../utils/lightingUtils';
 
 interface SceneProps {
   cmykUrl: string;
-  metalnessMapUrl: string | null;
-  roughnessMapUrl: string | null;
-  clearcoatMapUrl: string | null;
+  textureMaps: TextureMaps | null;
   config: PrintConfig;
   aspectRatio: number;
   exposure: number;
   isPaperPreview: boolean;
+  // Misregistration of the CMYK layer, applied on the GPU as a UV transform
+  cmykTransform: LayerTransform | null;
+  // Emboss displacement in world units (0 = normal map only)
+  displacementScale: number;
+  // Click on the sheet in image coordinates (0-1 from top-left)
+  onSheetClick?: (point: { x: number; y: number }) => void;
 }
 
 // Separate component to reactively update scene globals
@@ -25,36 +39,175 @@ const SceneUpdater: React.FC<{ exposure: number }> = ({ exposure }) => {
   return null;
 };
 
+// Group of the issue markers, left out of screenshots
+const ISSUE_OVERLAY_NAME = 'issue-overlay';
+
+// Exposes a capture of the current view (rendered on demand, so no preserved drawing buffer is needed)
+const ScreenshotSource: React.FC<{ captureRef: React.MutableRefObject<(() => string) | null> }> = ({ captureRef }) => {
+  const { gl, scene, camera } = useThree();
+  useEffect(() => {
+    captureRef.current = () => {
+      const overlay = scene.getObjectByName(ISSUE_OVERLAY_NAME);
+      if (overlay) overlay.visible = false;
+      gl.render(scene, camera);
+      const url = gl.domElement.toDataURL('image/png');
+      if (overlay) overlay.visible = true;
+      return url;
+    };
+    return () => { captureRef.current = null; };
+  }, [gl, scene, camera, captureRef]);
+  return null;
+};
+
+// Wraps a worker-generated map in a linear DataTexture (disposed when the map is replaced).
+// Maps are generated at the artwork size, so large sheets are scaled down to the GPU limit.
+const useDataTexture = (map: PixelMap | null | undefined): THREE.DataTexture | null => {
+  const { gl } = useThree();
+  const maxSize = gl.capabilities.maxTextureSize;
+  const texture = useMemo(() => {
+    if (!map) return null;
+    const fitted = fitPixelMap(map, maxSize);
+    const tex = new THREE.DataTexture(fitted.data, fitted.width, fitted.height, THREE.RGBAFormat);
+    tex.flipY = true; // Row 0 of the map is the top of the artwork
+    tex.colorSpace = THREE.NoColorSpace;
+    tex.magFilter = THREE.LinearFilter;
+    tex.minFilter = THREE.LinearMipmapLinearFilter;
+    tex.generateMipmaps = true;
+    tex.anisotropy = 16;
+    tex.needsUpdate = true;
+    return tex;
+  }, [map, maxSize]);
+
+  useEffect(() => () => texture?.dispose(), [texture]);
+  return texture;
+};
+
+// Tileable micro-texture of the substrate (brush lines, paper grain)
+const useMicroTexture = (kind: PrintConfig['substrate']['microTexture']): THREE.DataTexture => {
+  const texture = useMemo(() => {
+    const map = generateMicroTexture(kind);
+    const tex = new THREE.DataTexture(map.data, map.width, map.height, THREE.RGBAFormat);
+    tex.wrapS = THREE.RepeatWrapping;
+    tex.wrapT = THREE.RepeatWrapping;
+    tex.colorSpace = THREE.NoColorSpace;
+    tex.magFilter = THREE.LinearFilter;
+    tex.minFilter = THREE.LinearMipmapLinearFilter;
+    tex.generateMipmaps = true;
+    tex.needsUpdate = true;
+    return tex;
+  }, [kind]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+  return texture;
+};
+
+// Soft proof warnings (out of gamut, over the ink limit) just above the sheet
+const GamutOverlay: React.FC<{ url: string; aspectRatio: number }> = ({ url, aspectRatio }) => {
+  const texture = useTexture(url);
+  useMemo(() => {
+    texture.colorSpace = THREE.SRGBColorSpace;
+  }, [texture]);
+
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.01, 0]} raycast={() => null}>
+      <planeGeometry args={[10, 10 / aspectRatio]} />
+      <meshBasicMaterial map={texture} transparent depthWrite={false} toneMapped={false} />
+    </mesh>
+  );
+};
+
 const PrintMesh: React.FC<SceneProps> = ({ 
   cmykUrl, 
-  metalnessMapUrl, 
-  roughnessMapUrl, 
-  clearcoatMapUrl,
+  textureMaps,
   config, 
   aspectRatio, 
   exposure,
-  isPaperPreview
+  isPaperPreview,
+  cmykTransform,
+  displacementScale,
+  onSheetClick
 }) => {
   // Load main color texture
   const colorMap = useTexture(cmykUrl);
   
-  // Load generated maps if available
-  const metalMap = useTexture(metalnessMapUrl || cmykUrl); 
-  const roughMap = useTexture(roughnessMapUrl || cmykUrl);
-  const coatMap = useTexture(clearcoatMapUrl || cmykUrl);
+  // Generated maps if available (already linear data, no gamma)
+  const metalMap = useDataTexture(textureMaps?.metalnessMap);
+  const roughMap = useDataTexture(textureMaps?.roughnessMap);
+  const coatMap = useDataTexture(textureMaps?.clearcoatMap);
+  const varnishHeightMap = useDataTexture(textureMaps?.varnishHeightMap);
+  const normalMap = useDataTexture(textureMaps?.normalMap);
+  const heightMap = useDataTexture(textureMaps?.heightMap);
+  const foilColorMap = useDataTexture(textureMaps?.foilColorMap);
+  const foilPropsMap = useDataTexture(textureMaps?.foilPropsMap);
+  const spotMulMap = useDataTexture(textureMaps?.spotMulMap);
+  const spotAddMap = useDataTexture(textureMaps?.spotAddMap);
+  const hasEmboss = !!normalMap;
+  const useDisplacement = hasEmboss && !!heightMap && displacementScale !== 0;
 
   const materialRef = useRef<THREE.MeshPhysicalMaterial>(null);
 
+  // Substrate (stock), foil and spot colour uniforms, shared by every compiled version of the material
+  const { substrate } = config;
+  const microMap = useMicroTexture(substrate.microTexture);
+  const substrateUniforms = useMemo<Record<string, THREE.IUniform>>(() => ({
+    uSubstrateTint: { value: new THREE.Color() },
+    uMicroMap: { value: null },
+    uFoilColorMap: { value: null },
+    uFoilPropsMap: { value: null },
+    uFoilEnabled: { value: 0 },
+    uSpotMulMap: { value: null },
+    uSpotAddMap: { value: null },
+    uSpotEnabled: { value: 0 },
+    ...Object.fromEntries(Object.keys(substrateScalarUniforms(substrate, aspectRatio)).map(key => [key, { value: 0 }]))
+  }), []);
+
+  useEffect(() => {
+    (substrateUniforms.uSubstrateTint.value as THREE.Color).set(substrate.tint);
+    substrateUniforms.uMicroMap.value = microMap;
+    Object.entries(substrateScalarUniforms(substrate, aspectRatio)).forEach(([key, value]) => {
+      substrateUniforms[key].value = value;
+    });
+  }, [substrateUniforms, substrate, microMap, aspectRatio]);
+
+  useEffect(() => {
+    substrateUniforms.uFoilColorMap.value = foilColorMap;
+    substrateUniforms.uFoilPropsMap.value = foilPropsMap;
+    substrateUniforms.uFoilEnabled.value = foilColorMap && foilPropsMap ? 1 : 0;
+  }, [substrateUniforms, foilColorMap, foilPropsMap]);
+
+  useEffect(() => {
+    substrateUniforms.uSpotMulMap.value = spotMulMap;
+    substrateUniforms.uSpotAddMap.value = spotAddMap;
+    substrateUniforms.uSpotEnabled.value = spotMulMap && spotAddMap ? 1 : 0;
+  }, [substrateUniforms, spotMulMap, spotAddMap]);
+
+  const onBeforeCompile = useCallback((shader: THREE.WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, substrateUniforms);
+    SHEET_VERTEX_CHUNKS.forEach(([search, replace]) => {
+      shader.vertexShader = shader.vertexShader.replace(search, replace);
+    });
+    [...SUBSTRATE_SHADER_CHUNKS, ...FOIL_SHADER_CHUNKS, ...SPOT_SHADER_CHUNKS].forEach(([search, replace]) => {
+      shader.fragmentShader = shader.fragmentShader.replace(search, replace);
+    });
+  }, [substrateUniforms]);
+
   useMemo(() => {
     // Texture encoding updates
     colorMap.colorSpace = THREE.SRGBColorSpace;
     colorMap.anisotropy = 16;
-    
-    // Ensure generated data maps are treated as linear data (no gamma)
-    metalMap.colorSpace = THREE.NoColorSpace;
-    roughMap.colorSpace = THREE.NoColorSpace;
-    coatMap.colorSpace = THREE.NoColorSpace;
-  }, [colorMap, metalMap, roughMap, coatMap]);
+  }, [colorMap]);
+
+  useEffect(() => {
+    if (cmykTransform && !isIdentityTransform(cmykTransform)) {
+      const image = colorMap.image as { width: number; height: number };
+      colorMap.matrixAutoUpdate = false;
+      const m = transformToUvMatrix(cmykTransform, image.width, image.height);
+      colorMap.matrix.set(m[0], m[1], m[2], m[3], m[4], m[5], m[6], m[7], m[8]);
+    } else {
+      colorMap.matrixAutoUpdate = true;
+      colorMap.updateMatrix();
+    }
+  }, [colorMap, cmykTransform]);
 
   useFrame(() => {
     if (materialRef.current) {
@@ -65,14 +218,14 @@ const PrintMesh: React.FC<SceneProps> = ({
   });
 
   // Logic: 
-  // If Varnish Map (clearcoatMapUrl) exists, we MUST use maps to display it correctly,
+  // If Varnish Map (coatMap) exists, we MUST use maps to display it correctly,
   // even in Paper Preview mode (Varnish on Paper).
-  const hasVarnish = !!clearcoatMapUrl;
+  const hasVarnish = !!coatMap;
   
   // In Paper Preview:
   // If Varnish exists -> Use Maps (Varnish Map overrides Roughness Map locally).
   // If No Varnish -> Don't use Maps (Force uniform paper roughness).
-  const useMaps = !isPaperPreview || hasVarnish;
+  const useMaps = (!isPaperPreview || hasVarnish) && !!metalMap;
 
   // Clearcoat Logic:
   // If Varnish exists -> 1.0 (The map controls WHERE it is).
@@ -85,31 +238,55 @@ const PrintMesh: React.FC<SceneProps> = ({
       clearcoatValue = config.inkGlossiness;
   }
 
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    // Ignore clicks that ended an orbit drag
+    if (!onSheetClick || !e.uv || e.delta > 4) return;
+    e.stopPropagation();
+    onSheetClick({ x: e.uv.x, y: 1 - e.uv.y });
+  };
+
   return (
-    <mesh rotation={[-Math.PI / 2, 0, 0]} castShadow={false} receiveShadow>
+    <mesh rotation={[-Math.PI / 2, 0, 0]} castShadow={false} receiveShadow onClick={handleClick}>
       {/* Width fixed to 10, Height derived from aspect ratio */}
-      <planeGeometry args={[10, 10 / aspectRatio]} /> 
+      {/* Subdivided only when the emboss displaces the geometry */}
+      <planeGeometry args={useDisplacement ? [10, 10 / aspectRatio, 400, Math.round(400 / aspectRatio)] : [10, 10 / aspectRatio]} />
       <meshPhysicalMaterial
-        key={`${isPaperPreview}-${hasVarnish}`} // Force recreation when modes/varnish change
+        key={`${isPaperPreview}-${hasVarnish}-${useMaps}-${hasEmboss}-${useDisplacement}`} // Force recreation when modes/maps change
         ref={materialRef}
         map={colorMap}
+        onBeforeCompile={onBeforeCompile}
+
+        // Substrate sheen, see SUBSTRATE_SHADER_CHUNKS
+        anisotropy={substrate.anisotropy}
+        anisotropyRotation={substrate.brushDirectionDeg * Math.PI / 180}
+        iridescence={substrate.iridescence}
+        iridescenceIOR={1.3}
+        iridescenceThicknessRange={[100, 800]}
         
         // Maps
         metalnessMap={useMaps ? metalMap : null}
         roughnessMap={useMaps ? roughMap : null}
         clearcoatMap={hasVarnish ? coatMap : null}
+        // Coat roughness per varnish type is in the G channel of the same map
+        clearcoatRoughnessMap={hasVarnish ? coatMap : null}
         
-        // Bump Map for Varnish Volume
-        // Reuse clearcoat map because it is white (high) where varnish is.
-        bumpMap={hasVarnish ? coatMap : null}
-        bumpScale={hasVarnish ? (config.varnishBump || 0.02) : 0}
+        // Bump Map for Varnish Volume (film thickness, raised varnish stands higher)
+        bumpMap={hasVarnish ? varnishHeightMap : null}
+        bumpScale={hasVarnish ? (config.varnishBump || 0.02) * VARNISH_HEIGHT_RANGE : 0}
+
+        // Emboss / Deboss relief. three.js uses the normal map instead of the bump map
+        // when both are set, so the varnish volume is not shown on embossed sheets.
+        normalMap={hasEmboss ? normalMap : null}
+        clearcoatNormalMap={hasEmboss && hasVarnish ? normalMap : null}
+        displacementMap={useDisplacement ? heightMap : null}
+        displacementScale={useDisplacement ? displacementScale : 0}
 
         // Factors
         // Metalness: 
         // If Paper Mode (and no varnish logic requiring metal): 0.
         // *Correction*: Even if Varnish exists, if we are in Paper Mode, we want the background to be Paper (Metalness 0).
         // Since useMaps is TRUE if Varnish exists, we need to rely on the generated metalnessMap.
-        // The processTextureMaps function sets metalness to 0 where Ink/Paper is.
+        // The buildTextureMaps function sets metalness to 0 where Ink/Paper is.
         // However, if we are in Paper Preview, we want EVERYTHING to be Metalness 0.
         // But if we use the map, the "Metal" parts will be Metalness 1.
         // TRICK: If isPaperPreview is true, we force metalness prop to 0, which Multiplies with the map (0 * Map = 0).
@@ -123,7 +300,7 @@ const PrintMesh: React.FC<SceneProps> = ({
         // Clearcoat:
         clearcoat={clearcoatValue}
         
-        clearcoatRoughness={0.1} // Sharper coating for more gloss
+        clearcoatRoughness={hasVarnish ? 1.0 : 0.1} // With varnish the map controls it; otherwise a sharp coating for more gloss
         reflectivity={0.5} // Lower reflectivity (0.5) improves black depth on paper parts
         // EnvMap intensity handled in useFrame
       />
@@ -131,27 +308,109 @@ const PrintMesh: React.FC<SceneProps> = ({
   );
 };
 
+/**
+ * Lighting studio: the environment (already rotated, shared with the export),
+ * ambient light and key lights turned with the environment.
+ */
+const StudioLighting: React.FC<{ environment: EnvironmentMap | null; lighting: LightingConfig }> = ({ environment, lighting }) => {
+  const texture = useMemo(() => {
+    if (!environment) return null;
+    const tex = new THREE.DataTexture(environment.data, environment.width, environment.height, THREE.RGBAFormat, THREE.FloatType);
+    // Same setup as HDRLoader: rows top first, linear
+    tex.mapping = THREE.EquirectangularReflectionMapping;
+    tex.colorSpace = THREE.LinearSRGBColorSpace;
+    tex.flipY = true;
+    tex.minFilter = THREE.LinearFilter;
+    tex.magFilter = THREE.LinearFilter;
+    tex.generateMipmaps = false;
+    tex.needsUpdate = true;
+    return tex;
+  }, [environment]);
+
+  useEffect(() => () => texture?.dispose(), [texture]);
+
+  return (
+    <>
+      {texture && <Environment map={texture} background={false} />}
+      <ambientLight intensity={lighting.ambient} />
+      {lighting.keyLights.map(light => (
+        <directionalLight
+          key={light.id}
+          position={keyLightPosition(light, lighting.rotationDeg)}
+          intensity={light.intensity}
+          color={light.color}
+        />
+      ))}
+    </>
+  );
+};
+
+// Effective resolutions below this are highlighted in the HUD
+const LOW_DPI = 200;
+
+const DPI_SOURCE_LABELS: Record<PhysicalSize['source'], string> = {
+  file: 'из файла',
+  manual: 'по размеру',
+  default: 'по умолчанию'
+};
+
 interface SimulatorProps {
   cmykUrl: string | null;
-  metalnessMapUrl: string | null;
-  roughnessMapUrl: string | null;
-  clearcoatMapUrl: string | null;
+  // Soft proof overlay and the press profile name, null when off
+  gamutOverlayUrl: string | null;
+  softProofLabel: string | null;
+  // Job size for the HUD; guides are drawn when set
+  physicalSize: PhysicalSize | null;
+  guides: { bleedMm: number; safeMm: number } | null;
+  textureMaps: TextureMaps | null;
   config: PrintConfig;
   aspectRatio: number;
   exposure: number;
   isPaperPreview: boolean;
+  cmykTransform: LayerTransform | null;
+  displacementScale: number;
+  onSheetClick?: (point: { x: number; y: number }) => void;
+  analysisResult: AnalysisResult | null;
+  issueOverlay: IssueOverlayMode;
+  issueSelection: IssueSelection | null;
+  onSelectIssue: (selection: IssueSelection) => void;
+  // Filled with a function returning the current view as a PNG Data URL
+  screenshotRef?: React.MutableRefObject<(() => string) | null>;
+  lighting: LightingConfig;
+  // Rotated environment of the lighting studio, null while it loads
+  environment: EnvironmentMap | null;
 }
 
 const PrintSimulator: React.FC<SimulatorProps> = ({ 
     cmykUrl, 
-    metalnessMapUrl, 
-    roughnessMapUrl, 
-    clearcoatMapUrl,
+    gamutOverlayUrl,
+    softProofLabel,
+    physicalSize,
+    guides,
+    textureMaps,
     config, 
     aspectRatio,
     exposure,
-    isPaperPreview
+    isPaperPreview,
+    cmykTransform,
+    displacementScale,
+    onSheetClick,
+    analysisResult,
+    issueOverlay,
+    issueSelection,
+    onSelectIssue,
+    screenshotRef,
+    lighting,
+    environment
 }) => {
+  const issues = analysisResult?.issues || [];
+  const issueImageSize = analysisResult?.imageSize || null;
+  // Memoized on the result so unrelated re-renders do not restart the camera move
+  const focusRegion = useMemo(
+    () => selectionRegion(analysisResult?.issues || [], issueSelection),
+    [analysisResult, issueSelection]
+  );
+
   if (!cmykUrl) {
     return (
       <div className="flex items-center justify-center h-full text-gray-500 bg-gray-950">
@@ -161,7 +420,10 @@ const PrintSimulator: React.FC<SimulatorProps> = ({
   }
 
   return (
-    <div className="w-full h-full relative" style={{ backgroundColor: config.backgroundColor }}>
+    <div
+      className={`w-full h-full relative ${onSheetClick ? 'cursor-crosshair' : ''}`}
+      style={{ backgroundColor: config.backgroundColor }}
+    >
       {/* Tone mapping enabled for better contrast */}
       <Canvas 
         shadows 
@@ -169,32 +431,71 @@ const PrintSimulator: React.FC<SimulatorProps> = ({
         gl={{ toneMapping: THREE.ACESFilmicToneMapping, toneMappingExposure: exposure }}
       >
         <SceneUpdater exposure={config.toneMappingExposure || 0.9} />
+        {screenshotRef && <ScreenshotSource captureRef={screenshotRef} />}
         <color attach="background" args={[config.backgroundColor]} />
         
         <OrbitControls makeDefault minPolarAngle={0} maxPolarAngle={Math.PI / 2.2} />
         
-        <Stage environment={null} intensity={0.5} adjustCamera={false}>
+        {/* Lights come from the lighting studio, Stage only places the sheet and its shadow */}
+        <Stage environment={null} intensity={0} adjustCamera={false}>
           <PrintMesh 
             cmykUrl={cmykUrl} 
-            metalnessMapUrl={metalnessMapUrl} 
-            roughnessMapUrl={roughnessMapUrl}
-            clearcoatMapUrl={clearcoatMapUrl}
+            textureMaps={textureMaps}
             config={config}
             aspectRatio={aspectRatio}
             exposure={exposure}
             isPaperPreview={isPaperPreview}
+            cmykTransform={cmykTransform}
+            displacementScale={displacementScale}
+            onSheetClick={onSheetClick}
           />
         </Stage>
+
+        {/* Preflight issues (outside Stage so they share the sheet's world coordinates) */}
+        {issueImageSize && (
+          <group name={ISSUE_OVERLAY_NAME}>
+            <IssueOverlay
+              issues={issues}
+              imageSize={issueImageSize}
+              aspectRatio={aspectRatio}
+              mode={issueOverlay}
+              selection={issueSelection}
+              onSelect={onSelectIssue}
+            />
+          </group>
+        )}
+        {gamutOverlayUrl && (
+          <Suspense fallback={null}>
+            <GamutOverlay url={gamutOverlayUrl} aspectRatio={aspectRatio} />
+          </Suspense>
+        )}
+        {physicalSize && guides && (
+          <SheetGuides physicalSize={physicalSize} bleedMm={guides.bleedMm} safeMm={guides.safeMm} aspectRatio={aspectRatio} />
+        )}
+        <CameraFocus region={focusRegion} imageSize={issueImageSize} aspectRatio={aspectRatio} />
         
         {/* Environment provides reflections and light */}
-        <Environment preset="warehouse" background={false} blur={0.6} />
+        <StudioLighting environment={environment} lighting={lighting} />
       </Canvas>
       
       {/* HUD overlay for material status */}
       <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-md p-2 rounded text-xs text-white pointer-events-none">
-        <div>Разрешение: 4K</div>
+        {physicalSize && (
+          <>
+            <div>Размер: {physicalSize.widthMm.toFixed(1)} × {physicalSize.heightMm.toFixed(1)} мм</div>
+            {guides && guides.bleedMm > 0 && (
+              <div>Обрез: {(physicalSize.widthMm - 2 * guides.bleedMm).toFixed(1)} × {(physicalSize.heightMm - 2 * guides.bleedMm).toFixed(1)} мм</div>
+            )}
+            <div className={physicalSize.dpi < LOW_DPI ? 'text-yellow-400' : ''}>
+              Разрешение: {Math.round(physicalSize.dpi)} dpi ({DPI_SOURCE_LABELS[physicalSize.source]})
+            </div>
+          </>
+        )}
         <div>Материал: {isPaperPreview ? 'Стандартная бумага' : 'Металл + Белила (Композит)'}</div>
-        {clearcoatMapUrl && <div className="text-indigo-300">Вкл: Выборочный лак</div>}
+        <div>Основа: {config.substrate.name}</div>
+        {textureMaps?.clearcoatMap && <div className="text-indigo-300">Вкл: Выборочный лак</div>}
+        {textureMaps?.spotMulMap && <div className="text-indigo-300">Вкл: Смесевые краски</div>}
+        {softProofLabel && <div className="text-indigo-300">Цветопроба: {softProofLabel}</div>}
         <div>Пропорции: {aspectRatio.toFixed(2)}</div>
       </div>
     </div>
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { AlertTriangle, EyeOff, Layers, X } from 'lucide-react';
+import { PsdLayerInfo, PsdLayerRole } from '../types';
+import { SINGLE_LAYER_ROLES } from '../utils/separationUtils';
+
+const ROLE_LABELS: Record<PsdLayerRole, string> = {
+  cmyk: 'Изображение (CMYK)',
+  white: 'Белила',
+  varnish: 'Лак',
+  foil: 'Фольга',
+  emboss: 'Тиснение',
+  spot: 'Смесевая краска',
+  ignore: 'Не использовать'
+};
+
+interface PsdImportDialogProps {
+  fileName: string;
+  layers: PsdLayerInfo[];
+  hasComposite: boolean;
+  onConfirm: (layers: PsdLayerInfo[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the user confirm which PSD layer goes to which slot.
+ * Suggestions that matched several slots (or competed for one) are highlighted.
+ */
+const PsdImportDialog: React.FC<PsdImportDialogProps> = ({ fileName, layers, hasComposite, onConfirm, onCancel }) => {
+  const [roles, setRoles] = useState<PsdLayerRole[]>(() => layers.map(l => l.role));
+
+  const count = (role: PsdLayerRole) => roles.filter(r => r === role).length;
+  const duplicates = SINGLE_LAYER_ROLES.filter(role => count(role) > 1);
+  const missingArtwork = !hasComposite && count('cmyk') === 0;
+  // Without a CMYK layer the merged image is the artwork, and visible technical layers are baked into it
+  const bakedLayers = count('cmyk') === 0
+    ? layers.filter((l, i) => !l.hidden && roles[i] !== 'ignore')
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[80vh] flex flex-col bg-gray-900 border border-gray-700 rounded-lg shadow-xl">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+          <div className="flex items-center gap-2 min-w-0">
+            <Layers size={16} className="text-indigo-400 shrink-0" />
+            <h2 className="text-sm font-semibold text-gray-200 truncate">Слои PSD: {fileName}</h2>
+          </div>
+          <button onClick={onCancel} className="text-gray-500 hover:text-gray-300" title="Отмена">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {layers.map((layer, i) => (
+            <div
+              key={layer.index}
+              className={`flex items-center gap-2 rounded px-2 py-1.5 border ${layer.ambiguous ? 'border-yellow-600/60 bg-yellow-900/20' : 'border-gray-800 bg-gray-800/40'}`}
+            >
+              {layer.ambiguous && (
+                <span title="Назначение не определено однозначно"><AlertTriangle size={12} className="text-yellow-500 shrink-0" /></span>
+              )}
+              {layer.hidden && (
+                <span title="Скрытый слой"><EyeOff size={12} className="text-gray-500 shrink-0" /></span>
+              )}
+              <span className="flex-1 text-xs text-gray-300 truncate" title={layer.name}>{layer.name}</span>
+              <select
+                value={roles[i]}
+                onChange={(e) => setRoles(list => list.map((r, j) => j === i ? e.target.value as PsdLayerRole : r))}
+                className="w-40 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200"
+              >
+                {(Object.keys(ROLE_LABELS) as PsdLayerRole[]).map(role => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-800 space-y-2">
+          {duplicates.map(role => (
+            <p key={role} className="text-xs text-red-400">Слот «{ROLE_LABELS[role]}» назначен нескольким слоям.</p>
+          ))}
+          {missingArtwork && (
+            <p className="text-xs text-red-400">В файле нет сведённого изображения — выберите слой CMYK.</p>
+          )}
+          {!missingArtwork && bakedLayers.length > 0 && (
+            <p className="text-xs text-yellow-500">
+              Изображением станет сведённый композит, в нём видны слои: {bakedLayers.map(l => l.name).join(', ')}.
+              Скройте их в PSD или назначьте слой CMYK.
+            </p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onCancel}
+              className="py-1.5 px-3 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs font-medium transition"
+            >
+              Отмена
+            </button>
+            <button
+              onClick={() => onConfirm(layers.map((l, i) => ({ ...l, role: roles[i], ambiguous: false })))}
+              disabled={duplicates.length > 0 || missingArtwork}
+              className="py-1.5 px-3 rounded bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white text-xs font-medium transition"
+            >
+              Импортировать
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PsdImportDialog;
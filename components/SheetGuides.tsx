@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import { PhysicalSize } from '../types';
+
+// Guides float just above the sheet (and above the issue overlay)
+const GUIDE_HEIGHT = 0.012;
+
+interface GuidesProps {
+  physicalSize: PhysicalSize;
+  bleedMm: number;
+  safeMm: number;
+  aspectRatio: number;
+}
+
+/**
+ * Bleed (sheet edge), trim and safe zone lines. The artwork includes the bleed,
+ * so the trim line is inset by the bleed and the safe line by bleed + safe margin.
+ */
+const SheetGuides: React.FC<GuidesProps> = ({ physicalSize, bleedMm, safeMm, aspectRatio }) => {
+  const guides = useMemo(() => {
+    const unitsPerMm = 10 / physicalSize.widthMm;
+    const halfW = 5;
+    const halfD = 5 / aspectRatio;
+    return [
+      { insetMm: 0, color: '#ef4444', dashed: false },
+      { insetMm: bleedMm, color: '#22d3ee', dashed: false },
+      { insetMm: bleedMm + safeMm, color: '#4ade80', dashed: true }
+    ]
+      .map(({ insetMm, color, dashed }) => {
+        const w = halfW - insetMm * unitsPerMm;
+        const d = halfD - insetMm * unitsPerMm;
+        if (w <= 0 || d <= 0) return null;
+        const points = [[-w, 0, -d], [w, 0, -d], [w, 0, d], [-w, 0, d], [-w, 0, -d]] as [number, number, number][];
+        return { points, color, dashed };
+      })
+      .filter((g): g is NonNullable<typeof g> => !!g);
+  }, [physicalSize.widthMm, bleedMm, safeMm, aspectRatio]);
+
+  return (
+    <group position={[0, GUIDE_HEIGHT, 0]}>
+      {guides.map(({ points, color, dashed }) => (
+        <Line key={color} points={points} color={color} lineWidth={1.5} dashed={dashed} dashSize={0.15} gapSize={0.1} />
+      ))}
+    </group>
+  );
+};
+
+export default SheetGuides;
@@ -0,0 +1,175 @@
+import { AnalysisResult, ChatMessage, EmbossPolarity, FoilType, VarnishType, WhiteScreening } from '../types';
+import { VARNISH_TYPES } from '../utils/varnishUtils';
+
+export type AnalysisLayerRole = 'cmyk' | 'white' | 'varnish' | 'emboss' | 'foil' | 'spot' | 'render';
+
+// One image sent to the model; masks are in file convention (Black = Ink)
+export interface AnalysisLayer {
+  role: AnalysisLayerRole;
+  name: string;
+  image: string;        // Data URL
+  detail?: string;      // E.g. the varnish type
+}
+
+// Job context that the images do not show
+export interface JobSpec {
+  size: { widthMm: number; heightMm: number; dpi: number; dpiFromFile: boolean } | null;
+  bleedMm: number;
+  safeMm: number;
+  substrate: { name: string; metallic: boolean };
+  white: { passes: number; screening: WhiteScreening; screenLpi: number; trap: string } | null;
+  varnishes: { name: string; type: VarnishType }[];
+  foils: { name: string; type: FoilType }[];
+  spots: string[];
+  emboss: { polarity: EmbossPolarity; depthMm: number } | null;
+  press: {
+    minKnockoutWidthMm: number;
+    minLineWidthMm: number;
+    minVarnishWidthMm: number;
+    minWhiteSpeckAreaMm2: number;
+    totalInkLimit: number;
+  };
+}
+
+const describeLayer = (layer: AnalysisLayer): string => {
+  switch (layer.role) {
+    case 'cmyk': return `Цветовая раскладка CMYK (макет) «${layer.name}».`;
+    case 'white': return "Маска белил: чёрные пиксели = печать белилами, белые = нет белил (металл открыт).";
+    case 'varnish': return `Маска лака «${layer.name}»${layer.detail ? ` (${layer.detail})` : ''}: чёрное = лак.`;
+    case 'emboss': return `Штамп тиснения «${layer.name}»: чёрное = рельеф.`;
+    case 'foil': return `Маска фольги «${layer.name}»${layer.detail ? ` (${layer.detail})` : ''}: чёрное = фольга.`;
+    case 'spot': return `Маска смесевой краски «${layer.name}»: чёрное = краска.`;
+    case 'render': return "Снимок текущей 3D-симуляции листа (металл, белила, лак при текущем освещении). Только для наглядности: размеры и цвета по нему не оценивай.";
+  }
+};
+
+const describeJob = (job: JobSpec): string[] => {
+  const lines: string[] = [];
+  if (job.size) {
+    const trimW = job.size.widthMm - 2 * job.bleedMm;
+    const trimH = job.size.heightMm - 2 * job.bleedMm;
+    lines.push(`Размер макета с вылетами: ${job.size.widthMm.toFixed(1)} × ${job.size.heightMm.toFixed(1)} мм, обрезной формат ${trimW.toFixed(1)} × ${trimH.toFixed(1)} мм.`);
+    lines.push(`Разрешение: ${Math.round(job.size.dpi)} dpi${job.size.dpiFromFile ? '' : ' (не указано в файле, принято по умолчанию или по размеру)'}.`);
+  } else {
+    lines.push("Размер макета неизвестен.");
+  }
+  lines.push(`Вылеты: ${job.bleedMm} мм, безопасное поле: ${job.safeMm} мм от линии реза.`);
+  lines.push(`Материал: ${job.substrate.name}${job.substrate.metallic ? ' (металлизированный)' : ' (неметаллизированный)'}.`);
+  if (job.white) {
+    lines.push(`Белила: ${job.white.passes === 2 ? 'два прогона' : 'один прогон'}, ${job.white.screening === 'halftone' ? `растр ${job.white.screenLpi} lpi` : 'плашка'}, треппинг: ${job.white.trap}.`);
+  }
+  if (job.varnishes.length) lines.push(`Лаки: ${job.varnishes.map(v => `«${v.name}» (${VARNISH_TYPES[v.type].label})`).join(', ')}.`);
+  if (job.foils.length) lines.push(`Фольга: ${job.foils.map(f => `«${f.name}» (${f.type === 'hot' ? 'горячая' : 'холодная'})`).join(', ')}.`);
+  if (job.spots.length) lines.push(`Смесевые краски: ${job.spots.map(s => `«${s}»`).join(', ')}.`);
+  if (job.emboss) lines.push(`${job.emboss.polarity === 'deboss' ? 'Дебоссинг' : 'Тиснение'} глубиной ${job.emboss.depthMm} мм.`);
+  const p = job.press;
+  lines.push(`Ограничения печати: выворотка в белилах не уже ${p.minKnockoutWidthMm} мм, линии по металлу не тоньше ${p.minLineWidthMm} мм, элементы лака не меньше ${p.minVarnishWidthMm} мм, точки белил не меньше ${p.minWhiteSpeckAreaMm2} мм², сумма красок не более ${p.totalInkLimit}%.`);
+  return lines;
+};
+
+/**
+ * Prompt for the images in the given order. Missing layers are stated as missing,
+ * together with what that means for the print, so the model does not assume them.
+ */
+export const buildAnalysisPrompt = (layers: AnalysisLayer[], job: JobSpec): string => {
+  const has = (role: AnalysisLayerRole) => layers.some(l => l.role === role);
+  // A flood coat has no mask but is still varnish
+  const hasVarnish = has('varnish') || job.varnishes.length > 0;
+  const missing: string[] = [];
+  if (!has('white')) {
+    missing.push(job.substrate.metallic
+      ? "Маски белил нет: весь макет печатается прямо по металлу, краски CMYK просвечивают. Не оценивай выворотки в белилах — оцени, где печать по металлу без подложки ухудшит читаемость и цвет."
+      : "Маски белил нет, материал неметаллизированный: белила не требуются.");
+  }
+  if (!hasVarnish) missing.push("Лака нет: не давай находок категории varnish, кроме рекомендации добавить лак, если он нужен.");
+  if (!has('render')) missing.push("Снимка 3D-симуляции нет.");
+
+  return [
+    "Ты — старший технолог полиграфического производства, специализирующийся на премиальной упаковке и печати на металлизированном картоне (MetPol).",
+    "",
+    `Изображения (${layers.length}), в этом порядке:`,
+    ...layers.map((layer, i) => `${i + 1}. ${describeLayer(layer)}`),
+    ...(missing.length ? ["", "Чего нет:", ...missing.map(m => `- ${m}`)] : []),
+    "",
+    "Параметры заказа:",
+    ...describeJob(job).map(line => `- ${line}`),
+    "",
+    "Проанализируй эти изображения на предмет технической возможности качественной печати и потенциальных проблем.",
+    "",
+    "На что обратить внимание:",
+    "- Проблемы с вывороткой (knockout) мелкого текста (если белила отсутствуют под мелким текстом, он может быть нечитаем на бликующем металле).",
+    "- Проблемы треппинга и оверпринта.",
+    "- Эффективность контраста (использование чистого металла для бликов против глухих зон с белилами).",
+    "- Риски несовмещения (Registration risks), особенно на тонких элементах.",
+    ...(hasVarnish ? ["- Лак: слишком мелкие элементы, лак по открытому металлу."] : []),
+    "",
+    "Каждую проблему опиши отдельной находкой (findings):",
+    "- category: knockout, trapping, contrast, registration или varnish;",
+    "- severity: error (брак), warning (риск) или info (замечание);",
+    "- message: что не так; fix: как исправить;",
+    "- bbox: область на макете CMYK в долях 0-1000 от ширины и высоты (x, y — левый верхний угол), если проблема локальна.",
+    "В feedback — общие выводы, не повторяющие находки.",
+    "",
+    "Ответ должен быть в формате JSON.",
+    "Все тексты (title, feedback, message, fix) должны быть на РУССКОМ языке."
+  ].join('\n');
+};
+
+// Previous findings, with boxes in the units of the result's image size
+const describeFindings = (findings: AnalysisResult): string[] => {
+  const size = findings.imageSize;
+  const lines = [
+    `«${findings.title}», оценка ${findings.score}/100, ${findings.isCompatible ? 'печать возможна' : 'печать не рекомендуется'}.`,
+    ...findings.feedback
+  ];
+  (findings.issues ?? []).forEach((issue, i) => {
+    const box = issue.regions[0];
+    const where = box && size
+      ? ` [область x=${Math.round(box.x / size.width * 1000)}, y=${Math.round(box.y / size.height * 1000)}, ${Math.round(box.width / size.width * 1000)}×${Math.round(box.height / size.height * 1000)}]`
+      : '';
+    lines.push(`${i + 1}. (${issue.category ?? issue.rule}, ${issue.severity}) ${issue.message}${issue.fix ? ` Решение: ${issue.fix}` : ''}${where}`);
+  });
+  return lines;
+};
+
+/**
+ * Opening context of the follow-up conversation: the same images and job as the
+ * analysis, plus its findings, so questions can refer to them.
+ */
+export const buildChatContext = (layers: AnalysisLayer[], job: JobSpec, findings: AnalysisResult | null): string => [
+  "Ты — старший технолог полиграфического производства, специализирующийся на премиальной упаковке и печати на металлизированном картоне (MetPol). Ты консультируешь по макету, прошедшему анализ.",
+  "",
+  `Изображения (${layers.length}), в этом порядке:`,
+  ...layers.map((layer, i) => `${i + 1}. ${describeLayer(layer)}`),
+  "",
+  "Параметры заказа:",
+  ...describeJob(job).map(line => `- ${line}`),
+  "",
+  ...(findings
+    ? ["Результаты анализа (координаты в долях 0-1000 от ширины и высоты макета):", ...describeFindings(findings)]
+    : ["Анализ ещё не запускался."]),
+  "",
+  "Отвечай кратко и конкретно, с числами (мм, пт, %), на РУССКОМ языке, обычным текстом без JSON."
+].join('\n');
+
+// A user question with the picked point spelled out for the model
+const formatChatMessage = (message: ChatMessage): string =>
+  message.point
+    ? `${message.text}\n[Пользователь указал точку на макете: x=${Math.round(message.point.x * 1000)}, y=${Math.round(message.point.y * 1000)} (0-1000)]`
+    : message.text;
+
+/**
+ * Transcript as alternating turns: failed answers are dropped and consecutive
+ * turns of the same role merged, which some backends require.
+ */
+export const chatTurns = (messages: ChatMessage[]): { role: 'user' | 'assistant'; text: string }[] => {
+  const turns: { role: 'user' | 'assistant'; text: string }[] = [];
+  messages.forEach(message => {
+    if (message.failure) return;
+    const text = message.role === 'user' ? formatChatMessage(message) : message.text;
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) last.text += `\n\n${text}`;
+    else turns.push({ role: message.role, text });
+  });
+  return turns;
+};
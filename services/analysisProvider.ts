@@ -0,0 +1,290 @@
+import { AnalysisErrorKind, AnalysisFailure, AnalysisIssue, AnalysisProviderSettings, AnalysisResult, ChatMessage, FindingCategory, ImageRegion, IssueSeverity } from '../types';
+import { AnalysisLayer, JobSpec } from './analysisPrompt';
+
+// Every uploaded layer (plus the render) in the order they are sent, and the job context
+export interface AnalysisRequest {
+  layers: AnalysisLayer[];
+  job: JobSpec;
+}
+
+// A follow-up conversation: the same context, the findings so far and the transcript
+export interface ChatRequest extends AnalysisRequest {
+  findings: AnalysisResult | null;
+  messages: ChatMessage[];
+}
+
+/**
+ * A backend that turns the layout images into an AnalysisResult and answers
+ * follow-up questions. Implementations throw AnalysisError and stop when the
+ * signal is aborted.
+ */
+export interface AnalysisProvider {
+  label: string;
+  analyze: (request: AnalysisRequest, signal: AbortSignal) => Promise<AnalysisResult>;
+  // Streams the answer to the last message; resolves with the full text
+  chat: (request: ChatRequest, signal: AbortSignal, onDelta: (delta: string) => void) => Promise<string>;
+}
+
+export class AnalysisError extends Error {
+  kind: AnalysisErrorKind;
+
+  constructor(kind: AnalysisErrorKind, message: string) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.kind = kind;
+  }
+
+  // Worth another attempt: the request itself may be fine
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout' || this.kind === 'rateLimit' || this.kind === 'http';
+  }
+}
+
+// HTTP status -> error kind (4xx other than 408 / 429 will not get better on retry)
+export const httpError = (status: number, message: string): AnalysisError => {
+  if (status === 429) return new AnalysisError('rateLimit', message);
+  if (status === 408 || status >= 500) return new AnalysisError('http', message);
+  return new AnalysisError(status === 401 || status === 403 ? 'config' : 'invalidResponse', message);
+};
+
+export const FINDING_CATEGORIES: FindingCategory[] = ['knockout', 'trapping', 'contrast', 'registration', 'varnish'];
+const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'info'];
+
+// Finding boxes are relative to the image: 0-1000 on both axes
+export const FINDING_BOX_SCALE = 1000;
+
+// JSON Schema of the expected answer, for providers that accept one
+export const ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    feedback: { type: 'array', items: { type: 'string' } },
+    score: { type: 'integer', description: "Оценка от 0 до 100, указывающая на технологичность макета." },
+    isCompatible: { type: 'boolean' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: FINDING_CATEGORIES },
+          severity: { type: 'string', enum: SEVERITIES },
+          message: { type: 'string' },
+          fix: { type: 'string' },
+          bbox: {
+            type: 'object',
+            description: "Область на макете, 0-1000 от ширины и высоты",
+            properties: {
+              x: { type: 'number' },
+              y: { type: 'number' },
+              width: { type: 'number' },
+              height: { type: 'number' }
+            },
+            required: ['x', 'y', 'width', 'height']
+          }
+        },
+        required: ['category', 'severity', 'message', 'fix']
+      }
+    }
+  },
+  required: ['title', 'feedback', 'score', 'isCompatible', 'findings']
+};
+
+// Mime type and raw base64 of a data URL
+export const dataUrlParts = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = /^data:([^;,]+)?(?:;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) throw new AnalysisError('config', "Изображение не в формате data URL");
+  return { mimeType: match[1] || 'image/png', data: match[2] };
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
+// Box clamped to the image; degenerate boxes are dropped
+const parseBox = (v: unknown): ImageRegion | null => {
+  if (!isRecord(v) || ![v.x, v.y, v.width, v.height].every(n => typeof n === 'number' && isFinite(n))) return null;
+  const clamp = (n: number) => Math.min(FINDING_BOX_SCALE, Math.max(0, n));
+  const x = clamp(v.x as number), y = clamp(v.y as number);
+  const width = clamp((v.x as number) + (v.width as number)) - x;
+  const height = clamp((v.y as number) + (v.height as number)) - y;
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+};
+
+const parseFinding = (v: unknown, index: number): AnalysisIssue => {
+  if (
+    !isRecord(v) || typeof v.message !== 'string' ||
+    !FINDING_CATEGORIES.includes(v.category as FindingCategory) || !SEVERITIES.includes(v.severity as IssueSeverity)
+  ) {
+    throw new AnalysisError('invalidResponse', `Находка ${index + 1} не соответствует схеме`);
+  }
+  const box = parseBox(v.bbox);
+  return {
+    rule: `ai-${v.category}`,
+    category: v.category as FindingCategory,
+    severity: v.severity as IssueSeverity,
+    message: v.message,
+    fix: typeof v.fix === 'string' && v.fix ? v.fix : undefined,
+    regions: box ? [box] : []
+  };
+};
+
+/**
+ * Validates a model answer. Anything that does not match the schema is an error,
+ * never a result with made-up values. Findings become issues with regions in
+ * FINDING_BOX_SCALE units.
+ */
+export const parseAnalysisResult = (text: string | undefined | null): AnalysisResult => {
+  if (!text) throw new AnalysisError('invalidResponse', "Пустой ответ модели");
+  let value: unknown;
+  try {
+    // Some models wrap JSON in a Markdown code block
+    value = JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch {
+    throw new AnalysisError('invalidResponse', "Ответ модели не является JSON");
+  }
+  const r = value as (Partial<AnalysisResult> & { findings?: unknown }) | null;
+  if (
+    !r || typeof r.title !== 'string' || typeof r.score !== 'number' || typeof r.isCompatible !== 'boolean' ||
+    !Array.isArray(r.feedback) || !r.feedback.every(f => typeof f === 'string') ||
+    (r.findings !== undefined && !Array.isArray(r.findings))
+  ) {
+    throw new AnalysisError('invalidResponse', "Ответ модели не соответствует схеме");
+  }
+  const findings = Array.isArray(r.findings) ? r.findings : [];
+  return {
+    title: r.title,
+    feedback: r.feedback,
+    score: Math.min(100, Math.max(0, Math.round(r.score))),
+    isCompatible: r.isCompatible,
+    issues: findings.map(parseFinding),
+    imageSize: { width: FINDING_BOX_SCALE, height: FINDING_BOX_SCALE }
+  };
+};
+
+export const DEFAULT_ANALYSIS_PROVIDER: AnalysisProviderSettings = {
+  kind: 'gemini',
+  model: 'gemini-2.5-flash',
+  baseUrl: 'http://localhost:8000/v1',
+  apiKey: '',
+  timeoutSec: 60,
+  retries: 2
+};
+
+// Backoff before retry n (1-based), doubled each time
+const RETRY_DELAY_MS = 1000;
+
+const delay = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) {
+    reject(new AnalysisError('cancelled', "Анализ отменён"));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AnalysisError('cancelled', "Анализ отменён"));
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+const toAnalysisError = (e: unknown): AnalysisError => {
+  if (e instanceof AnalysisError) return e;
+  if (e instanceof TypeError) return new AnalysisError('network', `Нет связи с сервисом: ${e.message}`);
+  return new AnalysisError('network', e instanceof Error ? e.message : String(e));
+};
+
+export type ProviderOutcome<T> =
+  | { type: 'result'; result: T; attempts: number }
+  | { type: 'failure'; failure: AnalysisFailure };
+
+export type AnalysisOutcome = ProviderOutcome<AnalysisResult>;
+
+interface AttemptOptions {
+  timeoutSec: number;
+  retries: number;
+  signal: AbortSignal;
+}
+
+/**
+ * Runs a provider call with a timeout per attempt and retries on retryable errors.
+ * The timeout restarts whenever the call reports progress (a streamed chunk).
+ * canRetry is asked before each retry. Failures are returned, not thrown.
+ */
+const withAttempts = async <T>(
+  label: string,
+  options: AttemptOptions,
+  call: (signal: AbortSignal, progress: () => void) => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<ProviderOutcome<T>> => {
+  const { signal } = options;
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+    const attempt = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        attempt.abort();
+      }, options.timeoutSec * 1000);
+    };
+    restartTimer();
+    const onAbort = () => attempt.abort();
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      if (signal.aborted) throw new AnalysisError('cancelled', "Анализ отменён");
+      const result = await call(attempt.signal, restartTimer);
+      return { type: 'result', result, attempts };
+    } catch (e) {
+      const error = signal.aborted ? new AnalysisError('cancelled', "Анализ отменён")
+        : timedOut ? new AnalysisError('timeout', `Нет ответа за ${options.timeoutSec} с`)
+        : toAnalysisError(e);
+      if (!error.retryable || attempts > options.retries || !canRetry()) {
+        return { type: 'failure', failure: { kind: error.kind, message: error.message, provider: label, attempts } };
+      }
+      console.warn(`${label}: attempt ${attempts} failed, retrying`, error);
+      clearTimeout(timer);
+      try {
+        await delay(RETRY_DELAY_MS * 2 ** (attempts - 1), signal);
+      } catch {
+        return { type: 'failure', failure: { kind: 'cancelled', message: "Анализ отменён", provider: label, attempts } };
+      }
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+};
+
+/**
+ * Runs the one-shot layout analysis.
+ */
+export const runAnalysis = (provider: AnalysisProvider, request: AnalysisRequest, options: AttemptOptions): Promise<AnalysisOutcome> =>
+  withAttempts(provider.label, options, signal => provider.analyze(request, signal));
+
+/**
+ * Runs a follow-up chat turn, streaming the answer into onText (the full text so far).
+ * Timeouts count from the last received chunk; once text has arrived nothing is retried,
+ * so the user never sees an answer restart.
+ */
+export const runChat = (
+  provider: AnalysisProvider,
+  request: ChatRequest,
+  options: AttemptOptions,
+  onText: (text: string) => void
+): Promise<ProviderOutcome<string>> => {
+  let received = false;
+  return withAttempts(provider.label, options, (signal, progress) => {
+    let text = '';
+    return provider.chat(request, signal, delta => {
+      received = true;
+      text += delta;
+      progress();
+      onText(text);
+    });
+  }, () => !received);
+};
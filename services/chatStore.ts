@@ -0,0 +1,27 @@
+import { ChatMessage } from '../types';
+
+const STORAGE_PREFIX = 'metalprint.chat.';
+
+/**
+ * Follow-up transcripts saved in the browser (local storage), one per job,
+ * keyed by the artwork file name.
+ */
+export const loadChat = (job: string): ChatMessage[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + job);
+    const list = raw ? JSON.parse(raw) : [];
+    return Array.isArray(list) ? list : [];
+  } catch (e) {
+    console.error("Failed to read chat transcript", e);
+    return [];
+  }
+};
+
+export const saveChat = (job: string, messages: ChatMessage[]) => {
+  try {
+    if (messages.length) localStorage.setItem(STORAGE_PREFIX + job, JSON.stringify(messages));
+    else localStorage.removeItem(STORAGE_PREFIX + job);
+  } catch (e) {
+    console.error("Failed to save chat transcript", e);
+  }
+};
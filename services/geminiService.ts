@@ -1,84 +1,78 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult } from '../types';
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { AnalysisProvider, AnalysisError, ANALYSIS_JSON_SCHEMA, dataUrlParts, httpError, parseAnalysisResult } from './analysisProvider';
+import { buildAnalysisPrompt, buildChatContext, chatTurns } from './analysisPrompt';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Google Gemini. The client is created per provider, so a key entered in the app
+ * replaces the one baked in at build time.
+ */
+export const createGeminiProvider = (options: { apiKey: string; model: string }): AnalysisProvider => {
+  const apiKey = options.apiKey || process.env.API_KEY;
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
 
-export const analyzePrintFeasibility = async (
-  cmykBase64: string,
-  whiteBase64: string
-): Promise<AnalysisResult> => {
-  try {
-    const prompt = `
-      Ты — старший технолог полиграфического производства, специализирующийся на премиальной упаковке и печати на металлизированном картоне (MetPol).
-      
-      Я предоставил два изображения:
-      1. Цветовая раскладка CMYK (Макет).
-      2. Маска белил (White Ink Mask): Черные пиксели = Печать белилами, Белые пиксели = Нет белил (Металл открыт).
+  return {
+    label: `Gemini (${options.model})`,
+    analyze: async (request, signal) => {
+      if (!ai) throw new AnalysisError('config', "Не задан ключ Gemini API");
 
-      Проанализируй эти изображения на предмет технической возможности качественной печати и потенциальных проблем.
-      
-      На что обратить внимание:
-      - Проблемы с вывороткой (knockout) мелкого текста (если белила отсутствуют под мелким текстом, он может быть нечитаем на бликующем металле).
-      - Проблемы треппинга и оверпринта.
-      - Эффективность контраста (использование чистого металла для бликов против глухих зон с белилами).
-      - Риски несовмещения (Registration risks), особенно на тонких элементах.
-
-      Ответ должен быть в формате JSON.
-      Все тексты (title, feedback) должны быть на РУССКОМ языке.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          { text: prompt },
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: cmykBase64.split(',')[1] // Remove data:image/png;base64, prefix
-            }
+      let response;
+      try {
+        response = await ai.models.generateContent({
+          model: options.model,
+          contents: {
+            parts: [
+              { text: buildAnalysisPrompt(request.layers, request.job) },
+              ...request.layers.map(layer => ({ inlineData: dataUrlParts(layer.image) }))
+            ]
           },
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: whiteBase64.split(',')[1]
-            }
+          config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseJsonSchema: ANALYSIS_JSON_SCHEMA
           }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            feedback: { 
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            },
-            score: { 
-              type: Type.INTEGER, 
-              description: "Оценка от 0 до 100, указывающая на технологичность макета." 
+        });
+      } catch (e) {
+        if (e instanceof ApiError) throw httpError(e.status, `Gemini: ${e.message}`);
+        throw e;
+      }
+
+      return parseAnalysisResult(response.text);
+    },
+    chat: async (request, signal, onDelta) => {
+      if (!ai) throw new AnalysisError('config', "Не задан ключ Gemini API");
+
+      let text = '';
+      try {
+        const stream = await ai.models.generateContentStream({
+          model: options.model,
+          contents: [
+            {
+              role: 'user',
+              parts: [
+                { text: buildChatContext(request.layers, request.job, request.findings) },
+                ...request.layers.map(layer => ({ inlineData: dataUrlParts(layer.image) }))
+              ]
             },
-            isCompatible: { type: Type.BOOLEAN }
-          },
-          required: ["title", "feedback", "score", "isCompatible"]
+            { role: 'model', parts: [{ text: "Контекст макета получен." }] },
+            ...chatTurns(request.messages).map(turn => ({
+              role: turn.role === 'assistant' ? 'model' : 'user',
+              parts: [{ text: turn.text }]
+            }))
+          ],
+          config: { abortSignal: signal }
+        });
+        for await (const chunk of stream) {
+          if (!chunk.text) continue;
+          text += chunk.text;
+          onDelta(chunk.text);
         }
+      } catch (e) {
+        if (e instanceof ApiError) throw httpError(e.status, `Gemini: ${e.message}`);
+        throw e;
       }
-    });
-
-    const resultText = response.text;
-    if (!resultText) throw new Error("Нет ответа от AI");
-    
-    return JSON.parse(resultText) as AnalysisResult;
 
-  } catch (error) {
-    console.error("Gemini Analysis Failed", error);
-    return {
-      title: "Ошибка анализа",
-      feedback: ["Произошла ошибка при связи с сервисом AI."],
-      score: 0,
-      isCompatible: false
-    };
-  }
-};
\ No newline at end of file
+      if (!text) throw new AnalysisError('invalidResponse', "Пустой ответ модели");
+      return text;
+    }
+  };
+};
@@ -0,0 +1,96 @@
+import { AnalysisProvider, AnalysisError, ANALYSIS_JSON_SCHEMA, httpError, parseAnalysisResult } from './analysisProvider';
+import { buildAnalysisPrompt, buildChatContext, chatTurns } from './analysisPrompt';
+
+/**
+ * Any server speaking the OpenAI chat completions API with image input
+ * (vLLM, llama.cpp server, Ollama, LM Studio, ...).
+ */
+export const createOpenAiProvider = (options: { baseUrl: string; apiKey: string; model: string }): AnalysisProvider => {
+  const post = async (body: object, signal: AbortSignal): Promise<Response> => {
+    if (!options.baseUrl) throw new AnalysisError('config', "Не задан адрес сервера");
+    if (!options.model) throw new AnalysisError('config', "Не задана модель");
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) headers.Authorization = `Bearer ${options.apiKey}`;
+
+    const response = await fetch(`${options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({ model: options.model, ...body })
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200);
+      throw httpError(response.status, `HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return response;
+  };
+
+  return {
+    label: `OpenAI-совместимый (${options.model})`,
+    analyze: async (request, signal) => {
+      const response = await post({
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: buildAnalysisPrompt(request.layers, request.job) },
+            ...request.layers.map(layer => ({ type: 'image_url', image_url: { url: layer.image } }))
+          ]
+        }],
+        response_format: { type: 'json_schema', json_schema: { name: 'analysis', schema: ANALYSIS_JSON_SCHEMA } }
+      }, signal);
+      const body = await response.json().catch(() => null);
+      return parseAnalysisResult(body?.choices?.[0]?.message?.content);
+    },
+    chat: async (request, signal, onDelta) => {
+      const response = await post({
+        stream: true,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: buildChatContext(request.layers, request.job, request.findings) },
+              ...request.layers.map(layer => ({ type: 'image_url', image_url: { url: layer.image } }))
+            ]
+          },
+          { role: 'assistant', content: "Контекст макета получен." },
+          ...chatTurns(request.messages).map(turn => ({ role: turn.role, content: turn.text }))
+        ]
+      }, signal);
+      if (!response.body) throw new AnalysisError('invalidResponse', "Сервер не поддерживает потоковый ответ");
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+          const payload = data.slice(5).trim();
+          if (payload === '[DONE]') return text;
+          let chunk;
+          try {
+            chunk = JSON.parse(payload);
+          } catch {
+            throw new AnalysisError('invalidResponse', "Поток ответа повреждён");
+          }
+          const delta = chunk?.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta) {
+            text += delta;
+            onDelta(delta);
+          }
+        }
+      }
+      if (!text) throw new AnalysisError('invalidResponse', "Пустой ответ модели");
+      return text;
+    }
+  };
+};
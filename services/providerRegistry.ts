@@ -0,0 +1,46 @@
+import { AnalysisProviderKind, AnalysisProviderSettings } from '../types';
+import { AnalysisProvider, DEFAULT_ANALYSIS_PROVIDER } from './analysisProvider';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAiProvider } from './openAiProvider';
+import { createStubProvider } from './stubProvider';
+
+const STORAGE_KEY = 'metalprint.analysisProvider';
+const API_KEY_STORAGE_KEY = 'metalprint.analysisProvider.apiKey';
+
+export const PROVIDER_KINDS: { kind: AnalysisProviderKind; label: string; defaultModel: string }[] = [
+  { kind: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+  { kind: 'openai', label: 'OpenAI-совместимый сервер', defaultModel: 'qwen2.5-vl-7b-instruct' },
+  { kind: 'stub', label: 'Заглушка (офлайн)', defaultModel: '' }
+];
+
+export const createAnalysisProvider = (settings: AnalysisProviderSettings): AnalysisProvider => {
+  if (settings.kind === 'openai') return createOpenAiProvider(settings);
+  if (settings.kind === 'stub') return createStubProvider();
+  return createGeminiProvider(settings);
+};
+
+/**
+ * Provider settings saved in the browser (local storage). The API key only goes to
+ * session storage, so it is not kept once the tab is closed.
+ */
+export const loadProviderSettings = (): AnalysisProviderSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const settings = raw ? { ...DEFAULT_ANALYSIS_PROVIDER, ...JSON.parse(raw) } : DEFAULT_ANALYSIS_PROVIDER;
+    return { ...settings, apiKey: sessionStorage.getItem(API_KEY_STORAGE_KEY) || '' };
+  } catch (e) {
+    console.error("Failed to read analysis provider settings", e);
+    return DEFAULT_ANALYSIS_PROVIDER;
+  }
+};
+
+export const saveProviderSettings = (settings: AnalysisProviderSettings) => {
+  try {
+    const { apiKey, ...rest } = settings;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rest));
+    if (apiKey) sessionStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+    else sessionStorage.removeItem(API_KEY_STORAGE_KEY);
+  } catch (e) {
+    console.error("Failed to save analysis provider settings", e);
+  }
+};
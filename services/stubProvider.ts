@@ -0,0 +1,82 @@
+import { AnalysisErrorKind } from '../types';
+import { AnalysisProvider, AnalysisError, FINDING_BOX_SCALE } from './analysisProvider';
+
+/**
+ * Offline provider with a fixed answer, for tests and work without network.
+ * `fail` makes every call throw that error kind; `delayMs` simulates latency.
+ */
+export const createStubProvider = (options: { delayMs?: number; fail?: AnalysisErrorKind } = {}): AnalysisProvider => ({
+  label: 'Заглушка (офлайн)',
+  analyze: (request, signal) => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      if (options.fail) {
+        reject(new AnalysisError(options.fail, `Заглушка: ошибка «${options.fail}»`));
+        return;
+      }
+      resolve({
+        title: "Тестовый ответ (заглушка)",
+        feedback: [
+          "Это ответ офлайн-заглушки, макет не анализировался.",
+          `Получено изображений: ${request.layers.length} (${request.layers.map(l => l.role).join(', ')}).`
+        ],
+        score: 50,
+        isCompatible: true,
+        issues: [
+          {
+            rule: 'ai-knockout',
+            category: 'knockout',
+            severity: 'warning',
+            message: "Пример находки: мелкий текст по открытому металлу.",
+            fix: "Подложите белила под текст или увеличьте кегль.",
+            regions: [{ x: 400, y: 400, width: 200, height: 100 }]
+          },
+          {
+            rule: 'ai-registration',
+            category: 'registration',
+            severity: 'info',
+            message: "Пример находки без области: проверьте совмещение белил и CMYK.",
+            regions: []
+          }
+        ],
+        imageSize: { width: FINDING_BOX_SCALE, height: FINDING_BOX_SCALE }
+      });
+    }, options.delayMs ?? 300);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AnalysisError('cancelled', "Анализ отменён"));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  }),
+  // Streams a canned answer word by word
+  chat: (request, signal, onDelta) => new Promise((resolve, reject) => {
+    const last = request.messages[request.messages.length - 1];
+    const answer = [
+      "Это ответ офлайн-заглушки, макет не анализировался.",
+      `Вопрос: «${last?.text ?? ''}»${last?.point ? `, точка x=${Math.round(last.point.x * 1000)}, y=${Math.round(last.point.y * 1000)}` : ''}.`,
+      `В контексте ${request.layers.length} изображений и ${request.findings?.issues?.length ?? 0} находок.`
+    ].join(' ');
+    const words = answer.split(/(?<= )/);
+    let index = 0;
+    const timer = setInterval(() => {
+      if (options.fail) {
+        stop();
+        reject(new AnalysisError(options.fail, `Заглушка: ошибка «${options.fail}»`));
+        return;
+      }
+      onDelta(words[index++]);
+      if (index < words.length) return;
+      stop();
+      resolve(answer);
+    }, Math.max(10, (options.delayMs ?? 300) / 10));
+    const stop = () => {
+      clearInterval(timer);
+      signal.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      stop();
+      reject(new AnalysisError('cancelled', "Анализ отменён"));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  })
+});
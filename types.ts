@@ -1,3 +1,28 @@
+export type MicroTextureKind = 'none' | 'brushed' | 'grain' | 'paper';
+
+// Diffraction grating layout of holographic stocks
+export type HologramPattern = 'none' | 'linear' | 'radial' | 'pillar';
+
+// Printing stock (board or film) the sheet is printed on
+export interface Substrate {
+  id: string;
+  name: string;
+  custom?: boolean;
+  // Metallic stocks reflect like metal where no white ink is printed
+  metallic: boolean;
+  tint: string;          // Hex colour of the bare stock
+  reflectivity: number;  // 0-1, scales the tint
+  baseRoughness: number; // 0-1
+  anisotropy: number;    // 0-1, brushed highlight stretch
+  brushDirectionDeg: number;
+  iridescence: number;   // 0-1, thin-film rainbow
+  microTexture: MicroTextureKind;
+  microStrength: number; // 0-1, roughness variation
+  microScale: number;    // Texture repeats across the sheet width
+  hologram: HologramPattern;
+  gratingDensity: number;   // Lines per mm
+  hologramStrength: number; // 0-1
+}
 
 export interface PrintConfig {
   metalness: number;
@@ -11,6 +36,33 @@ export interface PrintConfig {
   backgroundColor: string;
   // Controls the visual thickness (bump) of the spot varnish
   varnishBump?: number;
+  // 0-1, how much process ink printed straight on metal lets the metal shine through
+  inkTransparency: number;
+  substrate: Substrate;
+}
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+// Axis-aligned box in artwork pixel coordinates (origin top-left)
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Optional outline inside the box, same coordinates
+  polygon?: { x: number; y: number }[];
+}
+
+// What a finding is about (AI findings always have one, preflight rules where it applies)
+export type FindingCategory = 'knockout' | 'trapping' | 'contrast' | 'registration' | 'varnish';
+
+export interface AnalysisIssue {
+  rule: string;
+  severity: IssueSeverity;
+  message: string;
+  regions: ImageRegion[];
+  category?: FindingCategory;
+  fix?: string;         // Suggested correction
 }
 
 export interface AnalysisResult {
@@ -18,6 +70,157 @@ export interface AnalysisResult {
   feedback: string[];
   score: number;
   isCompatible: boolean;
+  // Detailed issues (local preflight rules or structured AI findings)
+  issues?: AnalysisIssue[];
+  // Pixel size of the image the issue regions refer to
+  imageSize?: { width: number; height: number };
+}
+
+// AI analysis backends: Google Gemini, a self-hosted OpenAI-compatible endpoint, or the offline stub
+export type AnalysisProviderKind = 'gemini' | 'openai' | 'stub';
+
+export interface AnalysisProviderSettings {
+  kind: AnalysisProviderKind;
+  model: string;
+  baseUrl: string;      // OpenAI-compatible endpoint, e.g. http://localhost:8000/v1
+  apiKey: string;       // Empty = the build-time key (Gemini) or no key
+  timeoutSec: number;   // Per attempt
+  retries: number;      // Extra attempts after a retryable failure
+}
+
+export type AnalysisErrorKind = 'config' | 'network' | 'timeout' | 'http' | 'rateLimit' | 'invalidResponse' | 'cancelled';
+
+// A failed analysis, shown as such instead of a result
+export interface AnalysisFailure {
+  kind: AnalysisErrorKind;
+  message: string;
+  provider: string;
+  attempts: number;
+}
+
+// One turn of the follow-up conversation about the analysed layout
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  createdAt: number;
+  // Point picked on the sheet, 0-1 of the artwork width and height (origin top-left)
+  point?: { x: number; y: number };
+  // The answer failed; text holds what was received before the failure
+  failure?: AnalysisFailure;
+}
+
+export type AnalysisRunSource = 'ai' | 'local';
+
+// What a run was checked against, to tell a fixed layout from changed settings
+export interface AnalysisRunSettings {
+  provider: string | null;  // AI provider label, null for the local preflight
+  preflight: PreflightOptions;
+  totalInkLimit: number;
+  substrate: string;
+  dpi: number;
+}
+
+// One analysis run kept in the history
+export interface AnalysisRun {
+  id: string;
+  createdAt: number;
+  source: AnalysisRunSource;
+  artworkName: string;
+  result: AnalysisResult;
+  // Small previews of the layers the run looked at (Data URLs)
+  thumbnails: { name: string; image: string }[];
+  settings: AnalysisRunSettings;
+}
+
+// Issue of one run with the regions the other run does not have (all of them for a
+// region-less issue); regions are in the units of the run's imageSize
+export interface IssueChange {
+  issue: AnalysisIssue;
+  regions: ImageRegion[];
+}
+
+export interface RunComparison {
+  scoreDelta: number;
+  fixed: IssueChange[];       // Only in the earlier run
+  introduced: IssueChange[];  // Only in the later run
+  unchanged: number;          // Findings present in both
+}
+
+// Issue (and optionally one of its regions) picked in the list or on the sheet
+export interface IssueSelection {
+  issue: number;
+  region: number | null;
+}
+
+export type IssueOverlayMode = 'markers' | 'heatmap' | 'off';
+
+// Press limits for the local preflight (mm are converted with the job resolution)
+export interface PreflightOptions {
+  minKnockoutWidthMm: number;
+  minLineWidthMm: number;
+  minVarnishWidthMm: number;
+  minWhiteSpeckAreaMm2: number;
+}
+
+// Physical job size: from the resolution stored in the file, or a width entered by hand
+export type PrintSizeMode = 'auto' | 'manual';
+
+export interface PrintSizeConfig {
+  mode: PrintSizeMode;
+  widthMm: number;      // Manual width of the artwork incl. bleed; the height follows the aspect ratio
+  bleedMm: number;      // Artwork beyond the trim line on every side
+  safeMm: number;       // Safe zone inside the trim line
+  showGuides: boolean;
+}
+
+export interface PhysicalSize {
+  widthMm: number;
+  heightMm: number;
+  dpi: number;          // Effective resolution of the artwork
+  source: 'file' | 'manual' | 'default';
+}
+
+// Coverage report of the plates and the ink consumption estimate
+export type CoverageKind = 'process' | 'white' | 'varnish' | 'spot' | 'foil' | 'metal';
+
+export interface CoverageEntry {
+  name: string;
+  kind: CoverageKind;
+  coverage: number;     // Mean tone value over the sheet, 0-1
+}
+
+export interface CoverageReport {
+  // Source of the CMYK channels: the separated file, the press ICC profile, or a plain RGB estimate
+  cmykSource: 'separation' | 'profile' | 'estimate' | null;
+  entries: CoverageEntry[];
+  // Total area coverage (CMYK sum, %) and the hot spots above the limit, in artwork pixels
+  tac: {
+    mean: number;
+    max: number;
+    limit: number;
+    overLimit: number;  // Share of the sheet, 0-1
+    hotSpots: ImageRegion[];
+    imageSize: { width: number; height: number };
+  } | null;
+}
+
+// Ink lay-down at 100 % coverage, g/m²
+export interface InkRates {
+  process: number;      // Per CMYK channel
+  white: number;        // Per pass
+  varnish: number;
+  spot: number;
+}
+
+export interface ConsumptionConfig {
+  rates: InkRates;
+  runLength: number;    // Sheets
+}
+
+export interface ConsumptionRow extends CoverageEntry {
+  gramsPerSheet: number | null;  // null for layers without ink (foil, bare metal)
+  gramsPerRun: number | null;
 }
 
 export enum TabView {
@@ -25,3 +228,211 @@ export enum TabView {
   SETTINGS = 'SETTINGS',
   ANALYSIS = 'ANALYSIS'
 }
+
+// Misregistration of one printed layer relative to the sheet
+export interface LayerRegistration {
+  offsetXUm: number;
+  offsetYUm: number;
+  rotationDeg: number; // Positive = clockwise
+  scalePct: number;    // Paper stretch, 0 = nominal size
+}
+
+export type RegistrationLayer = 'cmyk' | 'white' | 'varnish';
+
+export interface RegistrationConfig {
+  layers: Record<RegistrationLayer, LayerRegistration>;
+  // Random-walk "press wobble" on top of the fixed offsets
+  wobble: boolean;
+  wobbleAmplitudeUm: number;
+}
+
+// Choke (shrink) or spread (grow) of the white ink mask
+export type TrapMode = 'none' | 'choke' | 'spread';
+
+export interface TrapConfig {
+  mode: TrapMode;
+  amount: number;
+  unit: 'mm' | 'px';
+  // Before/after comparison: render the uploaded mask without trapping
+  showOriginal: boolean;
+}
+
+export type VarnishType = 'gloss' | 'matte' | 'softTouch' | 'raised' | 'flood';
+
+export interface VarnishLayer {
+  id: string;
+  name: string;
+  type: VarnishType;
+}
+
+// Hot foil is stamped after printing, cold foil is laid inline before CMYK
+export type FoilType = 'hot' | 'cold';
+
+export interface FoilLayer {
+  id: string;
+  name: string;       // Mask file name
+  type: FoilType;
+  color: string;      // Hex colour of the foil
+  roughness: number;  // 0-1
+  holographic: boolean;
+}
+
+// Spot (Pantone) ink printed over opaque white, or directly on the metal
+export type SpotBase = 'white' | 'metal';
+
+export interface SpotColorLayer {
+  id: string;
+  name: string;       // Mask file name
+  colorMode: 'srgb' | 'lab';
+  color: string;      // Hex colour (used in sRGB mode)
+  lab: [number, number, number]; // CIELAB D50 (used in Lab mode)
+  opacity: number;    // 0 = fully transparent ink, 1 = opaque
+  base: SpotBase;
+}
+
+// CMYK to RGB for display: plain subtractive formula, or a press model (coated stock)
+export type CmykConversionMode = 'naive' | 'press';
+
+export interface CmykConversion {
+  mode: CmykConversionMode;
+  dotGain: number;    // Tone value increase at 50%, in %
+}
+
+// Where an extra channel of a separated file goes
+export type ChannelRole = 'white' | 'varnish' | 'spot' | 'ignore';
+
+// Slot a PSD layer is imported into
+export type PsdLayerRole = 'cmyk' | 'white' | 'varnish' | 'foil' | 'emboss' | 'spot' | 'ignore';
+
+// PSD layer with the suggested slot (ambiguous suggestions need a confirmation)
+export interface PsdLayerInfo {
+  index: number;
+  name: string;
+  hidden: boolean;
+  role: PsdLayerRole;
+  ambiguous: boolean;
+}
+
+// ICC soft proof: the press profile converts the artwork, the output profile (sRGB by default) shows it
+export type ProofProfileSlot = 'press' | 'output';
+
+export interface ProofProfileInfo {
+  fileName: string;
+  description: string;
+  colorSpace: string;
+}
+
+export interface SoftProofOptions {
+  enabled: boolean;       // Show the proofed colours on the sheet
+  paperWhite: boolean;    // Absolute colorimetric: simulate the paper white of the press profile
+  gamutWarning: boolean;  // Overlay of out-of-gamut and over-limit pixels
+  totalInkLimit: number;  // Total area coverage limit, %
+}
+
+export interface ProofStats {
+  separated: boolean;     // CMYK artwork: always inside the press gamut, only the ink limit applies
+  outOfGamut: number;     // Share of pixels, 0-1
+  overInkLimit: number;   // Share of pixels, 0-1
+  maxInk: number;         // Highest total coverage, %
+}
+
+// Extra channel of an imported separation, as a mask PNG in file convention (Black = Ink)
+export interface SeparationChannel {
+  name: string;
+  role: ChannelRole;
+  color: string | null; // Display colour from the file (hex)
+  mask: Blob;
+}
+
+// Embossing die: raised (emboss) or recessed (deboss)
+export type EmbossPolarity = 'emboss' | 'deboss';
+
+// Blind: relief on its own, placed on the sheet. Registered: die follows the printed artwork.
+export type EmbossMode = 'blind' | 'registered';
+
+export interface EmbossConfig {
+  polarity: EmbossPolarity;
+  mode: EmbossMode;
+  depthMm: number;
+  bevelMm: number;     // Rounded edge width
+  displacement: boolean; // Move the geometry as well (subdivided plane)
+}
+
+// How gray values of the white mask are printed
+export type WhiteScreening = 'contone' | 'halftone';
+
+export interface WhiteInkConfig {
+  passes: 1 | 2;           // Single or double hit
+  passOpacity: [number, number]; // 0-1 opacity of each pass
+  screening: WhiteScreening;
+  screenLpi: number;       // Halftone screen ruling, lines per inch
+  screenAngleDeg: number;
+}
+
+// How a white ink mask is derived from the CMYK artwork
+export type WhiteGenMode = 'keyColor' | 'luminance' | 'saturation' | 'selection';
+
+export interface WhiteGenOptions {
+  mode: WhiteGenMode;
+  keyColor: string;   // Hex colour that marks bare metal (keyColor mode)
+  threshold: number;  // 0-100, metal below this luminance / saturation
+  tolerance: number;  // 0-100, colour distance or soft band width
+  smoothing: number;  // Edge smoothing radius in px
+  seeds: { x: number; y: number }[]; // Picked points, 0-1 from top-left (selection mode)
+  invert: boolean;
+}
+
+// Layers that are decoded and cached by the texture worker
+export type MaskLayer = 'cmyk' | 'white' | 'varnish' | 'emboss';
+
+// Raw RGBA raster (row 0 = top of the artwork)
+export interface PixelMap {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Equirectangular environment: linear RGBA floats, top row first (like an .hdr file)
+export interface EnvironmentMap {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+// Built-in lighting studios, or an uploaded .hdr / .exr
+export type LightingPresetId = 'warehouse' | 'studio' | 'retail' | 'd50Booth' | 'custom';
+
+// Directional light added on top of the environment
+export interface KeyLight {
+  id: string;
+  azimuthDeg: number;   // Around the sheet, same angles as the environment
+  elevationDeg: number; // 90 = straight above the sheet
+  intensity: number;
+  color: string;        // Hex
+}
+
+export interface LightingConfig {
+  preset: LightingPresetId;
+  rotationDeg: number;  // Turns the environment and the key lights around the sheet
+  ambient: number;      // Ambient light intensity
+  keyLights: KeyLight[];
+}
+
+// Material maps generated from the masks
+export interface TextureMaps {
+  metalnessMap: PixelMap;
+  roughnessMap: PixelMap;
+  // Varnish: R clearcoat, G clearcoat roughness; height of the varnish film for the bump map
+  clearcoatMap: PixelMap | null;
+  varnishHeightMap: PixelMap | null;
+  // Emboss / deboss relief (tangent-space normals and height for displacement)
+  normalMap: PixelMap | null;
+  heightMap: PixelMap | null;
+  // Foil layers composited in production order: colour + coverage (alpha),
+  // and R roughness, G hot foil, B holographic
+  foilColorMap: PixelMap | null;
+  foilPropsMap: PixelMap | null;
+  // Spot inks in press order, applied to the CMYK colour as colour * mul + add
+  spotMulMap: PixelMap | null;
+  spotAddMap: PixelMap | null;
+}
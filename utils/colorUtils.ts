@@ -0,0 +1,139 @@
+import { CmykConversion, SpotColorLayer } from '../types';
+
+// D50 reference white (ICC profile connection space, Pantone Lab values)
+export const D50: [number, number, number] = [0.96422, 1, 0.82521];
+
+// Linear sRGB <-> XYZ D50, Bradford-adapted
+const SRGB_TO_XYZ_D50 = [
+  [0.4360747, 0.3850649, 0.1430804],
+  [0.2225045, 0.7168786, 0.0606169],
+  [0.0139322, 0.0971045, 0.7141733]
+];
+const XYZ_D50_TO_SRGB = [
+  [3.1338561, -1.6168667, -0.4906146],
+  [-0.9787684, 1.9161415, 0.0334540],
+  [0.0719453, -0.2289914, 1.4052427]
+];
+
+const multiply = (m: number[][], v: number[]): [number, number, number] => [
+  m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+  m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+  m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2]
+];
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const srgbToLinear = (v: number) => v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+
+export const linearToSrgb = (v: number) => v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = (rgb: number[]): string =>
+  '#' + rgb.map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('');
+
+/**
+ * CIELAB (D50) to XYZ (D50, Y = 1 for white).
+ */
+export const labToXyz = ([l, a, b]: number[]): [number, number, number] => {
+  const fy = (l + 16) / 116;
+  const f = [fy + a / 500, fy, fy - b / 200];
+  const inv = (t: number) => t > 6 / 29 ? t * t * t : 3 * (6 / 29) * (6 / 29) * (t - 4 / 29);
+  return [inv(f[0]) * D50[0], inv(f[1]) * D50[1], inv(f[2]) * D50[2]];
+};
+
+export const xyzToLab = (xyz: number[]): [number, number, number] => {
+  const f = (t: number) => t > Math.pow(6 / 29, 3) ? Math.cbrt(t) : t / (3 * (6 / 29) * (6 / 29)) + 4 / 29;
+  const [fx, fy, fz] = xyz.map((v, i) => f(v / D50[i]));
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+// Linear sRGB (0-1, may fall outside the gamut) from XYZ D50
+export const xyzToLinearSrgb = (xyz: number[]) => multiply(XYZ_D50_TO_SRGB, xyz);
+
+export const linearSrgbToXyz = (rgb: number[]) => multiply(SRGB_TO_XYZ_D50, rgb);
+
+/**
+ * CIELAB (D50) to 8-bit sRGB, clipped to the sRGB gamut.
+ */
+export const labToSrgb = (lab: number[]): [number, number, number] => {
+  const rgb = xyzToLinearSrgb(labToXyz(lab));
+  return [0, 1, 2].map(i => Math.round(linearToSrgb(clamp01(rgb[i])) * 255)) as [number, number, number];
+};
+
+export const srgbToLab = (rgb: number[]): [number, number, number] =>
+  xyzToLab(linearSrgbToXyz(rgb.map(c => srgbToLinear(c / 255))));
+
+// Neugebauer primaries of a coated offset press (approx. FOGRA39), Lab D50: paper, C, M, Y, MY, CY, CM, CMY
+const PRESS_PRIMARIES_LAB = [
+  [95, 0, -2], [55, -37, -50], [48, 74, -3], [89, -5, 93],
+  [47, 68, 48], [50, -65, 27], [24, 22, -46], [23, 0, 0]
+];
+const PRESS_BLACK_LAB = [16, 0, 0];
+
+/**
+ * Returns a CMYK (0-255 ink) to 8-bit sRGB converter. The press model mixes the
+ * Neugebauer primaries with Demichel weights and darkens by the black ink's
+ * reflectance; dot gain is a parabolic tone value increase peaking at 50%.
+ */
+export const createCmykConverter = (conversion: CmykConversion) => {
+  const gain = conversion.dotGain / 100;
+  const tone = new Float32Array(256);
+  for (let v = 0; v < 256; v++) {
+    const t = v / 255;
+    tone[v] = Math.min(1, t + gain * 4 * t * (1 - t));
+  }
+
+  const encode = new Uint8Array(4097);
+  for (let i = 0; i <= 4096; i++) encode[i] = Math.round(linearToSrgb(i / 4096) * 255);
+  const out = (v: number) => encode[Math.round(Math.min(1, Math.max(0, v)) * 4096)];
+
+  if (conversion.mode === 'naive') {
+    return (c: number, m: number, y: number, k: number): [number, number, number] => {
+      const w = 1 - tone[k];
+      return [
+        Math.round(255 * (1 - tone[c]) * w),
+        Math.round(255 * (1 - tone[m]) * w),
+        Math.round(255 * (1 - tone[y]) * w)
+      ];
+    };
+  }
+
+  const primaries = PRESS_PRIMARIES_LAB.map(lab => xyzToLinearSrgb(labToXyz(lab)));
+  const paper = primaries[0];
+  const black = xyzToLinearSrgb(labToXyz(PRESS_BLACK_LAB)).map((v, i) => v / paper[i]);
+  return (c: number, m: number, y: number, k: number): [number, number, number] => {
+    const tc = tone[c], tm = tone[m], ty = tone[y], tk = tone[k];
+    const weights = [
+      (1 - tc) * (1 - tm) * (1 - ty), tc * (1 - tm) * (1 - ty), (1 - tc) * tm * (1 - ty), (1 - tc) * (1 - tm) * ty,
+      (1 - tc) * tm * ty, tc * (1 - tm) * ty, tc * tm * (1 - ty), tc * tm * ty
+    ];
+    const rgb: [number, number, number] = [0, 0, 0];
+    for (let ch = 0; ch < 3; ch++) {
+      let v = 0;
+      for (let i = 0; i < 8; i++) v += weights[i] * primaries[i][ch];
+      rgb[ch] = out(v * (1 - tk + tk * black[ch]));
+    }
+    return rgb;
+  };
+};
+
+// Layers imported from one file are created within the same millisecond
+let spotCount = 0;
+
+export const createSpotLayer = (name: string): SpotColorLayer => ({
+  id: `spot-${Date.now()}-${spotCount++}`,
+  name,
+  colorMode: 'srgb',
+  color: '#e4002b',
+  lab: srgbToLab(hexToRgb('#e4002b')).map(v => Math.round(v)) as [number, number, number],
+  opacity: 0.9,
+  base: 'white'
+});
+
+// Display colour of a spot ink as 8-bit sRGB
+export const spotColorRgb = (spot: SpotColorLayer): [number, number, number] =>
+  spot.colorMode === 'lab' ? labToSrgb(spot.lab) : hexToRgb(spot.color);
@@ -0,0 +1,201 @@
+import { ConsumptionConfig, ConsumptionRow, CoverageEntry, CoverageReport, PhysicalSize } from '../types';
+import { MaskData } from './textureUtils';
+import { findComponents, largestRegions } from './preflightUtils';
+
+export const DEFAULT_CONSUMPTION: ConsumptionConfig = {
+  rates: { process: 1.2, white: 2.5, varnish: 4, spot: 1.5 },
+  runLength: 1000
+};
+
+export const PROCESS_CHANNELS = ['Cyan', 'Magenta', 'Yellow', 'Black'];
+
+// CMYK data behind the artwork (255 = full ink), may differ in size from the masks
+export interface CoverageCmyk {
+  source: 'separation' | 'profile' | 'estimate';
+  width: number;
+  height: number;
+  channels: Uint8Array[];
+  alpha: Uint8Array | null;   // Transparent pixels carry no ink
+}
+
+// Plates at the mask size, in internal logic (255 = ink); a null varnish mask is a flood coat
+export interface CoverageInput {
+  width: number;
+  height: number;
+  cmyk: CoverageCmyk | null;
+  white: MaskData | null;
+  varnishes: { name: string; mask: MaskData | null }[];
+  spots: { name: string; mask: MaskData }[];
+  foils: { name: string; mask: MaskData }[];
+}
+
+const meanCoverage = (data: Uint8Array, alpha: Uint8Array | null = null): number => {
+  let sum = 0;
+  for (let p = 0; p < data.length; p++) sum += alpha ? data[p] * alpha[p] / 255 : data[p];
+  return data.length ? sum / data.length / 255 : 0;
+};
+
+/**
+ * Naive RGB -> CMYK with full grey component replacement, used without a press profile.
+ */
+export const estimateCmyk = (rgba: Uint8ClampedArray, width: number, height: number): CoverageCmyk => {
+  const size = width * height;
+  const channels = [0, 1, 2, 3].map(() => new Uint8Array(size));
+  const alpha = new Uint8Array(size);
+  for (let p = 0; p < size; p++) {
+    const r = rgba[p * 4], g = rgba[p * 4 + 1], b = rgba[p * 4 + 2];
+    const k = 255 - Math.max(r, g, b);
+    const rest = 255 - k;
+    channels[3][p] = k;
+    if (rest > 0) {
+      channels[0][p] = Math.round((rest - r) / rest * 255);
+      channels[1][p] = Math.round((rest - g) / rest * 255);
+      channels[2][p] = Math.round((rest - b) / rest * 255);
+    }
+    alpha[p] = rgba[p * 4 + 3];
+  }
+  return { source: 'estimate', width, height, channels, alpha };
+};
+
+/**
+ * Area coverage of every plate, the bare metal left visible and the total area
+ * coverage (TAC) hot spots above inkLimit (%). Metal is what neither white, process
+ * ink, spot colours nor foil cover; clear varnish does not hide it.
+ */
+export const buildCoverageReport = (input: CoverageInput, inkLimit: number): CoverageReport => {
+  const { width, height, cmyk, white } = input;
+  const entries: CoverageEntry[] = [];
+  const size = width * height;
+
+  let tac: CoverageReport['tac'] = null;
+  if (cmyk) {
+    cmyk.channels.forEach((channel, c) => {
+      entries.push({ name: PROCESS_CHANNELS[c], kind: 'process', coverage: meanCoverage(channel, cmyk.alpha) });
+    });
+
+    const limit = inkLimit * 255 / 100;
+    const over = new Uint8Array(cmyk.width * cmyk.height);
+    let inked = 0, sum = 0, max = 0, overCount = 0;
+    for (let p = 0; p < over.length; p++) {
+      const a = cmyk.alpha ? cmyk.alpha[p] / 255 : 1;
+      const ink = (cmyk.channels[0][p] + cmyk.channels[1][p] + cmyk.channels[2][p] + cmyk.channels[3][p]) * a;
+      if (ink <= 0) continue;
+      inked++;
+      sum += ink;
+      if (ink > max) max = ink;
+      if (ink > limit) {
+        over[p] = 1;
+        overCount++;
+      }
+    }
+    tac = {
+      mean: inked ? sum / inked / 255 * 100 : 0,
+      max: max / 255 * 100,
+      limit: inkLimit,
+      overLimit: overCount / over.length,
+      hotSpots: largestRegions(findComponents(over, cmyk.width, cmyk.height)),
+      imageSize: { width: cmyk.width, height: cmyk.height }
+    };
+  }
+
+  if (white) entries.push({ name: 'Белила', kind: 'white', coverage: meanCoverage(white.data) });
+  input.varnishes.forEach(v => entries.push({ name: v.name, kind: 'varnish', coverage: v.mask ? meanCoverage(v.mask.data) : 1 }));
+  input.spots.forEach(s => entries.push({ name: s.name, kind: 'spot', coverage: meanCoverage(s.mask.data) }));
+  input.foils.forEach(f => entries.push({ name: f.name, kind: 'foil', coverage: meanCoverage(f.mask.data) }));
+
+  // Share of every pixel each covering layer leaves visible, multiplied together
+  if (size) {
+    let metal = 0;
+    const sx = cmyk ? cmyk.width / width : 0;
+    const sy = cmyk ? cmyk.height / height : 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        let visible = white ? 1 - white.data[p] / 255 : 1;
+        if (cmyk) {
+          const q = Math.floor(y * sy) * cmyk.width + Math.floor(x * sx);
+          const c = cmyk.channels;
+          const ink = Math.max(c[0][q], c[1][q], c[2][q], c[3][q]) * (cmyk.alpha ? cmyk.alpha[q] / 255 : 1);
+          visible *= 1 - ink / 255;
+        }
+        for (const s of input.spots) visible *= 1 - s.mask.data[p] / 255;
+        for (const f of input.foils) visible *= 1 - f.mask.data[p] / 255;
+        metal += visible;
+      }
+    }
+    entries.push({ name: 'Открытый металл', kind: 'metal', coverage: metal / size });
+  }
+
+  return { cmykSource: cmyk?.source || null, entries, tac };
+};
+
+/**
+ * Ink usage per sheet and per run: coverage × sheet area × lay-down rate.
+ * White is laid down once per pass; foil and bare metal use no ink.
+ */
+export const estimateConsumption = (
+  report: CoverageReport,
+  config: ConsumptionConfig,
+  physicalSize: PhysicalSize | null,
+  whitePasses: number
+): ConsumptionRow[] => {
+  const areaM2 = physicalSize ? physicalSize.widthMm * physicalSize.heightMm / 1e6 : 0;
+  return report.entries.map(entry => {
+    const rate =
+      entry.kind === 'process' ? config.rates.process :
+      entry.kind === 'white' ? config.rates.white * whitePasses :
+      entry.kind === 'varnish' ? config.rates.varnish :
+      entry.kind === 'spot' ? config.rates.spot :
+      null;
+    if (rate === null || !physicalSize) return { ...entry, gramsPerSheet: null, gramsPerRun: null };
+    const gramsPerSheet = entry.coverage * areaM2 * rate;
+    return { ...entry, gramsPerSheet, gramsPerRun: gramsPerSheet * config.runLength };
+  });
+};
+
+const csvField = (value: string | number | null) => {
+  if (value === null) return '';
+  const text = typeof value === 'number' ? String(Math.round(value * 1000) / 1000) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Consumption table as CSV (coverage in %, grams), one row per plate.
+ */
+export const consumptionToCsv = (rows: ConsumptionRow[]): string => {
+  const lines = [['layer', 'kind', 'coverage_percent', 'g_per_sheet', 'g_per_run']];
+  rows.forEach(row => lines.push([row.name, row.kind, row.coverage * 100, row.gramsPerSheet, row.gramsPerRun].map(csvField)));
+  return lines.map(line => line.join(',')).join('\n') + '\n';
+};
+
+/**
+ * Full report with the job size and the rates it was computed with.
+ */
+export const consumptionToJson = (
+  report: CoverageReport,
+  rows: ConsumptionRow[],
+  config: ConsumptionConfig,
+  physicalSize: PhysicalSize | null,
+  whitePasses: number
+): string => JSON.stringify({
+  sheet: physicalSize && { widthMm: physicalSize.widthMm, heightMm: physicalSize.heightMm, dpi: physicalSize.dpi },
+  cmykSource: report.cmykSource,
+  whitePasses,
+  runLength: config.runLength,
+  ratesGPerM2: config.rates,
+  layers: rows.map(row => ({
+    name: row.name,
+    kind: row.kind,
+    coveragePercent: row.coverage * 100,
+    gPerSheet: row.gramsPerSheet,
+    gPerRun: row.gramsPerRun
+  })),
+  tac: report.tac && {
+    meanPercent: report.tac.mean,
+    maxPercent: report.tac.max,
+    limitPercent: report.tac.limit,
+    overLimitPercent: report.tac.overLimit * 100,
+    hotSpots: report.tac.hotSpots.map(({ x, y, width, height }) => ({ x, y, width, height })),
+    imageSize: report.tac.imageSize
+  }
+}, null, 2);
@@ -0,0 +1,64 @@
+import { EmbossConfig, PixelMap } from '../types';
+import { EmbossParams, MaskData, boxBlur, isIdentityTransform, transformMask } from './textureUtils';
+
+export const DEFAULT_EMBOSS: EmbossConfig = {
+  polarity: 'emboss',
+  mode: 'blind',
+  depthMm: 0.3,
+  bevelMm: 0.2,
+  displacement: false
+};
+
+/**
+ * Builds a tangent-space normal map (Sobel gradients of the bevelled height)
+ * and a height map for displacement from an emboss mask (255 = full height).
+ */
+export const buildEmbossMaps = (mask: MaskData, params: EmbossParams): { normalMap: PixelMap; heightMap: PixelMap } => {
+  if (params.transform && !isIdentityTransform(params.transform)) {
+    mask = transformMask(mask, params.transform);
+  }
+  const { width, height } = mask;
+
+  // The bevel rounds the die edges
+  const h = new Float32Array(width * height);
+  for (let p = 0; p < h.length; p++) h[p] = mask.data[p] / 255;
+  boxBlur(h, width, height, params.bevelPx / 2);
+
+  const normal = new Uint8ClampedArray(width * height * 4);
+  const heightData = new Uint8ClampedArray(width * height * 4);
+  // Sobel responds with 8x the slope per pixel
+  const k = params.depthPx / 8;
+  const at = (x: number, y: number) =>
+    h[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = (at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1))
+        - (at(x - 1, y - 1) + 2 * at(x - 1, y) + at(x - 1, y + 1));
+      const gy = (at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1))
+        - (at(x - 1, y - 1) + 2 * at(x, y - 1) + at(x + 1, y - 1));
+
+      // Image rows go down, tangent-space Y (texture V) goes up
+      const nx = -gx * k;
+      const ny = gy * k;
+      const len = Math.sqrt(nx * nx + ny * ny + 1);
+
+      const i = (y * width + x) * 4;
+      normal[i] = Math.round((nx / len * 0.5 + 0.5) * 255);
+      normal[i + 1] = Math.round((ny / len * 0.5 + 0.5) * 255);
+      normal[i + 2] = Math.round((1 / len * 0.5 + 0.5) * 255);
+      normal[i + 3] = 255;
+
+      const v = Math.round(h[y * width + x] * 255);
+      heightData[i] = v;
+      heightData[i + 1] = v;
+      heightData[i + 2] = v;
+      heightData[i + 3] = 255;
+    }
+  }
+
+  return {
+    normalMap: { width, height, data: normal },
+    heightMap: { width, height, data: heightData }
+  };
+};
@@ -1,5 +1,13 @@
 
-import { PrintConfig } from '../types';
+import { EnvironmentMap, LightingConfig, PrintConfig, TextureMaps } from '../types';
+import { LayerTransform, isIdentityTransform, pixelMapToDataUrl } from './textureUtils';
+import { transformToUvMatrix } from './registrationUtils';
+import { generateMicroTexture } from './substrateUtils';
+import { SHEET_VERTEX_CHUNKS, SUBSTRATE_SHADER_CHUNKS, substrateScalarUniforms } from './substrateShader';
+import { FOIL_SHADER_CHUNKS } from './foilShader';
+import { SPOT_SHADER_CHUNKS } from './spotShader';
+import { VARNISH_HEIGHT_RANGE } from './varnishUtils';
+import { encodeRgbe, keyLightPosition } from './lightingUtils';
 
 /**
  * Helper to convert an image URL (Blob or Data URL) to a Base64 string.
@@ -18,30 +26,100 @@ const urlToBase64 = async (url: string): Promise<string> => {
   });
 };
 
+/**
+ * Re-encodes an image (Blob, object URL or Data URL) as a PNG (or the given type)
+ * Data URL no larger than maxSize on its longer side.
+ */
+export const scaleImageToDataUrl = async (source: Blob | string, maxSize: number, type = 'image/png'): Promise<string> => {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL(type);
+};
+
+/**
+ * Triggers a browser download of a Blob or Data URL.
+ */
+export const downloadUrl = (url: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
 /**
  * Generates a complete HTML string containing a Three.js scene.
  */
 export const generateStandaloneHtml = async (
   cmykUrl: string,
-  metalnessMapUrl: string | null,
-  roughnessMapUrl: string | null,
-  clearcoatMapUrl: string | null, // New Argument
+  textureMaps: TextureMaps | null,
   config: PrintConfig,
   aspectRatio: number,
-  isPaperPreview: boolean
+  isPaperPreview: boolean,
+  cmykTransform: LayerTransform | null = null,
+  displacementScale = 0,
+  lighting: LightingConfig | null = null,
+  environment: EnvironmentMap | null = null
 ): Promise<string> => {
   // 1. Prepare Textures
   const cmykBase64 = await urlToBase64(cmykUrl);
+
+  // Lighting: the environment the app shows (already rotated), as an .hdr
+  let environmentBase64: string | null = null;
+  if (environment) {
+    const url = URL.createObjectURL(new Blob([encodeRgbe(environment)], { type: 'application/octet-stream' }));
+    environmentBase64 = await urlToBase64(url);
+    URL.revokeObjectURL(url);
+  }
+  const keyLights = lighting ? lighting.keyLights.map(light => ({
+    color: light.color,
+    intensity: light.intensity,
+    position: keyLightPosition(light, lighting.rotationDeg)
+  })) : [];
+
+  // Simulated CMYK misregistration (white/varnish shifts are already baked into the maps)
+  let cmykMatrix: number[] | null = null;
+  if (cmykTransform && !isIdentityTransform(cmykTransform)) {
+    const size = await new Promise<{ width: number; height: number }>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.width, height: img.height });
+      img.onerror = reject;
+      img.src = cmykBase64;
+    });
+    cmykMatrix = transformToUvMatrix(cmykTransform, size.width, size.height);
+  }
   
   // Logic matches PrintSimulator:
-  // If Varnish exists (clearcoatMapUrl), we load maps even in Paper Mode.
+  // If Varnish exists (clearcoatMap), we load maps even in Paper Mode.
   // If no Varnish, and Paper Mode -> don't load maps.
-  const hasVarnish = !!clearcoatMapUrl;
-  const shouldLoadMaps = !isPaperPreview || hasVarnish;
+  const hasVarnish = !!textureMaps?.clearcoatMap;
+  const shouldLoadMaps = (!isPaperPreview || hasVarnish) && !!textureMaps;
 
-  const metalBase64 = (shouldLoadMaps && metalnessMapUrl) ? await urlToBase64(metalnessMapUrl) : null;
-  const roughBase64 = (shouldLoadMaps && roughnessMapUrl) ? await urlToBase64(roughnessMapUrl) : null;
-  const coatBase64 = (hasVarnish && clearcoatMapUrl) ? await urlToBase64(clearcoatMapUrl) : null;
+  // Generated maps are raw pixels: encode them as PNG for embedding
+  const metalBase64 = (shouldLoadMaps && textureMaps) ? pixelMapToDataUrl(textureMaps.metalnessMap) : null;
+  const roughBase64 = (shouldLoadMaps && textureMaps) ? pixelMapToDataUrl(textureMaps.roughnessMap) : null;
+  const coatBase64 = textureMaps?.clearcoatMap ? pixelMapToDataUrl(textureMaps.clearcoatMap) : null;
+  const varnishHeightBase64 = textureMaps?.varnishHeightMap ? pixelMapToDataUrl(textureMaps.varnishHeightMap) : null;
+  const normalBase64 = textureMaps?.normalMap ? pixelMapToDataUrl(textureMaps.normalMap) : null;
+  const foilColorBase64 = textureMaps?.foilColorMap ? pixelMapToDataUrl(textureMaps.foilColorMap) : null;
+  const foilPropsBase64 = textureMaps?.foilPropsMap ? pixelMapToDataUrl(textureMaps.foilPropsMap) : null;
+  const spotMulBase64 = textureMaps?.spotMulMap ? pixelMapToDataUrl(textureMaps.spotMulMap) : null;
+  const spotAddBase64 = textureMaps?.spotAddMap ? pixelMapToDataUrl(textureMaps.spotAddMap) : null;
+  const heightBase64 = (textureMaps?.heightMap && displacementScale !== 0) ? pixelMapToDataUrl(textureMaps.heightMap) : null;
+
+  // Substrate: same micro-texture and shader patches as the app
+  const { substrate } = config;
+  const microBase64 = pixelMapToDataUrl(generateMicroTexture(substrate.microTexture));
+  const substrateUniforms = substrateScalarUniforms(substrate, aspectRatio);
 
   // Determine Clearcoat Value logic for string interpolation
   // Logic: 
@@ -121,20 +199,25 @@ export const generateStandaloneHtml = async (
         controls.minPolarAngle = 0;
         controls.maxPolarAngle = Math.PI / 2.2;
 
-        // --- Lighting & Environment ---
-        new RGBELoader()
-            .setPath('https://dl.polyhaven.org/file/ph-assets/HDRIs/hdr/1k/')
-            .load('empty_warehouse_01_1k.hdr', function (texture) {
+        // --- Lighting & Environment (same as the app's lighting studio) ---
+        const environmentUrl = ${environmentBase64 ? `'${environmentBase64}'` : 'null'};
+        if (environmentUrl) {
+            new RGBELoader().load(environmentUrl, function (texture) {
                 texture.mapping = THREE.EquirectangularReflectionMapping;
+                // Material controls local reflection intensity
                 scene.environment = texture;
-                // Standard intensity 1.0, material controls local reflection intensity
-                scene.environmentIntensity = 1.0;
             });
+        }
 
-        // Ambient Light to maintain base brightness
-        const ambientLight = new THREE.AmbientLight(0xffffff, 0.7);
+        const ambientLight = new THREE.AmbientLight(0xffffff, ${lighting ? lighting.ambient : 0.7});
         scene.add(ambientLight);
 
+        for (const key of ${JSON.stringify(keyLights)}) {
+            const light = new THREE.DirectionalLight(key.color, key.intensity);
+            light.position.set(...key.position);
+            scene.add(light);
+        }
+
         // --- Materials & Textures ---
         const textureLoader = new THREE.TextureLoader();
         
@@ -142,48 +225,112 @@ export const generateStandaloneHtml = async (
         cmykTex.colorSpace = THREE.SRGBColorSpace;
         cmykTex.anisotropy = 16;
 
+        const cmykMatrix = ${JSON.stringify(cmykMatrix)};
+        if (cmykMatrix) {
+            cmykTex.matrixAutoUpdate = false;
+            cmykTex.matrix.set(...cmykMatrix);
+        }
+
         const metalTex = ${metalBase64 ? `textureLoader.load('${metalBase64}')` : 'null'};
         const roughTex = ${roughBase64 ? `textureLoader.load('${roughBase64}')` : 'null'};
         const coatTex = ${coatBase64 ? `textureLoader.load('${coatBase64}')` : 'null'};
+        const varnishHeightTex = ${varnishHeightBase64 ? `textureLoader.load('${varnishHeightBase64}')` : 'null'};
+        const normalTex = ${normalBase64 ? `textureLoader.load('${normalBase64}')` : 'null'};
+        const heightTex = ${heightBase64 ? `textureLoader.load('${heightBase64}')` : 'null'};
+        const foilColorTex = ${foilColorBase64 ? `textureLoader.load('${foilColorBase64}')` : 'null'};
+        const foilPropsTex = ${foilPropsBase64 ? `textureLoader.load('${foilPropsBase64}')` : 'null'};
+        const spotMulTex = ${spotMulBase64 ? `textureLoader.load('${spotMulBase64}')` : 'null'};
+        const spotAddTex = ${spotAddBase64 ? `textureLoader.load('${spotAddBase64}')` : 'null'};
+
+        const microTex = textureLoader.load('${microBase64}');
+        microTex.colorSpace = THREE.NoColorSpace;
+        microTex.wrapS = THREE.RepeatWrapping;
+        microTex.wrapT = THREE.RepeatWrapping;
 
         if(metalTex) metalTex.colorSpace = THREE.NoColorSpace;
         if(roughTex) roughTex.colorSpace = THREE.NoColorSpace;
         if(coatTex) coatTex.colorSpace = THREE.NoColorSpace;
+        if(varnishHeightTex) varnishHeightTex.colorSpace = THREE.NoColorSpace;
+        if(normalTex) normalTex.colorSpace = THREE.NoColorSpace;
+        if(heightTex) heightTex.colorSpace = THREE.NoColorSpace;
+        if(foilColorTex) foilColorTex.colorSpace = THREE.NoColorSpace;
+        if(foilPropsTex) foilPropsTex.colorSpace = THREE.NoColorSpace;
+        if(spotMulTex) spotMulTex.colorSpace = THREE.NoColorSpace;
+        if(spotAddTex) spotAddTex.colorSpace = THREE.NoColorSpace;
 
-        const geometry = new THREE.PlaneGeometry(10, 10 / aspectRatio);
+        // Subdivided only when the emboss displaces the geometry
+        const geometry = heightTex
+            ? new THREE.PlaneGeometry(10, 10 / aspectRatio, 400, Math.round(400 / aspectRatio))
+            : new THREE.PlaneGeometry(10, 10 / aspectRatio);
         const material = new THREE.MeshPhysicalMaterial({
             map: cmykTex,
             metalnessMap: metalTex || null,
             roughnessMap: roughTex || null,
             clearcoatMap: coatTex || null,
+            clearcoatRoughnessMap: coatTex || null,
 
             // Bump Map for Varnish Volume
-            bumpMap: coatTex || null,
-            bumpScale: (coatTex && config.varnishBump) ? config.varnishBump : 0,
+            bumpMap: varnishHeightTex || null,
+            bumpScale: ${hasVarnish ? (config.varnishBump || 0.02) * VARNISH_HEIGHT_RANGE : 0},
+
+            // Emboss / Deboss relief
+            normalMap: normalTex,
+            clearcoatNormalMap: (normalTex && coatTex) ? normalTex : null,
+            displacementMap: heightTex,
+            displacementScale: heightTex ? ${displacementScale} : 0,
             
             // Logic: 
             // If Paper Mode: metalness must be 0 (multiplying with map if map exists).
             // If Metal Mode: metalness 1.0 (if map exists).
             // Note: If Varnish exists in paper mode, we loaded metalTex, but we want 0 metalness.
-            metalness: ${(!isPaperPreview && metalnessMapUrl) ? '1.0' : '0.0'},
+            metalness: ${(!isPaperPreview && metalBase64) ? '1.0' : '0.0'},
             
             // Logic: 
             // - If Map: Use 1.0 (Map controls it).
             // - If No Map (Std Paper): Use config.paperRoughness directly.
-            roughness: ${(shouldLoadMaps && roughnessMapUrl) ? '1.0' : config.paperRoughness},
+            roughness: ${roughBase64 ? '1.0' : config.paperRoughness},
             
             // Logic: Calculated string above
             clearcoat: ${clearcoatValStr},
             
-            clearcoatRoughness: 0.1,
+            clearcoatRoughness: ${hasVarnish ? '1.0' : '0.1'},
             reflectivity: 0.5,
             
             // Ensure material env intensity matches scene logic
             envMapIntensity: ${isPaperPreview ? config.exposure * 0.2 : config.exposure},
+
+            // Substrate sheen, see SUBSTRATE_SHADER_CHUNKS
+            anisotropy: ${substrate.anisotropy},
+            anisotropyRotation: ${substrate.brushDirectionDeg * Math.PI / 180},
+            iridescence: ${substrate.iridescence},
+            iridescenceIOR: 1.3,
+            iridescenceThicknessRange: [100, 800],
             
             side: THREE.DoubleSide
         });
 
+        // --- Substrate, Foil & Spot Colour Shader ---
+        const vertexChunks = ${JSON.stringify(SHEET_VERTEX_CHUNKS)};
+        const fragmentChunks = ${JSON.stringify([...SUBSTRATE_SHADER_CHUNKS, ...FOIL_SHADER_CHUNKS, ...SPOT_SHADER_CHUNKS])};
+        const substrateUniforms = ${JSON.stringify(substrateUniforms)};
+        material.onBeforeCompile = (shader) => {
+            shader.uniforms.uSubstrateTint = { value: new THREE.Color('${substrate.tint}') };
+            shader.uniforms.uMicroMap = { value: microTex };
+            shader.uniforms.uFoilColorMap = { value: foilColorTex };
+            shader.uniforms.uFoilPropsMap = { value: foilPropsTex };
+            shader.uniforms.uFoilEnabled = { value: (foilColorTex && foilPropsTex) ? 1 : 0 };
+            shader.uniforms.uSpotMulMap = { value: spotMulTex };
+            shader.uniforms.uSpotAddMap = { value: spotAddTex };
+            shader.uniforms.uSpotEnabled = { value: (spotMulTex && spotAddTex) ? 1 : 0 };
+            for (const key in substrateUniforms) shader.uniforms[key] = { value: substrateUniforms[key] };
+            for (const [search, replace] of vertexChunks) {
+                shader.vertexShader = shader.vertexShader.replace(search, replace);
+            }
+            for (const [search, replace] of fragmentChunks) {
+                shader.fragmentShader = shader.fragmentShader.replace(search, replace);
+            }
+        };
+
         const mesh = new THREE.Mesh(geometry, material);
         mesh.rotation.x = -Math.PI / 2;
         mesh.castShadow = false; 
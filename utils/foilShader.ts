@@ -0,0 +1,42 @@
+/**
+ * Foil layers in the sheet material. Applied after SUBSTRATE_SHADER_CHUNKS (uses
+ * vSheetUv, substrateBare and holoDiffraction from there).
+ *
+ * Production order: white, cold foil, CMYK, varnish, hot foil. Cold foil is
+ * overprinted, so the process inks tint it; hot foil covers inks and varnish.
+ */
+export const FOIL_SHADER_CHUNKS: [string, string][] = [
+  [
+    '#include <metalnessmap_pars_fragment>',
+    `#include <metalnessmap_pars_fragment>
+uniform sampler2D uFoilColorMap;
+uniform sampler2D uFoilPropsMap;
+uniform float uFoilEnabled;`
+  ],
+  [
+    '#include <map_fragment>',
+    `#include <map_fragment>
+vec3 foilInk = diffuseColor.rgb;`
+  ],
+  [
+    '#include <lights_physical_fragment>',
+    `vec4 foilColor = texture2D( uFoilColorMap, vSheetUv );
+vec4 foilProps = texture2D( uFoilPropsMap, vSheetUv );
+float foilCover = foilColor.a * uFoilEnabled;
+if ( foilCover > 0.0 ) {
+  vec3 foilBase = pow( foilColor.rgb, vec3( 2.2 ) ) * mix( foilInk, vec3( 1.0 ), foilProps.g );
+  if ( foilProps.b > 0.5 ) {
+    vec3 holo = holoDiffraction( normal, 1.0, 1200.0, 0.0 );
+    foilBase = mix( foilBase, holo * foilBase, max( holo.r, max( holo.g, holo.b ) ) );
+  }
+  diffuseColor.rgb = mix( diffuseColor.rgb, foilBase, foilCover );
+  metalnessFactor = mix( metalnessFactor, 1.0, foilCover );
+  roughnessFactor = mix( roughnessFactor, foilProps.r, foilCover );
+  substrateBare *= 1.0 - foilCover;
+}
+#include <lights_physical_fragment>
+#ifdef USE_CLEARCOAT
+material.clearcoat *= 1.0 - foilCover * foilProps.g;
+#endif`
+  ]
+];
@@ -0,0 +1,73 @@
+import { FoilLayer, PixelMap } from '../types';
+import { MaskData } from './textureUtils';
+
+export const FOIL_PRESETS: { id: string; name: string; color: string; roughness: number; holographic: boolean }[] = [
+  { id: 'gold', name: 'Золото', color: '#e6b84f', roughness: 0.15, holographic: false },
+  { id: 'rose-gold', name: 'Розовое золото', color: '#e8a98f', roughness: 0.15, holographic: false },
+  { id: 'silver', name: 'Серебро', color: '#e3e4e6', roughness: 0.12, holographic: false },
+  { id: 'copper', name: 'Медь', color: '#d0825a', roughness: 0.18, holographic: false },
+  { id: 'holographic', name: 'Голографическая', color: '#eceef4', roughness: 0.08, holographic: true }
+];
+
+// Layers imported from one file are created within the same millisecond
+let foilCount = 0;
+
+export const createFoilLayer = (name: string): FoilLayer => {
+  const { color, roughness, holographic } = FOIL_PRESETS[0];
+  return { id: `foil-${Date.now()}-${foilCount++}`, name, type: 'hot', color, roughness, holographic };
+};
+
+// Cold foil goes down before CMYK, hot foil is stamped last; the list order is kept within a type
+export const productionOrder = (foils: FoilLayer[]): FoilLayer[] =>
+  [...foils.filter(f => f.type === 'cold'), ...foils.filter(f => f.type === 'hot')];
+
+/**
+ * Composites the foil masks (255 = foil) into a colour/coverage map and a properties map.
+ * Later foils in production order are laid over earlier ones.
+ */
+export const buildFoilMaps = (
+  foils: { foil: FoilLayer; mask: MaskData }[],
+  width: number,
+  height: number
+): { foilColorMap: PixelMap; foilPropsMap: PixelMap } => {
+  const color = new Float32Array(width * height * 4);
+  const props = new Float32Array(width * height * 3);
+
+  foils.forEach(({ foil, mask }) => {
+    const value = parseInt(foil.color.replace('#', ''), 16);
+    const rgb = [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+    const layerProps = [foil.roughness * 255, foil.type === 'hot' ? 255 : 0, foil.holographic ? 255 : 0];
+
+    for (let p = 0; p < mask.data.length; p++) {
+      const c = mask.data[p] / 255;
+      if (c === 0) continue;
+      // "Over" compositing of the new foil on what is already there (premultiplied by coverage)
+      for (let k = 0; k < 3; k++) {
+        color[p * 4 + k] += (rgb[k] - color[p * 4 + k]) * c;
+        props[p * 3 + k] += (layerProps[k] - props[p * 3 + k]) * c;
+      }
+      color[p * 4 + 3] += (1 - color[p * 4 + 3]) * c;
+    }
+  });
+
+  const colorData = new Uint8ClampedArray(width * height * 4);
+  const propsData = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) {
+    // The shader blends by coverage itself, so the maps hold straight (unpremultiplied) values
+    const alpha = color[p * 4 + 3];
+    const scale = alpha > 0 ? 1 / alpha : 0;
+    colorData[p * 4] = color[p * 4] * scale;
+    colorData[p * 4 + 1] = color[p * 4 + 1] * scale;
+    colorData[p * 4 + 2] = color[p * 4 + 2] * scale;
+    colorData[p * 4 + 3] = alpha * 255;
+    propsData[p * 4] = props[p * 3] * scale;
+    propsData[p * 4 + 1] = props[p * 3 + 1] * scale;
+    propsData[p * 4 + 2] = props[p * 3 + 2] * scale;
+    propsData[p * 4 + 3] = 255;
+  }
+
+  return {
+    foilColorMap: { width, height, data: colorData },
+    foilPropsMap: { width, height, data: propsData }
+  };
+};
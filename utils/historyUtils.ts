@@ -0,0 +1,116 @@
+import { AnalysisIssue, AnalysisResult, AnalysisRun, ImageRegion, IssueChange, RunComparison } from '../types';
+
+const STORAGE_KEY = 'metalprint.analysisHistory';
+
+// Oldest runs are dropped beyond this (thumbnails make runs a few tens of kB each)
+export const MAX_HISTORY_RUNS = 30;
+
+// Longer side of the layer previews kept with a run
+export const THUMBNAIL_SIZE = 96;
+
+/**
+ * Analysis runs saved in the browser (local storage), newest first.
+ */
+export const loadAnalysisHistory = (): AnalysisRun[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const list = raw ? JSON.parse(raw) : [];
+    return Array.isArray(list) ? list : [];
+  } catch (e) {
+    console.error("Failed to read analysis history", e);
+    return [];
+  }
+};
+
+// Drops the oldest runs until the history fits into the storage quota
+export const saveAnalysisHistory = (runs: AnalysisRun[]) => {
+  let kept = runs.slice(0, MAX_HISTORY_RUNS);
+  while (true) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return;
+    } catch (e) {
+      if (kept.length === 0) {
+        console.error("Failed to save analysis history", e);
+        return;
+      }
+      kept = kept.slice(0, -1);
+    }
+  }
+};
+
+// Minimum share of the smaller box covered by the other for two regions to be the same finding
+const MATCH_OVERLAP = 0.5;
+
+type Finding = { issue: number; region: ImageRegion | null; box: ImageRegion | null };
+
+// One finding per region (or per issue without regions); boxes as 0-1 of the image
+const findings = (result: AnalysisResult): Finding[] => {
+  const size = result.imageSize;
+  return (result.issues ?? []).flatMap((issue, i) => issue.regions.length && size
+    ? issue.regions.map(region => ({
+      issue: i,
+      region,
+      box: { x: region.x / size.width, y: region.y / size.height, width: region.width / size.width, height: region.height / size.height }
+    }))
+    : [{ issue: i, region: null, box: null }]);
+};
+
+const overlap = (a: ImageRegion, b: ImageRegion): number => {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (w <= 0 || h <= 0) return 0;
+  return (w * h) / Math.min(a.width * a.height, b.width * b.height);
+};
+
+const sameFinding = (a: Finding, aIssue: AnalysisIssue, b: Finding, bIssue: AnalysisIssue): number => {
+  if (aIssue.rule !== bIssue.rule) return 0;
+  if (a.box && b.box) return overlap(a.box, b.box);
+  // Without a location only the wording can tell findings apart
+  return !a.box && !b.box && aIssue.message === bIssue.message ? 1 : 0;
+};
+
+// Unmatched findings grouped back into their issues
+const changes = (result: AnalysisResult, list: Finding[], matched: Set<Finding>): IssueChange[] => {
+  const byIssue = new Map<number, ImageRegion[]>();
+  list.filter(f => !matched.has(f)).forEach(f => {
+    const regions = byIssue.get(f.issue) ?? [];
+    if (f.region) regions.push(f.region);
+    byIssue.set(f.issue, regions);
+  });
+  const issues = result.issues ?? [];
+  return [...byIssue].map(([i, regions]) => ({ issue: issues[i], regions }));
+};
+
+/**
+ * Fixed and new findings between two runs. Findings are compared per region:
+ * same rule and overlapping boxes (relative to each run's image, so a resized
+ * export still matches). Region-less findings match on rule and wording, so a
+ * reworded AI finding counts as fixed plus new.
+ */
+export const compareRuns = (before: AnalysisResult, after: AnalysisResult): RunComparison => {
+  const a = findings(before);
+  const b = findings(after);
+  const beforeIssues = before.issues ?? [];
+  const afterIssues = after.issues ?? [];
+  const pairs: { x: Finding; y: Finding; score: number }[] = [];
+  a.forEach(x => b.forEach(y => {
+    const score = sameFinding(x, beforeIssues[x.issue], y, afterIssues[y.issue]);
+    if (score >= MATCH_OVERLAP) pairs.push({ x, y, score });
+  }));
+
+  // Best overlaps first, each finding used once
+  const matched = new Set<Finding>();
+  pairs.sort((p, q) => q.score - p.score).forEach(({ x, y }) => {
+    if (matched.has(x) || matched.has(y)) return;
+    matched.add(x);
+    matched.add(y);
+  });
+
+  return {
+    scoreDelta: after.score - before.score,
+    fixed: changes(before, a, matched),
+    introduced: changes(after, b, matched),
+    unchanged: a.filter(f => matched.has(f)).length
+  };
+};
@@ -0,0 +1,351 @@
+import { D50, labToXyz, xyzToLab } from './colorUtils';
+
+/**
+ * ICC profile reader (v2 and v4): matrix/TRC profiles and the LUT-based
+ * lut8, lut16, lutAtoB and lutBtoA tags. Everything is expressed in PCS XYZ
+ * (D50, Y = 1 for the media white); device values are 0-1.
+ */
+
+type Vec = number[];
+type Stage = (v: Vec) => Vec;
+
+export interface IccProfile {
+  description: string;
+  deviceClass: string;  // 'prtr', 'mntr', 'scnr', ...
+  colorSpace: string;   // 'CMYK', 'RGB', 'GRAY', ...
+  channels: number;
+  mediaWhite: [number, number, number];
+  // Device -> PCS and back (colorimetric intent); null when the profile has no such transform
+  toPcs: ((device: Vec) => Vec) | null;
+  fromPcs: ((xyz: Vec) => Vec) | null;
+  // PCS -> > 0 when the colour is outside the device gamut ('gamt' tag)
+  gamut: ((xyz: Vec) => number) | null;
+}
+
+const COLOR_SPACE_CHANNELS: Record<string, number> = { GRAY: 1, RGB: 3, CMY: 3, CMYK: 4, Lab: 3, XYZ: 3 };
+
+// Largest XYZ value of the u1Fixed15 encoding
+const XYZ_RANGE = 65535 / 32768;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const compose = (stages: Stage[]): Stage => (v) => stages.reduce((acc, stage) => stage(acc), v);
+
+// PCS encodings of the LUT tags. lut16 keeps the legacy (v2) 16-bit Lab encoding.
+const decodePcs = (pcs: string, legacyLab: boolean): Stage => pcs === 'Lab'
+  ? (v) => {
+      const s = legacyLab ? 65535 / 65280 : 1;
+      return labToXyz([v[0] * s * 100, v[1] * s * 255 - 128, v[2] * s * 255 - 128]);
+    }
+  : (v) => v.map(c => c * XYZ_RANGE);
+
+const encodePcs = (pcs: string, legacyLab: boolean): Stage => pcs === 'Lab'
+  ? (xyz) => {
+      const [l, a, b] = xyzToLab(xyz);
+      const s = legacyLab ? 65280 / 65535 : 1;
+      return [clamp01(l / 100 * s), clamp01((a + 128) / 255 * s), clamp01((b + 128) / 255 * s)];
+    }
+  : (xyz) => xyz.map(c => clamp01(c / XYZ_RANGE));
+
+// Piecewise linear lookup of an evenly sampled 0-1 table
+const tableCurve = (table: Float32Array) => (x: number) => {
+  const n = table.length - 1;
+  const p = clamp01(x) * n;
+  const i = Math.min(n - 1, Math.floor(p));
+  const f = p - i;
+  return table[i] * (1 - f) + table[i + 1] * f;
+};
+
+// Inverse of a monotonic curve, by sampling and searching the samples
+const invertCurve = (curve: (x: number) => number) => {
+  const samples = new Float32Array(4097);
+  for (let i = 0; i <= 4096; i++) samples[i] = curve(i / 4096);
+  const rising = samples[4096] >= samples[0];
+  return (y: number) => {
+    let lo = 0, hi = 4096;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if ((samples[mid] <= y) === rising) lo = mid; else hi = mid;
+    }
+    const span = samples[hi] - samples[lo];
+    const f = span ? clamp01((y - samples[lo]) / span) : 0;
+    return (lo + f) / 4096;
+  };
+};
+
+// Multilinear interpolation in an n-dimensional grid (first input varies slowest)
+const clutStage = (grid: number[], outputs: number, values: Float32Array): Stage => {
+  const inputs = grid.length;
+  const strides = new Array<number>(inputs);
+  let stride = outputs;
+  for (let d = inputs - 1; d >= 0; d--) {
+    strides[d] = stride;
+    stride *= grid[d];
+  }
+  return (v) => {
+    const base: number[] = [];
+    const frac: number[] = [];
+    for (let d = 0; d < inputs; d++) {
+      const p = clamp01(v[d]) * (grid[d] - 1);
+      const i = Math.min(grid[d] - 2, Math.floor(p));
+      base.push(Math.max(0, i));
+      frac.push(grid[d] > 1 ? p - Math.max(0, i) : 0);
+    }
+    const out = new Array<number>(outputs).fill(0);
+    for (let corner = 0; corner < 1 << inputs; corner++) {
+      let weight = 1;
+      let offset = 0;
+      for (let d = 0; d < inputs; d++) {
+        const high = (corner >> d) & 1;
+        weight *= high ? frac[d] : 1 - frac[d];
+        offset += (base[d] + (grid[d] > 1 ? high : 0)) * strides[d];
+      }
+      if (!weight) continue;
+      for (let o = 0; o < outputs; o++) out[o] += weight * values[offset + o];
+    }
+    return out;
+  };
+};
+
+const curvesStage = (curves: ((x: number) => number)[]): Stage => (v) => v.map((c, i) => curves[i](c));
+
+export const isIccFile = (file: { name?: string }) => /\.(icc|icm)$/i.test(file.name || '');
+
+/**
+ * Parses an ICC profile. Throws on files that are not profiles.
+ */
+export const parseIccProfile = (buffer: ArrayBuffer): IccProfile => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 132) throw new Error("Not an ICC profile");
+  const text = (offset: number, length: number) => {
+    let s = '';
+    for (let i = 0; i < length; i++) s += String.fromCharCode(view.getUint8(offset + i));
+    return s;
+  };
+  if (text(36, 4) !== 'acsp') throw new Error("Not an ICC profile");
+
+  const s15 = (offset: number) => view.getInt32(offset) / 65536;
+  const deviceClass = text(12, 4);
+  const colorSpace = text(16, 4).trim();
+  const pcs = text(20, 4).trim();
+  const channels = COLOR_SPACE_CHANNELS[colorSpace];
+  if (!channels) throw new Error(`Unsupported profile colour space (${colorSpace})`);
+
+  const tags = new Map<string, number>();
+  const tagCount = view.getUint32(128);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    tags.set(text(entry, 4), view.getUint32(entry + 4));
+  }
+  const tagType = (offset: number) => text(offset, 4);
+
+  // Tone curve; returns the curve and its size in bytes
+  const readCurve = (offset: number): { curve: (x: number) => number; size: number } => {
+    const type = tagType(offset);
+    if (type === 'curv') {
+      const count = view.getUint32(offset + 8);
+      const size = 12 + count * 2;
+      if (count === 0) return { curve: x => x, size };
+      if (count === 1) {
+        const gamma = view.getUint16(offset + 12) / 256;
+        return { curve: x => Math.pow(clamp01(x), gamma), size };
+      }
+      const table = new Float32Array(count);
+      for (let i = 0; i < count; i++) table[i] = view.getUint16(offset + 12 + i * 2) / 65535;
+      return { curve: tableCurve(table), size };
+    }
+    if (type === 'para') {
+      const fn = view.getUint16(offset + 8);
+      const count = [1, 3, 4, 5, 7][fn];
+      if (count === undefined) throw new Error(`Unsupported parametric curve (${fn})`);
+      const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = Array.from({ length: count }, (_, i) => s15(offset + 12 + i * 4));
+      const pow = (x: number) => Math.pow(Math.max(0, x), g);
+      const curves = [
+        (x: number) => pow(x),
+        (x: number) => x >= -b / a ? pow(a * x + b) : 0,
+        (x: number) => x >= -b / a ? pow(a * x + b) + c : c,
+        (x: number) => x >= d ? pow(a * x + b) : c * x,
+        (x: number) => x >= d ? pow(a * x + b) + e : c * x + f
+      ];
+      return { curve: curves[fn], size: 12 + count * 4 };
+    }
+    throw new Error(`Unsupported curve type (${type})`);
+  };
+
+  const readCurves = (offset: number, count: number) => {
+    const curves: ((x: number) => number)[] = [];
+    for (let i = 0; i < count; i++) {
+      const { curve, size } = readCurve(offset);
+      curves.push(curve);
+      offset += (size + 3) & ~3;
+    }
+    return curves;
+  };
+
+  const readXyz = (offset: number): [number, number, number] =>
+    [s15(offset + 8), s15(offset + 12), s15(offset + 16)];
+
+  // lut8 / lut16: [matrix (XYZ input only)] -> input tables -> CLUT -> output tables
+  const readLut = (offset: number, inputIsXyz: boolean): Stage => {
+    const wide = tagType(offset) === 'mft2';
+    const inputs = view.getUint8(offset + 8);
+    const outputs = view.getUint8(offset + 9);
+    const gridPoints = view.getUint8(offset + 10);
+    const matrix = Array.from({ length: 9 }, (_, i) => s15(offset + 12 + i * 4));
+    const inEntries = wide ? view.getUint16(offset + 48) : 256;
+    const outEntries = wide ? view.getUint16(offset + 50) : 256;
+    const bytes = wide ? 2 : 1;
+    const max = wide ? 65535 : 255;
+    let pos = offset + (wide ? 52 : 48);
+    const read = () => {
+      const v = wide ? view.getUint16(pos) : view.getUint8(pos);
+      pos += bytes;
+      return v / max;
+    };
+    const readTables = (count: number, entries: number) => Array.from({ length: count }, () => {
+      const table = new Float32Array(entries);
+      for (let i = 0; i < entries; i++) table[i] = read();
+      return tableCurve(table);
+    });
+
+    const inputTables = readTables(inputs, inEntries);
+    const clut = new Float32Array(Math.pow(gridPoints, inputs) * outputs);
+    for (let i = 0; i < clut.length; i++) clut[i] = read();
+    const outputTables = readTables(outputs, outEntries);
+
+    const stages: Stage[] = [];
+    if (inputIsXyz) {
+      stages.push(v => [0, 1, 2].map(r => clamp01(matrix[r * 3] * v[0] + matrix[r * 3 + 1] * v[1] + matrix[r * 3 + 2] * v[2])));
+    }
+    stages.push(curvesStage(inputTables), clutStage(new Array(inputs).fill(gridPoints), outputs, clut), curvesStage(outputTables));
+    return compose(stages);
+  };
+
+  // lutAtoB: A curves -> CLUT -> M curves -> matrix -> B curves; lutBtoA runs the other way
+  const readLutAB = (offset: number): Stage => {
+    const aToB = tagType(offset) === 'mAB ';
+    const inputs = view.getUint8(offset + 8);
+    const outputs = view.getUint8(offset + 9);
+    const [bOffset, matrixOffset, mOffset, clutOffset, aOffset] = [12, 16, 20, 24, 28].map(o => view.getUint32(offset + o));
+    const pcsChannels = aToB ? outputs : inputs;
+    const deviceChannels = aToB ? inputs : outputs;
+
+    const b = bOffset ? curvesStage(readCurves(offset + bOffset, pcsChannels)) : null;
+    const m = mOffset ? curvesStage(readCurves(offset + mOffset, pcsChannels)) : null;
+    const a = aOffset ? curvesStage(readCurves(offset + aOffset, deviceChannels)) : null;
+    let matrix: Stage | null = null;
+    if (matrixOffset) {
+      const e = Array.from({ length: 12 }, (_, i) => s15(offset + matrixOffset + i * 4));
+      matrix = v => [0, 1, 2].map(r => clamp01(e[r * 3] * v[0] + e[r * 3 + 1] * v[1] + e[r * 3 + 2] * v[2] + e[9 + r]));
+    }
+    let clut: Stage | null = null;
+    if (clutOffset) {
+      const o = offset + clutOffset;
+      const grid = Array.from({ length: inputs }, (_, i) => view.getUint8(o + i));
+      const precision = view.getUint8(o + 16);
+      const values = new Float32Array(grid.reduce((n, g) => n * g, outputs));
+      for (let i = 0; i < values.length; i++) {
+        values[i] = precision === 1 ? view.getUint8(o + 20 + i) / 255 : view.getUint16(o + 20 + i * 2) / 65535;
+      }
+      clut = clutStage(grid, outputs, values);
+    }
+    const stages = aToB ? [a, clut, m, matrix, b] : [b, matrix, m, clut, a];
+    return compose(stages.filter((s): s is Stage => !!s));
+  };
+
+  const readTransform = (offset: number, inputIsPcs: boolean): Stage => {
+    const type = tagType(offset);
+    if (type === 'mft1' || type === 'mft2') return readLut(offset, inputIsPcs && pcs === 'XYZ');
+    if (type === 'mAB ' || type === 'mBA ') return readLutAB(offset);
+    throw new Error(`Unsupported transform type (${type})`);
+  };
+
+  const firstTag = (...signatures: string[]) => signatures.map(s => tags.get(s)).find(o => o !== undefined);
+
+  // Colorimetric intent first, as used for proofing
+  let toPcs: IccProfile['toPcs'] = null;
+  let fromPcs: IccProfile['fromPcs'] = null;
+  const aToB = firstTag('A2B1', 'A2B0');
+  const bToA = firstTag('B2A1', 'B2A0');
+  if (aToB !== undefined) {
+    const legacy = tagType(aToB) === 'mft2';
+    toPcs = compose([readTransform(aToB, false), decodePcs(pcs, legacy)]);
+  }
+  if (bToA !== undefined) {
+    const legacy = tagType(bToA) === 'mft2';
+    fromPcs = compose([encodePcs(pcs, legacy), readTransform(bToA, true)]);
+  }
+
+  // Matrix / TRC display profiles
+  const [rXyz, gXyz, bXyz] = ['rXYZ', 'gXYZ', 'bXYZ'].map(s => tags.get(s));
+  const [rTrc, gTrc, bTrc] = ['rTRC', 'gTRC', 'bTRC'].map(s => tags.get(s));
+  if (!toPcs && colorSpace === 'RGB' && rXyz !== undefined && gXyz !== undefined && bXyz !== undefined
+      && rTrc !== undefined && gTrc !== undefined && bTrc !== undefined) {
+    const columns = [readXyz(rXyz), readXyz(gXyz), readXyz(bXyz)];
+    const m = [0, 1, 2].map(r => columns.map(c => c[r]));
+    const trc = [rTrc, gTrc, bTrc].map(o => readCurve(o).curve);
+    const inverseTrc = trc.map(invertCurve);
+    const inv = invert3(m);
+    toPcs = (v) => {
+      const lin = v.map((c, i) => trc[i](c));
+      return m.map(row => row[0] * lin[0] + row[1] * lin[1] + row[2] * lin[2]);
+    };
+    fromPcs = (xyz) => inv.map((row, i) => inverseTrc[i](clamp01(row[0] * xyz[0] + row[1] * xyz[1] + row[2] * xyz[2])));
+  }
+  const kTrc = tags.get('kTRC');
+  if (!toPcs && colorSpace === 'GRAY' && kTrc !== undefined) {
+    const curve = readCurve(kTrc).curve;
+    const inverse = invertCurve(curve);
+    toPcs = (v) => D50.map(w => w * curve(v[0]));
+    fromPcs = (xyz) => [inverse(clamp01(xyz[1]))];
+  }
+
+  const gamutTag = tags.get('gamt');
+  let gamut: IccProfile['gamut'] = null;
+  if (gamutTag !== undefined) {
+    const legacy = tagType(gamutTag) === 'mft2';
+    const lookup = compose([encodePcs(pcs, legacy), readTransform(gamutTag, true)]);
+    gamut = (xyz) => lookup(xyz)[0];
+  }
+
+  const wtpt = tags.get('wtpt');
+  return {
+    description: readDescription(view, tags.get('desc'), text) || 'Без названия',
+    deviceClass,
+    colorSpace,
+    channels,
+    mediaWhite: wtpt !== undefined ? readXyz(wtpt) : [...D50],
+    toPcs,
+    fromPcs,
+    gamut
+  };
+};
+
+// 'desc' (v2 textDescriptionType) or 'mluc' (v4, first record)
+const readDescription = (view: DataView, offset: number | undefined, text: (offset: number, length: number) => string): string => {
+  if (offset === undefined) return '';
+  const type = text(offset, 4);
+  if (type === 'desc') {
+    const length = view.getUint32(offset + 8);
+    return text(offset + 12, length).replace(/\0+$/, '');
+  }
+  if (type === 'mluc' && view.getUint32(offset + 8) > 0) {
+    const length = view.getUint32(offset + 20);
+    const start = offset + view.getUint32(offset + 24);
+    let s = '';
+    for (let i = 0; i < length; i += 2) s += String.fromCharCode(view.getUint16(start + i));
+    return s.replace(/\0+$/, '');
+  }
+  return '';
+};
+
+const invert3 = (m: number[][]): number[][] => {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (!det) throw new Error("Profile matrix is not invertible");
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det]
+  ];
+};
@@ -0,0 +1,293 @@
+import * as THREE from 'three';
+import { HDRLoader } from 'three/examples/jsm/loaders/HDRLoader.js';
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
+import { EnvironmentMap, KeyLight, LightingConfig, LightingPresetId } from '../types';
+
+type Rgb = [number, number, number];
+
+// Rectangular light source on the environment sphere (softbox, strip light, luminaire)
+interface LightPanel {
+  azimuthDeg: number;
+  elevationDeg: number;
+  widthDeg: number;
+  heightDeg: number;
+  color: Rgb;
+  intensity: number;
+}
+
+// Generated studio: a sky / horizon / floor gradient with light panels on top
+interface StudioScene {
+  zenith: Rgb;
+  horizon: Rgb;
+  nadir: Rgb;
+  panels: LightPanel[];
+}
+
+// Either a downloaded HDRI or a generated studio
+export type LightingPreset = {
+  id: Exclude<LightingPresetId, 'custom'>;
+  label: string;
+  ambient: number;
+} & ({ url: string } | { studio: StudioScene });
+
+// Width of generated environments; uploads are downsampled to MAX_ENVIRONMENT_WIDTH
+const STUDIO_WIDTH = 512;
+const MAX_ENVIRONMENT_WIDTH = 1024;
+
+// Edge falloff of light panels, degrees
+const PANEL_SOFTNESS_DEG = 2;
+
+const scale = (c: Rgb, k: number): Rgb => [c[0] * k, c[1] * k, c[2] * k];
+
+// Fluorescent retail tubes, around 4000 K
+const WARM_WHITE: Rgb = [1, 0.93, 0.82];
+const NEUTRAL: Rgb = [1, 1, 1];
+
+// The camera looks down from azimuth 90 (+Z), so the mirror highlight of the sheet is at azimuth -90
+export const LIGHTING_PRESETS: LightingPreset[] = [
+  {
+    id: 'warehouse',
+    label: 'Склад (HDRI)',
+    ambient: 0.3,
+    url: 'https://dl.polyhaven.org/file/ph-assets/HDRIs/hdr/1k/empty_warehouse_01_1k.hdr'
+  },
+  {
+    id: 'studio',
+    label: 'Студия: софтбокс',
+    ambient: 0.1,
+    studio: {
+      zenith: scale(NEUTRAL, 0.03),
+      horizon: scale(NEUTRAL, 0.02),
+      nadir: scale(NEUTRAL, 0.01),
+      panels: [
+        { azimuthDeg: -90, elevationDeg: 60, widthDeg: 40, heightDeg: 25, color: NEUTRAL, intensity: 6 },
+        { azimuthDeg: 20, elevationDeg: 25, widthDeg: 10, heightDeg: 40, color: NEUTRAL, intensity: 2 },
+        { azimuthDeg: 160, elevationDeg: 25, widthDeg: 10, heightDeg: 40, color: NEUTRAL, intensity: 2 }
+      ]
+    }
+  },
+  {
+    id: 'retail',
+    label: 'Торговая полка',
+    ambient: 0.3,
+    studio: {
+      zenith: scale(WARM_WHITE, 0.25),
+      horizon: scale(WARM_WHITE, 0.45),
+      nadir: scale(WARM_WHITE, 0.2),
+      panels: [
+        // Rows of ceiling tubes across the aisle
+        ...[35, 55, 75].flatMap(elevationDeg => [-90, 90].map(azimuthDeg => (
+          { azimuthDeg, elevationDeg, widthDeg: 90, heightDeg: 3, color: WARM_WHITE, intensity: 8 }
+        ))),
+        // Packaging on the opposite shelf
+        { azimuthDeg: 30, elevationDeg: 5, widthDeg: 25, heightDeg: 15, color: [0.8, 0.25, 0.15], intensity: 0.5 },
+        { azimuthDeg: 60, elevationDeg: 8, widthDeg: 20, heightDeg: 18, color: [0.15, 0.35, 0.8], intensity: 0.5 },
+        { azimuthDeg: 120, elevationDeg: 5, widthDeg: 30, heightDeg: 12, color: [0.9, 0.8, 0.3], intensity: 0.5 },
+        { azimuthDeg: 150, elevationDeg: 6, widthDeg: 15, heightDeg: 15, color: [0.2, 0.6, 0.3], intensity: 0.5 }
+      ]
+    }
+  },
+  {
+    // ISO 3664 P1: diffuse luminaire overhead, neutral grey (N8) surround. The light is
+    // shown as the display white, as the eye adapts to D50 in the booth
+    id: 'd50Booth',
+    label: 'Просмотровая кабина D50',
+    ambient: 0.4,
+    studio: {
+      zenith: scale(NEUTRAL, 0.6),
+      horizon: scale(NEUTRAL, 0.5),
+      nadir: scale(NEUTRAL, 0.4),
+      panels: [
+        { azimuthDeg: 0, elevationDeg: 80, widthDeg: 360, heightDeg: 25, color: NEUTRAL, intensity: 3 }
+      ]
+    }
+  }
+];
+
+export const DEFAULT_LIGHTING: LightingConfig = {
+  preset: 'warehouse',
+  rotationDeg: 0,
+  ambient: 0.3,
+  keyLights: []
+};
+
+export const createKeyLight = (): KeyLight => ({
+  id: `key-${Date.now()}`,
+  azimuthDeg: -90,
+  elevationDeg: 45,
+  intensity: 1.5,
+  color: '#ffffff'
+});
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Signed difference of two angles, -180..180
+const angleDelta = (a: number, b: number) => ((a - b) % 360 + 540) % 360 - 180;
+
+// Azimuth of column x and elevation of row y (matches three.js equirectUv)
+const columnAzimuth = (x: number, width: number) => ((x + 0.5) / width - 0.5) * 360;
+const rowElevation = (y: number, height: number) => 90 - ((y + 0.5) / height) * 180;
+
+/**
+ * Renders a generated studio into an equirectangular map.
+ */
+export const renderStudio = (studio: StudioScene, width = STUDIO_WIDTH): EnvironmentMap => {
+  const height = width / 2;
+  const data = new Float32Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const elevation = rowElevation(y, height);
+    // Gradient: horizon blending into the zenith above and the floor below
+    const t = Math.abs(elevation) / 90;
+    const pole = elevation >= 0 ? studio.zenith : studio.nadir;
+    const base = [0, 1, 2].map(c => studio.horizon[c] + (pole[c] - studio.horizon[c]) * t);
+
+    for (let x = 0; x < width; x++) {
+      const azimuth = columnAzimuth(x, width);
+      const rgb = [...base];
+      studio.panels.forEach(panel => {
+        const du = panel.widthDeg >= 360 ? 0 : Math.abs(angleDelta(azimuth, panel.azimuthDeg));
+        const dv = Math.abs(elevation - panel.elevationDeg);
+        const w = (1 - smoothstep(panel.widthDeg / 2 - PANEL_SOFTNESS_DEG, panel.widthDeg / 2 + PANEL_SOFTNESS_DEG, du))
+          * (1 - smoothstep(panel.heightDeg / 2 - PANEL_SOFTNESS_DEG, panel.heightDeg / 2 + PANEL_SOFTNESS_DEG, dv));
+        for (let c = 0; c < 3; c++) rgb[c] += panel.color[c] * panel.intensity * w;
+      });
+      const i = (y * width + x) * 4;
+      data[i] = rgb[0];
+      data[i + 1] = rgb[1];
+      data[i + 2] = rgb[2];
+      data[i + 3] = 1;
+    }
+  }
+  return { width, height, data };
+};
+
+// Box filter down to maxWidth (keeps the 2:1 layout of the source)
+const downsample = (map: EnvironmentMap, maxWidth: number): EnvironmentMap => {
+  const factor = Math.ceil(map.width / maxWidth);
+  if (factor <= 1) return map;
+  const width = Math.floor(map.width / factor);
+  const height = Math.floor(map.height / factor);
+  const data = new Float32Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      for (let sy = 0; sy < factor; sy++) {
+        for (let sx = 0; sx < factor; sx++) {
+          const i = ((y * factor + sy) * map.width + x * factor + sx) * 4;
+          for (let c = 0; c < 4; c++) data[o + c] += map.data[i + c];
+        }
+      }
+      for (let c = 0; c < 4; c++) data[o + c] /= factor * factor;
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Decodes an .hdr (Radiance) or .exr (OpenEXR) equirectangular image.
+ */
+export const decodeEnvironment = (buffer: ArrayBuffer, fileName: string): EnvironmentMap => {
+  const isExr = /\.exr$/i.test(fileName);
+  const parsed = isExr
+    ? new EXRLoader().setDataType(THREE.FloatType).parse(buffer)
+    : new HDRLoader().setDataType(THREE.FloatType).parse(buffer);
+  const { width, height } = parsed;
+  const source = parsed.data as Float32Array;
+  if (!width || !height || source.length !== width * height * 4) throw new Error("Unsupported environment image");
+
+  // EXRLoader returns the bottom row first
+  let data = source;
+  if (isExr) {
+    data = new Float32Array(source.length);
+    const row = width * 4;
+    for (let y = 0; y < height; y++) data.set(source.subarray((height - 1 - y) * row, (height - y) * row), y * row);
+  }
+  return downsample({ width, height, data }, MAX_ENVIRONMENT_WIDTH);
+};
+
+/**
+ * Environment of a built-in preset (the HDRI one is downloaded).
+ */
+export const loadPresetEnvironment = async (preset: LightingPreset): Promise<EnvironmentMap> => {
+  if ('studio' in preset) return renderStudio(preset.studio);
+  const response = await fetch(preset.url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return decodeEnvironment(await response.arrayBuffer(), preset.url);
+};
+
+/**
+ * Turns the environment around the vertical axis: what was at azimuth a moves to a + degrees.
+ */
+export const rotateEnvironment = (map: EnvironmentMap, degrees: number): EnvironmentMap => {
+  const shift = Math.round((degrees / 360) * map.width);
+  if (shift % map.width === 0) return map;
+  const { width, height } = map;
+  const data = new Float32Array(map.data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const from = (y * width + ((x - shift) % width + width) % width) * 4;
+      data.set(map.data.subarray(from, from + 4), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Radiance .hdr file of the map (run-length scanlines with literal runs only),
+ * so the export loads exactly the environment the app shows.
+ */
+export const encodeRgbe = (map: EnvironmentMap): Uint8Array => {
+  const { width, height } = map;
+  const header = new TextEncoder().encode(`#?RADIANCE\nFORMAT=32-bit_rle_rgbe\n\n-Y ${height} +X ${width}\n`);
+  const perLine = 4 + 4 * (width + Math.ceil(width / 128));
+  const out = new Uint8Array(header.length + height * perLine);
+  out.set(header);
+  let pos = header.length;
+  const line = new Uint8Array(width * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = map.data[i], g = map.data[i + 1], b = map.data[i + 2];
+      const max = Math.max(r, g, b);
+      if (max < 1e-32) {
+        line[x] = line[width + x] = line[2 * width + x] = line[3 * width + x] = 0;
+        continue;
+      }
+      const e = Math.ceil(Math.log2(max) + 1e-9);
+      const f = 256 / 2 ** e;
+      line[x] = Math.min(255, Math.floor(r * f));
+      line[width + x] = Math.min(255, Math.floor(g * f));
+      line[2 * width + x] = Math.min(255, Math.floor(b * f));
+      line[3 * width + x] = e + 128;
+    }
+    out[pos++] = 2;
+    out[pos++] = 2;
+    out[pos++] = width >> 8;
+    out[pos++] = width & 255;
+    // Each channel in literal runs of up to 128 bytes
+    for (let c = 0; c < 4; c++) {
+      for (let x = 0; x < width; x += 128) {
+        const count = Math.min(128, width - x);
+        out[pos++] = count;
+        out.set(line.subarray(c * width + x, c * width + x + count), pos);
+        pos += count;
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * World position of a key light at the given distance from the sheet centre,
+ * turned with the environment.
+ */
+export const keyLightPosition = (light: KeyLight, rotationDeg: number, distance = 10): [number, number, number] => {
+  const az = THREE.MathUtils.degToRad(light.azimuthDeg + rotationDeg);
+  const el = THREE.MathUtils.degToRad(light.elevationDeg);
+  return [Math.cos(el) * Math.cos(az) * distance, Math.sin(el) * distance, Math.cos(el) * Math.sin(az) * distance];
+};
+
@@ -0,0 +1,116 @@
+import { WhiteGenOptions } from '../types';
+import { MaskData, boxBlur } from './textureUtils';
+import { hexToRgb } from './colorUtils';
+
+export const DEFAULT_WHITE_GEN_OPTIONS: WhiteGenOptions = {
+  mode: 'keyColor',
+  keyColor: '#c0c0c0', // Placeholder spot silver
+  threshold: 20,
+  tolerance: 10,
+  smoothing: 1,
+  seeds: [],
+  invert: false
+};
+
+// Rec. 709 luma, 0-255
+const luminance = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+// HSV saturation, 0-255
+const saturation = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  return max === 0 ? 0 : ((max - Math.min(r, g, b)) / max) * 255;
+};
+
+// Soft step: 1 well below the limit, 0 above it, linear over the tolerance band
+const below = (value: number, limit: number, band: number) =>
+  band > 0 ? Math.min(1, Math.max(0, (limit - value) / band + 0.5)) : (value < limit ? 1 : 0);
+
+/**
+ * Magic wand: 4-connected pixels around each seed whose colour is within tolerance of the seed colour.
+ */
+const selectFromSeeds = (rgba: Uint8ClampedArray, width: number, height: number, options: WhiteGenOptions): Float32Array => {
+  const metal = new Float32Array(width * height);
+  const maxDist = (options.tolerance / 100) * 441.7; // 441.7 = RGB cube diagonal
+  const maxDistSq = maxDist * maxDist;
+  const visited = new Uint8Array(width * height);
+  let stack = new Int32Array(1024);
+
+  options.seeds.forEach(seed => {
+    const sx = Math.min(width - 1, Math.max(0, Math.floor(seed.x * width)));
+    const sy = Math.min(height - 1, Math.max(0, Math.floor(seed.y * height)));
+    const start = sy * width + sx;
+    const r0 = rgba[start * 4], g0 = rgba[start * 4 + 1], b0 = rgba[start * 4 + 2];
+
+    visited.fill(0);
+    stack[0] = start;
+    visited[start] = 1;
+    let top = 1;
+
+    const visit = (n: number) => {
+      if (visited[n]) return;
+      visited[n] = 1;
+      const dr = rgba[n * 4] - r0, dg = rgba[n * 4 + 1] - g0, db = rgba[n * 4 + 2] - b0;
+      if (dr * dr + dg * dg + db * db > maxDistSq) return;
+      if (top === stack.length) {
+        const grown = new Int32Array(stack.length * 2);
+        grown.set(stack);
+        stack = grown;
+      }
+      stack[top++] = n;
+    };
+
+    while (top > 0) {
+      const p = stack[--top];
+      metal[p] = 1;
+      const x = p % width;
+      if (x > 0) visit(p - 1);
+      if (x < width - 1) visit(p + 1);
+      if (p >= width) visit(p - width);
+      if (p + width < metal.length) visit(p + width);
+    }
+  });
+  return metal;
+};
+
+/**
+ * Builds a white ink mask from the CMYK artwork: pixels matching the mode become bare metal.
+ * Returns the mask in internal logic (255 = Ink, 0 = Metal).
+ */
+export const generateWhiteMask = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: WhiteGenOptions
+): MaskData => {
+  let metal: Float32Array;
+
+  if (options.mode === 'selection') {
+    metal = selectFromSeeds(rgba, width, height, options);
+  } else {
+    metal = new Float32Array(width * height);
+    const band = (options.tolerance / 100) * 255;
+    const limit = (options.threshold / 100) * 255;
+    const [kr, kg, kb] = hexToRgb(options.keyColor);
+
+    for (let p = 0, i = 0; p < metal.length; p++, i += 4) {
+      const r = rgba[i], g = rgba[i + 1], b = rgba[i + 2];
+      if (options.mode === 'keyColor') {
+        const dist = Math.sqrt((r - kr) ** 2 + (g - kg) ** 2 + (b - kb) ** 2) / 441.7 * 255;
+        metal[p] = below(dist, band, Math.max(1, band * 0.25));
+      } else if (options.mode === 'luminance') {
+        metal[p] = below(luminance(r, g, b), limit, band);
+      } else {
+        metal[p] = below(saturation(r, g, b), limit, band);
+      }
+    }
+  }
+
+  boxBlur(metal, width, height, options.smoothing);
+
+  const data = new Uint8Array(width * height);
+  for (let p = 0; p < data.length; p++) {
+    const m = options.invert ? 1 - metal[p] : metal[p];
+    data[p] = Math.round((1 - m) * 255);
+  }
+  return { width, height, data };
+};
@@ -0,0 +1,188 @@
+import { AnalysisIssue, AnalysisResult, FindingCategory, ImageRegion, IssueSeverity, PreflightOptions } from '../types';
+import { CHAMFER_UNIT as UNIT, MaskData, distanceTransform } from './textureUtils';
+
+export const DEFAULT_PREFLIGHT_OPTIONS: PreflightOptions = {
+  minKnockoutWidthMm: 0.3,
+  minLineWidthMm: 0.15,
+  minVarnishWidthMm: 0.5,
+  minWhiteSpeckAreaMm2: 0.05
+};
+
+// Masks the rules run on, all in internal logic (255 = present) and of the same size
+export interface PreflightInput {
+  white: MaskData | null;   // White ink coverage
+  varnishes: { name: string; mask: MaskData }[]; // Coverage of each varnish layer with a mask
+  cmyk: MaskData | null;    // Process ink coverage
+}
+
+// Binary threshold for grayscale masks
+const THRESHOLD = 128;
+// Markers per rule are capped to keep the list readable
+const MAX_REGIONS = 50;
+
+const SEVERITY_PENALTY: Record<IssueSeverity, number> = { error: 20, warning: 8, info: 0 };
+
+// Finding category of each rule (white specks fit none)
+const RULE_CATEGORY: Record<string, FindingCategory> = {
+  'knockout-width': 'knockout',
+  'hairline-on-metal': 'knockout',
+  'varnish-size': 'varnish'
+};
+
+const mmToPx = (mm: number, dpi: number) => (mm / 25.4) * dpi;
+
+const binarize = (mask: MaskData, invert = false): Uint8Array => {
+  const out = new Uint8Array(mask.data.length);
+  for (let p = 0; p < out.length; p++) {
+    out[p] = ((mask.data[p] >= THRESHOLD) !== invert) ? 1 : 0;
+  }
+  return out;
+};
+
+/**
+ * Returns the parts of a binary mask that are narrower than minWidthPx
+ * (the mask minus its morphological opening with a disc of that diameter).
+ */
+const findThinParts = (mask: Uint8Array, width: number, height: number, minWidthPx: number): Uint8Array => {
+  const radius = (minWidthPx / 2) * UNIT;
+
+  // Erosion: pixels deep enough inside the shape
+  const inside = distanceTransform(mask, width, height);
+  const notEroded = new Uint8Array(mask.length);
+  for (let p = 0; p < mask.length; p++) notEroded[p] = (mask[p] && inside[p] >= radius) ? 0 : 1;
+
+  // Dilation of the eroded shape by the same radius
+  const toEroded = distanceTransform(notEroded, width, height);
+  const thin = notEroded; // Reuse the buffer
+  for (let p = 0; p < mask.length; p++) thin[p] = (mask[p] && toEroded[p] > radius) ? 1 : 0;
+  return thin;
+};
+
+export interface Component {
+  region: ImageRegion;
+  area: number;
+}
+
+/**
+ * 8-connected components of a binary mask. The mask is cleared while it is walked.
+ */
+export const findComponents = (mask: Uint8Array, width: number, height: number): Component[] => {
+  const components: Component[] = [];
+  let stack = new Int32Array(1024);
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start]) continue;
+    mask[start] = 0;
+    stack[0] = start;
+    let top = 1;
+    let area = 0;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+
+    while (top > 0) {
+      const p = stack[--top];
+      const x = p % width;
+      const y = (p - x) / width;
+      area++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const n = ny * width + nx;
+          if (!mask[n]) continue;
+          mask[n] = 0;
+          if (top === stack.length) {
+            const grown = new Int32Array(stack.length * 2);
+            grown.set(stack);
+            stack = grown;
+          }
+          stack[top++] = n;
+        }
+      }
+    }
+
+    components.push({ area, region: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } });
+  }
+  return components;
+};
+
+export const largestRegions = (components: Component[]): ImageRegion[] =>
+  [...components].sort((a, b) => b.area - a.area).slice(0, MAX_REGIONS).map(c => c.region);
+
+// Thin fragments smaller than a square of the minimum width are opening artefacts (rounded corners)
+const thinIssueComponents = (thin: Uint8Array, width: number, height: number, minWidthPx: number) =>
+  findComponents(thin, width, height).filter(c => c.area >= minWidthPx * minWidthPx);
+
+const and = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(a.length);
+  for (let p = 0; p < a.length; p++) out[p] = a[p] & b[p];
+  return out;
+};
+
+/**
+ * Rule-based preflight of the white ink, varnish and CMYK rasters.
+ * Deterministic and offline: the same input always gives the same result.
+ */
+export const runPreflight = (input: PreflightInput, options: PreflightOptions, dpi: number): AnalysisResult => {
+  const base = input.white || input.varnishes[0]?.mask || input.cmyk;
+  if (!base) throw new Error("No layers to check");
+  const { width, height } = base;
+  const issues: AnalysisIssue[] = [];
+
+  const addIssue = (rule: string, severity: IssueSeverity, components: Component[], message: (count: number) => string) => {
+    if (components.length === 0) return;
+    issues.push({ rule, severity, message: message(components.length), regions: largestRegions(components), category: RULE_CATEGORY[rule] });
+  };
+
+  if (input.white) {
+    // 1. Knocked-out (bare metal) elements narrower than the minimum
+    const knockoutPx = mmToPx(options.minKnockoutWidthMm, dpi);
+    const metal = binarize(input.white, true);
+    addIssue('knockout-width', 'error',
+      thinIssueComponents(findThinParts(metal, width, height, knockoutPx), width, height, knockoutPx),
+      count => `Выворотки в белилах уже ${options.minKnockoutWidthMm} мм: ${count}. Тонкие элементы металла зальются белилами.`);
+
+    // 2. Small text and hairlines printed over bare metal
+    if (input.cmyk) {
+      const linePx = mmToPx(options.minLineWidthMm, dpi);
+      const inkOnMetal = and(binarize(input.cmyk), metal);
+      addIssue('hairline-on-metal', 'warning',
+        thinIssueComponents(findThinParts(inkOnMetal, width, height, linePx), width, height, linePx),
+        count => `Мелкий текст или линии тоньше ${options.minLineWidthMm} мм по открытому металлу без белил: ${count}. Возможна потеря читаемости.`);
+    }
+
+    // 3. Isolated white ink specks
+    const speckAreaPx = mmToPx(1, dpi) ** 2 * options.minWhiteSpeckAreaMm2;
+    const specks = findComponents(binarize(input.white), width, height).filter(c => c.area < speckAreaPx);
+    addIssue('white-speck', 'warning', specks,
+      count => `Изолированные точки белил площадью меньше ${options.minWhiteSpeckAreaMm2} мм²: ${count}. Они не пропечатаются стабильно.`);
+  }
+
+  // 4. Varnish elements below the press minimum, per layer
+  const varnishPx = mmToPx(options.minVarnishWidthMm, dpi);
+  input.varnishes.forEach(({ name, mask }) => {
+    const label = input.varnishes.length > 1 ? ` «${name}»` : '';
+    addIssue('varnish-size', 'warning',
+      thinIssueComponents(findThinParts(binarize(mask), width, height, varnishPx), width, height, varnishPx),
+      count => `Элементы лака${label} меньше ${options.minVarnishWidthMm} мм: ${count}. Минимальный размер для трафаретного лака не соблюден.`);
+  });
+
+  const score = Math.max(0, 100 - issues.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0));
+
+  return {
+    title: "Локальная предпечатная проверка",
+    feedback: issues.length > 0
+      ? issues.map(issue => issue.message)
+      : ["Нарушений правил не найдено."],
+    score,
+    isCompatible: !issues.some(issue => issue.severity === 'error'),
+    issues,
+    imageSize: { width, height }
+  };
+};
@@ -0,0 +1,138 @@
+import { PhysicalSize, PrintSizeConfig } from '../types';
+
+// Used when the file stores no resolution
+export const DEFAULT_DPI = 300;
+
+export const DEFAULT_PRINT_SIZE: PrintSizeConfig = {
+  mode: 'auto',
+  widthMm: 210,
+  bleedMm: 3,
+  safeMm: 3,
+  showGuides: false
+};
+
+const MM_PER_INCH = 25.4;
+
+// Resolutions outside this range are treated as missing
+const MIN_DPI = 10;
+const MAX_DPI = 20000;
+
+const validDpi = (dpi: number) => (isFinite(dpi) && dpi >= MIN_DPI && dpi <= MAX_DPI ? dpi : null);
+
+// unit: 1 = per inch, 2 = per centimetre
+const toDpi = (value: number, unit: number) => validDpi(unit === 2 ? value * 2.54 : unit === 1 ? value : NaN);
+
+// TIFF / EXIF IFD0: XResolution (rational) and ResolutionUnit (2 = inch, 3 = cm)
+const tiffDpi = (view: DataView, start: number): number | null => {
+  const le = view.getUint16(start) === 0x4949;
+  const u16 = (o: number) => view.getUint16(start + o, le);
+  const u32 = (o: number) => view.getUint32(start + o, le);
+  const ifd = u32(4);
+  const count = u16(ifd);
+  let resolution = NaN;
+  let unit = 2;
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = u16(entry);
+    if (tag === 0x011a) {
+      const offset = u32(entry + 8);
+      resolution = u32(offset) / u32(offset + 4);
+    } else if (tag === 0x0128) {
+      unit = u16(entry + 8);
+    }
+  }
+  return unit === 1 ? null : toDpi(resolution, unit === 3 ? 2 : 1);
+};
+
+// PNG pHYs chunk (pixels per metre)
+const pngDpi = (view: DataView): number | null => {
+  let pos = 8;
+  while (pos + 12 <= view.byteLength) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(view.getUint8(pos + 4), view.getUint8(pos + 5), view.getUint8(pos + 6), view.getUint8(pos + 7));
+    if (type === 'pHYs') {
+      return view.getUint8(pos + 16) === 1 ? validDpi(view.getUint32(pos + 8) * 0.0254) : null;
+    }
+    if (type === 'IDAT' || type === 'IEND') return null;
+    pos += 12 + length;
+  }
+  return null;
+};
+
+// JPEG: EXIF (APP1) wins over JFIF (APP0)
+const jpegDpi = (view: DataView): number | null => {
+  let jfif: number | null = null;
+  let pos = 2;
+  while (pos + 4 <= view.byteLength && view.getUint8(pos) === 0xff) {
+    const marker = view.getUint8(pos + 1);
+    if (marker === 0xda || marker === 0xd9) break; // image data follows
+    const length = view.getUint16(pos + 2);
+    const data = pos + 4;
+    const tag = (n: number) => {
+      let s = '';
+      for (let i = 0; i < n; i++) s += String.fromCharCode(view.getUint8(data + i));
+      return s;
+    };
+    if (marker === 0xe0 && tag(5) === 'JFIF\0') {
+      jfif = toDpi(view.getUint16(data + 8), view.getUint8(data + 7));
+    } else if (marker === 0xe1 && tag(6) === 'Exif\0\0') {
+      const exif = tiffDpi(view, data + 6);
+      if (exif) return exif;
+    }
+    pos += 2 + length;
+  }
+  return jfif;
+};
+
+// PSD image resource 0x03ED (ResolutionInfo)
+const psdDpi = (view: DataView): number | null => {
+  let pos = 26;
+  pos += 4 + view.getUint32(pos); // colour mode data
+  const end = pos + 4 + view.getUint32(pos);
+  pos += 4;
+  while (pos + 12 <= end) {
+    const id = view.getUint16(pos + 4);
+    const nameLength = view.getUint8(pos + 6);
+    pos += 6 + ((nameLength + 2) & ~1);
+    const size = view.getUint32(pos);
+    if (id === 0x03ed) return toDpi(view.getUint32(pos + 4) / 65536, view.getUint16(pos + 8));
+    pos += 4 + ((size + 1) & ~1);
+  }
+  return null;
+};
+
+/**
+ * Resolution stored in a PNG, JPEG, TIFF or PSD file, null when there is none.
+ */
+export const readImageDpi = async (file: Blob): Promise<number | null> => {
+  try {
+    const view = new DataView(await file.arrayBuffer());
+    if (view.byteLength < 16) return null;
+    const magic = view.getUint32(0);
+    if (magic === 0x89504e47) return pngDpi(view);
+    if (magic >>> 16 === 0xffd8) return jpegDpi(view);
+    if (magic === 0x49492a00 || magic === 0x4d4d002a) return tiffDpi(view, 0);
+    if (magic === 0x38425053) return psdDpi(view);
+  } catch (e) {
+    console.warn("Could not read the image resolution", e);
+  }
+  return null;
+};
+
+/**
+ * Physical size of the artwork (bleed included): a manual width wins, then the
+ * file's resolution, then DEFAULT_DPI.
+ */
+export const resolvePhysicalSize = (
+  artworkSize: { width: number; height: number } | null,
+  fileDpi: number | null,
+  config: PrintSizeConfig
+): PhysicalSize | null => {
+  if (!artworkSize) return null;
+  const { width, height } = artworkSize;
+  if (config.mode === 'manual' && config.widthMm > 0) {
+    return { widthMm: config.widthMm, heightMm: config.widthMm * height / width, dpi: width / config.widthMm * MM_PER_INCH, source: 'manual' };
+  }
+  const dpi = fileDpi || DEFAULT_DPI;
+  return { widthMm: width / dpi * MM_PER_INCH, heightMm: height / dpi * MM_PER_INCH, dpi, source: fileDpi ? 'file' : 'default' };
+};
@@ -0,0 +1,233 @@
+import { PixelMap, ProofStats, SoftProofOptions } from '../types';
+import { D50, linearSrgbToXyz, linearToSrgb, srgbToLinear, xyzToLab, xyzToLinearSrgb } from './colorUtils';
+import { IccProfile } from './iccProfile';
+import { SeparatedImage } from './separationUtils';
+
+export const DEFAULT_SOFT_PROOF: SoftProofOptions = {
+  enabled: true,
+  paperWhite: false,
+  gamutWarning: false,
+  totalInkLimit: 300
+};
+
+// The profile chain is evaluated on a grid and interpolated per pixel
+const CMYK_GRID = 17;
+const RGB_GRID = 33;
+
+// Colour difference (ΔE76) of the RGB -> press -> RGB round trip treated as out of gamut
+const GAMUT_DELTA_E = 3;
+
+const OUT_OF_GAMUT_COLOR = [255, 0, 255];
+const OVER_LIMIT_COLOR = [0, 230, 255];
+const OVERLAY_ALPHA = 200;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// PCS XYZ of the press -> 8-bit display RGB (output profile or sRGB)
+const createDisplayTransform = (press: IccProfile, output: IccProfile | null, options: SoftProofOptions) => {
+  // Absolute colorimetric: media-relative values scaled by the paper white
+  const white = options.paperWhite ? press.mediaWhite.map((w, i) => w / D50[i]) : [1, 1, 1];
+  const toDevice = output?.fromPcs;
+  return (xyz: number[]): number[] => {
+    const scaled = xyz.map((v, i) => v * white[i]);
+    if (toDevice) return toDevice(scaled).map(v => clamp01(v) * 255);
+    return xyzToLinearSrgb(scaled).map(v => linearToSrgb(clamp01(v)) * 255);
+  };
+};
+
+// Multilinear lookup into a node table (byte inputs), without allocations in the pixel loop
+const createGridSampler = (dims: number, size: number, channels: number, table: Float32Array) => {
+  const strides: number[] = [];
+  let stride = channels;
+  for (let d = dims - 1; d >= 0; d--) {
+    strides[d] = stride;
+    stride *= size;
+  }
+  const corners = 1 << dims;
+  const cornerOffsets = new Int32Array(corners);
+  for (let corner = 0; corner < corners; corner++) {
+    for (let d = 0; d < dims; d++) if ((corner >> d) & 1) cornerOffsets[corner] += strides[d];
+  }
+  const frac = new Float64Array(dims);
+  const scale = (size - 1) / 255;
+
+  return (input: ArrayLike<number>, out: Float32Array) => {
+    let base = 0;
+    for (let d = 0; d < dims; d++) {
+      const p = input[d] * scale;
+      const i = Math.min(size - 2, Math.floor(p));
+      frac[d] = p - i;
+      base += i * strides[d];
+    }
+    out.fill(0);
+    for (let corner = 0; corner < corners; corner++) {
+      let weight = 1;
+      for (let d = 0; d < dims; d++) weight *= (corner >> d) & 1 ? frac[d] : 1 - frac[d];
+      if (!weight) continue;
+      const offset = base + cornerOffsets[corner];
+      for (let c = 0; c < channels; c++) out[c] += weight * table[offset + c];
+    }
+  };
+};
+
+// Calls fn for every grid node with its coordinates (0-1)
+const forEachNode = (dims: number, size: number, fn: (node: number[], index: number) => void) => {
+  const count = Math.pow(size, dims);
+  const node = new Array<number>(dims);
+  for (let index = 0; index < count; index++) {
+    let rest = index;
+    for (let d = dims - 1; d >= 0; d--) {
+      node[d] = (rest % size) / (size - 1);
+      rest = Math.floor(rest / size);
+    }
+    fn(node, index);
+  }
+};
+
+const paintOverlay = (overlay: Uint8ClampedArray, p: number, color: number[]) => {
+  overlay[p * 4] = color[0];
+  overlay[p * 4 + 1] = color[1];
+  overlay[p * 4 + 2] = color[2];
+  overlay[p * 4 + 3] = OVERLAY_ALPHA;
+};
+
+export interface SoftProof {
+  image: PixelMap;
+  overlay: PixelMap;
+  stats: ProofStats;
+}
+
+/**
+ * Soft proof of separated CMYK data (255 = ink): CMYK -> press profile -> PCS -> display.
+ * Device values are printable by definition, so only the total ink limit is checked.
+ */
+export const proofCmyk = (image: SeparatedImage, press: IccProfile, output: IccProfile | null, options: SoftProofOptions): SoftProof => {
+  const toPcs = press.toPcs;
+  if (!toPcs) throw new Error("Press profile has no CMYK to PCS table");
+  const display = createDisplayTransform(press, output, options);
+
+  const table = new Float32Array(Math.pow(CMYK_GRID, 4) * 3);
+  forEachNode(4, CMYK_GRID, (node, index) => {
+    table.set(display(toPcs(node)), index * 3);
+  });
+  const sample = createGridSampler(4, CMYK_GRID, 3, table);
+
+  const { width, height, process } = image;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const overlay = new Uint8ClampedArray(width * height * 4);
+  const alpha = image.extras.find(e => e.kind === 'transparency')?.data;
+  const limit = options.totalInkLimit * 255 / 100;
+  const input = new Uint8Array(4);
+  const rgb = new Float32Array(3);
+  let overLimit = 0;
+  let maxInk = 0;
+
+  for (let p = 0; p < width * height; p++) {
+    for (let c = 0; c < 4; c++) input[c] = process[c][p];
+    sample(input, rgb);
+    data[p * 4] = rgb[0];
+    data[p * 4 + 1] = rgb[1];
+    data[p * 4 + 2] = rgb[2];
+    data[p * 4 + 3] = alpha ? alpha[p] : 255;
+
+    const ink = input[0] + input[1] + input[2] + input[3];
+    if (ink > maxInk) maxInk = ink;
+    if (ink > limit && (!alpha || alpha[p] > 0)) {
+      overLimit++;
+      paintOverlay(overlay, p, OVER_LIMIT_COLOR);
+    }
+  }
+
+  return {
+    image: { width, height, data },
+    overlay: { width, height, data: overlay },
+    stats: { separated: true, outOfGamut: 0, overInkLimit: overLimit / (width * height), maxInk: maxInk / 255 * 100 }
+  };
+};
+
+/**
+ * Soft proof of RGB artwork (sRGB): the colours are separated with the press profile
+ * and converted back. A colour is out of gamut when the profile's gamut tag says so,
+ * or, without that tag, when the round trip moves it by more than GAMUT_DELTA_E.
+ * Out-of-gamut pixels are not counted again as over the ink limit.
+ */
+export const proofRgb = (rgba: Uint8ClampedArray, width: number, height: number, press: IccProfile, output: IccProfile | null, options: SoftProofOptions): SoftProof => {
+  const { toPcs, fromPcs, gamut } = press;
+  if (!toPcs || !fromPcs) throw new Error("Press profile has no PCS to CMYK table, RGB artwork cannot be proofed");
+  const display = createDisplayTransform(press, output, options);
+
+  // Node channels: display RGB, gamut excess (> 1 = outside), total ink %
+  const table = new Float32Array(Math.pow(RGB_GRID, 3) * 5);
+  forEachNode(3, RGB_GRID, (node, index) => {
+    const xyz = linearSrgbToXyz(node.map(srgbToLinear));
+    const cmyk = fromPcs(xyz);
+    const printed = toPcs(cmyk);
+    let excess: number;
+    if (gamut) {
+      excess = gamut(xyz) * 2;
+    } else {
+      const [l1, a1, b1] = xyzToLab(xyz);
+      const [l2, a2, b2] = xyzToLab(printed);
+      excess = Math.hypot(l1 - l2, a1 - a2, b1 - b2) / GAMUT_DELTA_E;
+    }
+    table.set([...display(printed), excess, cmyk.reduce((sum, v) => sum + v, 0) * 100], index * 5);
+  });
+  const sample = createGridSampler(3, RGB_GRID, 5, table);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const overlay = new Uint8ClampedArray(width * height * 4);
+  const input = new Uint8Array(3);
+  const out = new Float32Array(5);
+  let outOfGamut = 0;
+  let overLimit = 0;
+  let maxInk = 0;
+
+  for (let p = 0; p < width * height; p++) {
+    for (let c = 0; c < 3; c++) input[c] = rgba[p * 4 + c];
+    sample(input, out);
+    data[p * 4] = out[0];
+    data[p * 4 + 1] = out[1];
+    data[p * 4 + 2] = out[2];
+    data[p * 4 + 3] = rgba[p * 4 + 3];
+    if (!rgba[p * 4 + 3]) continue;
+
+    if (out[4] > maxInk) maxInk = out[4];
+    if (out[3] > 1) {
+      outOfGamut++;
+      paintOverlay(overlay, p, OUT_OF_GAMUT_COLOR);
+    } else if (out[4] > options.totalInkLimit) {
+      overLimit++;
+      paintOverlay(overlay, p, OVER_LIMIT_COLOR);
+    }
+  }
+
+  return {
+    image: { width, height, data },
+    overlay: { width, height, data: overlay },
+    stats: { separated: false, outOfGamut: outOfGamut / (width * height), overInkLimit: overLimit / (width * height), maxInk }
+  };
+};
+
+/**
+ * Separates RGB artwork (sRGB) into CMYK planes (255 = ink) with the press profile.
+ */
+export const separateRgb = (rgba: Uint8ClampedArray, width: number, height: number, press: IccProfile): Uint8Array[] => {
+  const fromPcs = press.fromPcs;
+  if (!fromPcs) throw new Error("Press profile has no PCS to CMYK table");
+
+  const table = new Float32Array(Math.pow(RGB_GRID, 3) * 4);
+  forEachNode(3, RGB_GRID, (node, index) => {
+    table.set(fromPcs(linearSrgbToXyz(node.map(srgbToLinear))).map(v => clamp01(v) * 255), index * 4);
+  });
+  const sample = createGridSampler(3, RGB_GRID, 4, table);
+
+  const channels = [0, 1, 2, 3].map(() => new Uint8Array(width * height));
+  const input = new Uint8Array(3);
+  const out = new Float32Array(4);
+  for (let p = 0; p < width * height; p++) {
+    for (let c = 0; c < 3; c++) input[c] = rgba[p * 4 + c];
+    sample(input, out);
+    for (let c = 0; c < 4; c++) channels[c][p] = Math.round(out[c]);
+  }
+  return channels;
+};
@@ -0,0 +1,331 @@
+import { decodePackBits, inflate } from './tiffDecoder';
+import type { SeparatedColorModel, SeparatedImage } from './separationUtils';
+
+/**
+ * Minimal PSD / PSB reader: the merged composite and the raster layers of
+ * grayscale, RGB and CMYK documents, 8 or 16 bits per channel (16-bit layers
+ * are read from the Lr16 block). Adjustment layers, masks and effects are ignored.
+ */
+
+export interface PsdLayer {
+  name: string;
+  hidden: boolean;
+  group: boolean;     // Group start / end marker, no pixels
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+  // Channel id (0.. colour, -1 transparency) -> 8-bit data of the layer rectangle
+  channels: Map<number, Uint8Array>;
+}
+
+export interface PsdDocument {
+  width: number;
+  height: number;
+  colorModel: SeparatedColorModel;
+  composite: Uint8Array[] | null; // Colour channels of the merged image
+  layers: PsdLayer[];             // Bottom to top, as in the file
+}
+
+const COLOR_MODELS: Record<number, SeparatedColorModel> = { 1: 'gray', 3: 'rgb', 4: 'cmyk' };
+const COLOR_CHANNELS: Record<SeparatedColorModel, number> = { gray: 1, rgb: 3, cmyk: 4 };
+
+// Big-endian cursor over the file
+const createReader = (bytes: Uint8Array, psb: boolean) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const r = {
+    bytes,
+    view,
+    psb,
+    pos: 0,
+    u8: () => bytes[r.pos++],
+    u16: () => { const v = view.getUint16(r.pos); r.pos += 2; return v; },
+    i16: () => { const v = view.getInt16(r.pos); r.pos += 2; return v; },
+    u32: () => { const v = view.getUint32(r.pos); r.pos += 4; return v; },
+    i32: () => { const v = view.getInt32(r.pos); r.pos += 4; return v; },
+    // Section lengths are 8 bytes in PSB files
+    length: () => {
+      if (!psb) return r.u32();
+      const v = Number(view.getBigUint64(r.pos));
+      r.pos += 8;
+      return v;
+    },
+    text: (n: number) => { const s = String.fromCharCode(...bytes.subarray(r.pos, r.pos + n)); r.pos += n; return s; }
+  };
+  return r;
+};
+
+type Reader = ReturnType<typeof createReader>;
+
+// 16-bit big-endian samples to 8 bits
+const to8 = (data: Uint8Array, depth: number): Uint8Array => {
+  if (depth === 8) return data;
+  const out = new Uint8Array(data.length >> 1);
+  for (let i = 0; i < out.length; i++) out[i] = Math.round(((data[i * 2] << 8) | data[i * 2 + 1]) / 257);
+  return out;
+};
+
+/**
+ * Decodes one channel (layer channel data or a plane of the composite).
+ * rleCounts: byte counts of the PackBits rows, read from the channel header or the composite header.
+ */
+const decodeChannel = async (
+  compression: number,
+  data: Uint8Array,
+  width: number,
+  height: number,
+  depth: number,
+  rleCounts?: number[]
+): Promise<Uint8Array> => {
+  const rowBytes = width * (depth / 8);
+  const size = rowBytes * height;
+  let raw: Uint8Array;
+  if (compression === 0) {
+    raw = data.subarray(0, size);
+  } else if (compression === 1) {
+    raw = new Uint8Array(size);
+    let at = 0;
+    for (let y = 0; y < height; y++) {
+      const count = rleCounts?.[y] ?? 0;
+      raw.set(decodePackBits(data.subarray(at, at + count), rowBytes), y * rowBytes);
+      at += count;
+    }
+  } else if (compression === 2 || compression === 3) {
+    raw = await inflate(data);
+    if (compression === 3) {
+      // Horizontal delta per row (on 16-bit values for 16-bit files)
+      for (let y = 0; y < height; y++) {
+        const row = y * rowBytes;
+        if (depth === 8) {
+          for (let x = 1; x < width; x++) raw[row + x] = (raw[row + x] + raw[row + x - 1]) & 0xff;
+        } else {
+          for (let x = 1; x < width; x++) {
+            const i = row + x * 2;
+            const v = (((raw[i] << 8) | raw[i + 1]) + ((raw[i - 2] << 8) | raw[i - 1])) & 0xffff;
+            raw[i] = v >> 8;
+            raw[i + 1] = v & 0xff;
+          }
+        }
+      }
+    }
+  } else {
+    throw new Error(`Unsupported PSD compression (${compression})`);
+  }
+  return to8(raw, depth);
+};
+
+const readLayerInfo = async (r: Reader, end: number, depth: number): Promise<PsdLayer[]> => {
+  if (r.pos >= end) return [];
+  const count = Math.abs(r.i16());
+  const records: (PsdLayer & { lengths: { id: number; length: number }[] })[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const top = r.i32();
+    const left = r.i32();
+    const bottom = r.i32();
+    const right = r.i32();
+    const channelCount = r.u16();
+    const lengths: { id: number; length: number }[] = [];
+    for (let c = 0; c < channelCount; c++) lengths.push({ id: r.i16(), length: r.length() });
+    r.pos += 4 + 4; // '8BIM', blend mode
+    r.pos += 2; // opacity, clipping
+    const flags = r.u8();
+    r.pos += 1;
+    const extraLength = r.u32();
+    const extraEnd = r.pos + extraLength;
+    r.pos += 4 + r.view.getUint32(r.pos); // layer mask data
+    r.pos += 4 + r.view.getUint32(r.pos); // blending ranges
+    const nameLength = r.u8();
+    let name = r.text(nameLength);
+    r.pos += (4 - ((nameLength + 1) % 4)) % 4;
+    let group = false;
+
+    // Additional layer information: Unicode name, group markers
+    while (r.pos + 12 <= extraEnd) {
+      const signature = r.text(4);
+      if (signature !== '8BIM' && signature !== '8B64') break;
+      const key = r.text(4);
+      const length = r.u32();
+      const next = r.pos + length;
+      if (key === 'luni') {
+        const n = r.u32();
+        let s = '';
+        for (let k = 0; k < n; k++) {
+          const ch = r.u16();
+          if (ch) s += String.fromCharCode(ch);
+        }
+        name = s;
+      } else if (key === 'lsct') {
+        group = r.u32() !== 0;
+      }
+      r.pos = next;
+    }
+    r.pos = extraEnd;
+
+    records.push({
+      name,
+      hidden: (flags & 2) !== 0,
+      group,
+      top,
+      left,
+      width: Math.max(0, right - left),
+      height: Math.max(0, bottom - top),
+      channels: new Map(),
+      lengths
+    });
+  }
+
+  // Channel image data, in record order
+  for (const layer of records) {
+    for (const { id, length } of layer.lengths) {
+      const start = r.pos;
+      r.pos += length;
+      // User masks (-2, -3) have their own rectangle; they are not used
+      if (id < -1 || layer.group || !layer.width || !layer.height || length < 2) continue;
+      const compression = r.view.getUint16(start);
+      let data = r.bytes.subarray(start + 2, start + length);
+      let counts: number[] | undefined;
+      if (compression === 1) {
+        counts = [];
+        const countSize = r.psb ? 4 : 2;
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        for (let y = 0; y < layer.height; y++) counts.push(countSize === 4 ? view.getUint32(y * 4) : view.getUint16(y * 2));
+        data = data.subarray(layer.height * countSize);
+      }
+      layer.channels.set(id, await decodeChannel(compression, data, layer.width, layer.height, depth, counts));
+    }
+  }
+
+  return records.map(({ lengths, ...layer }) => layer);
+};
+
+export const isPsdFile = async (file: Blob & { name?: string }): Promise<boolean> => {
+  if (/\.ps[db]$/i.test(file.name || '')) return true;
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return String.fromCharCode(...head) === '8BPS';
+};
+
+export const parsePsd = async (buffer: ArrayBuffer): Promise<PsdDocument> => {
+  const bytes = new Uint8Array(buffer);
+  const head = createReader(bytes, false);
+  if (head.text(4) !== '8BPS') throw new Error("Not a PSD file");
+  const version = head.u16();
+  if (version !== 1 && version !== 2) throw new Error(`Unsupported PSD version (${version})`);
+  const r = createReader(bytes, version === 2);
+  r.pos = 12;
+  const channelCount = r.u16();
+  const height = r.u32();
+  const width = r.u32();
+  const depth = r.u16();
+  const mode = r.u16();
+  const colorModel = COLOR_MODELS[mode];
+  if (!colorModel) throw new Error(`Unsupported PSD colour mode (${mode})`);
+  if (depth !== 8 && depth !== 16) throw new Error(`Unsupported PSD bit depth (${depth})`);
+
+  r.pos += 4 + r.view.getUint32(r.pos); // colour mode data
+  r.pos += 4 + r.view.getUint32(r.pos); // image resources
+
+  // Layer and mask information
+  const layerSectionLength = r.length();
+  const layerSectionEnd = r.pos + layerSectionLength;
+  let layers: PsdLayer[] = [];
+  if (layerSectionLength > 0) {
+    const infoLength = r.length();
+    const infoEnd = r.pos + infoLength;
+    layers = await readLayerInfo(r, infoEnd, depth);
+    r.pos = infoEnd;
+    if (r.pos + 4 <= layerSectionEnd) r.pos += 4 + r.view.getUint32(r.pos); // global layer mask
+
+    // 16/32-bit documents keep the layers in a tagged block
+    while (!layers.length && r.pos + 12 <= layerSectionEnd) {
+      const signature = r.text(4);
+      if (signature !== '8BIM' && signature !== '8B64') break;
+      const key = r.text(4);
+      const length = key === 'Lr16' || key === 'Lr32' ? r.length() : r.u32();
+      const next = r.pos + length;
+      if (key === 'Lr16') layers = await readLayerInfo(r, next, depth);
+      r.pos = next;
+    }
+  }
+  r.pos = layerSectionEnd;
+
+  // Merged image data: planar, RLE row counts for all channels first
+  let composite: Uint8Array[] | null = null;
+  const colorChannels = COLOR_CHANNELS[colorModel];
+  if (r.pos + 2 <= bytes.length && channelCount >= colorChannels) {
+    const compression = r.u16();
+    composite = [];
+    if (compression === 1) {
+      const counts: number[] = [];
+      for (let i = 0; i < channelCount * height; i++) counts.push(r.psb ? r.u32() : r.u16());
+      for (let c = 0; c < colorChannels; c++) {
+        const rows = counts.slice(c * height, (c + 1) * height);
+        const total = rows.reduce((a, b) => a + b, 0);
+        composite.push(await decodeChannel(1, bytes.subarray(r.pos, r.pos + total), width, height, depth, rows));
+        r.pos += total;
+      }
+    } else if (compression === 0) {
+      const plane = width * height * (depth / 8);
+      for (let c = 0; c < colorChannels; c++) {
+        composite.push(await decodeChannel(0, bytes.subarray(r.pos, r.pos + plane), width, height, depth));
+        r.pos += plane;
+      }
+    } else {
+      // Zip: one stream for all channels
+      const all = await decodeChannel(compression, bytes.subarray(r.pos), width, height * channelCount, depth);
+      for (let c = 0; c < colorChannels; c++) composite.push(all.slice(c * width * height, (c + 1) * width * height));
+    }
+  }
+
+  // CMYK is stored inverted (0 = 100% ink); use 255 = ink like TIFF
+  if (colorModel === 'cmyk') {
+    composite?.forEach(plane => { for (let i = 0; i < plane.length; i++) plane[i] = 255 - plane[i]; });
+    layers.forEach(layer => layer.channels.forEach((plane, id) => {
+      if (id >= 0) for (let i = 0; i < plane.length; i++) plane[i] = 255 - plane[i];
+    }));
+  }
+
+  return { width, height, colorModel, composite, layers };
+};
+
+/**
+ * The merged image as a separated image (null when the file has none).
+ */
+export const psdComposite = (doc: PsdDocument): SeparatedImage | null =>
+  doc.composite ? { width: doc.width, height: doc.height, colorModel: doc.colorModel, process: doc.composite, extras: [] } : null;
+
+/**
+ * One layer placed on the document canvas; outside the layer it is transparent.
+ */
+export const psdLayerImage = (doc: PsdDocument, layer: PsdLayer): SeparatedImage => {
+  const { width, height, colorModel } = doc;
+  const count = COLOR_CHANNELS[colorModel];
+  // Empty pixels: no ink (CMYK) or white
+  const process = Array.from({ length: count }, () => new Uint8Array(width * height).fill(colorModel === 'cmyk' ? 0 : 255));
+  const alpha = new Uint8Array(width * height);
+  const layerAlpha = layer.channels.get(-1);
+
+  for (let y = 0; y < layer.height; y++) {
+    const Y = layer.top + y;
+    if (Y < 0 || Y >= height) continue;
+    for (let x = 0; x < layer.width; x++) {
+      const X = layer.left + x;
+      if (X < 0 || X >= width) continue;
+      const src = y * layer.width + x;
+      const dst = Y * width + X;
+      for (let c = 0; c < count; c++) {
+        const plane = layer.channels.get(c);
+        if (plane) process[c][dst] = plane[src];
+      }
+      alpha[dst] = layerAlpha ? layerAlpha[src] : 255;
+    }
+  }
+
+  return {
+    width,
+    height,
+    colorModel,
+    process,
+    extras: [{ name: 'Transparency', kind: 'transparency', data: alpha, color: null }]
+  };
+};
@@ -0,0 +1,75 @@
+import { LayerRegistration, RegistrationConfig, RegistrationLayer } from '../types';
+import { LayerTransform, inverseTransform } from './textureUtils';
+
+export const REGISTRATION_LAYERS: RegistrationLayer[] = ['cmyk', 'white', 'varnish'];
+
+export const DEFAULT_LAYER_REGISTRATION: LayerRegistration = {
+  offsetXUm: 0,
+  offsetYUm: 0,
+  rotationDeg: 0,
+  scalePct: 0
+};
+
+export const DEFAULT_REGISTRATION: RegistrationConfig = {
+  layers: {
+    cmyk: DEFAULT_LAYER_REGISTRATION,
+    white: DEFAULT_LAYER_REGISTRATION,
+    varnish: DEFAULT_LAYER_REGISTRATION
+  },
+  wobble: false,
+  wobbleAmplitudeUm: 150
+};
+
+// Current random-walk displacement of each layer, in microns
+export type WobbleState = Record<RegistrationLayer, { x: number; y: number }>;
+
+export const ZERO_WOBBLE: WobbleState = {
+  cmyk: { x: 0, y: 0 },
+  white: { x: 0, y: 0 },
+  varnish: { x: 0, y: 0 }
+};
+
+/**
+ * Advances the press wobble by one random step, kept within ±amplitude.
+ */
+export const stepWobble = (state: WobbleState, amplitudeUm: number): WobbleState => {
+  const step = amplitudeUm * 0.35;
+  const walk = (v: number) => Math.max(-amplitudeUm, Math.min(amplitudeUm, v + (Math.random() * 2 - 1) * step));
+  const next = { ...state };
+  REGISTRATION_LAYERS.forEach(layer => {
+    next[layer] = { x: walk(state[layer].x), y: walk(state[layer].y) };
+  });
+  return next;
+};
+
+/**
+ * Converts a registration in physical units to a layer transform.
+ * artworkWidthPx is the pixel width of the artwork the DPI refers to.
+ */
+export const toLayerTransform = (
+  registration: LayerRegistration,
+  wobble: { x: number; y: number },
+  dpi: number,
+  artworkWidthPx: number
+): LayerTransform => {
+  const umToWidth = (um: number) => (um / 25400) * dpi / artworkWidthPx;
+  return {
+    dx: umToWidth(registration.offsetXUm + wobble.x),
+    dy: umToWidth(registration.offsetYUm + wobble.y),
+    rotation: registration.rotationDeg * Math.PI / 180,
+    scale: 1 + registration.scalePct / 100
+  };
+};
+
+/**
+ * UV matrix (row-major 3x3) that applies a layer transform to a texture on the GPU,
+ * matching transformMask() for the same image size (UV origin is bottom-left).
+ */
+export const transformToUvMatrix = (t: LayerTransform, width: number, height: number): number[] => {
+  const [a, b, c, d, e, f] = inverseTransform(t, width, height);
+  return [
+    a, -b * height / width, (b * height + c) / width,
+    -d * width / height, e, 1 - e - f / height,
+    0, 0, 1
+  ];
+};
@@ -0,0 +1,143 @@
+import { ChannelRole, CmykConversion, PixelMap, PsdLayerRole } from '../types';
+import { createCmykConverter } from './colorUtils';
+
+export type SeparatedColorModel = 'gray' | 'rgb' | 'cmyk';
+
+export interface SeparatedChannel {
+  name: string;
+  kind: 'transparency' | 'alpha' | 'spot';
+  data: Uint8Array;           // 255 = full ink / fully selected / opaque
+  color: [number, number, number] | null; // Display colour, 8-bit sRGB, when stored in the file
+}
+
+/**
+ * Decoded separated image (TIFF, PSD composite or layer), 8 bits per channel.
+ */
+export interface SeparatedImage {
+  width: number;
+  height: number;
+  colorModel: SeparatedColorModel;
+  // Gray (255 = white), R/G/B, or C/M/Y/K (255 = full ink)
+  process: Uint8Array[];
+  extras: SeparatedChannel[];
+}
+
+export const DEFAULT_CMYK_CONVERSION: CmykConversion = {
+  mode: 'press',
+  dotGain: 12
+};
+
+// Layer / channel name patterns (lower case), in order of preference
+const ROLE_PATTERNS: [Exclude<PsdLayerRole, 'ignore'>, RegExp][] = [
+  ['white', /white|weiss|weiß|blanc|бел/],
+  ['varnish', /varnish|\black|vernis|coating|\buv\b|лак/],
+  ['foil', /foil|фольг|hot ?stamp/],
+  ['emboss', /emboss|deboss|relief|тиснен|конгрев/],
+  ['spot', /pantone|pms|\bhks\b|spot|\bral\b|смесев/],
+  ['cmyk', /cmyk|artwork|\bart\b|print|печат|макет|colou?r/]
+];
+
+// Slots that take a single layer
+export const SINGLE_LAYER_ROLES: PsdLayerRole[] = ['cmyk', 'white', 'emboss'];
+
+export const matchRoles = (name: string): PsdLayerRole[] =>
+  ROLE_PATTERNS.filter(([, pattern]) => pattern.test(name.toLowerCase())).map(([role]) => role);
+
+/**
+ * Picks the layer for an extra channel by its name. Unnamed alpha channels
+ * (selections saved with the file) are left out.
+ */
+export const classifyChannel = (channel: SeparatedChannel): ChannelRole => {
+  if (channel.kind === 'transparency') return 'ignore';
+  const roles = matchRoles(channel.name);
+  if (roles.includes('white')) return 'white';
+  if (roles.includes('varnish')) return 'varnish';
+  if (channel.kind === 'spot' || roles.includes('spot')) return 'spot';
+  return 'ignore';
+};
+
+/**
+ * Suggests a slot for each layer by name. A name matching several slots, or several
+ * layers competing for a single slot, is ambiguous. Unmatched layers are left out
+ * (they are part of the composite).
+ */
+export const suggestLayerRoles = (names: string[]): { role: PsdLayerRole; ambiguous: boolean }[] => {
+  const suggestions = names.map(name => {
+    const roles = matchRoles(name);
+    return { role: roles[0] || 'ignore', ambiguous: roles.length > 1 };
+  });
+  SINGLE_LAYER_ROLES.forEach(role => {
+    const candidates = suggestions.filter(s => s.role === role);
+    if (candidates.length > 1) candidates.forEach(s => { s.ambiguous = true; });
+  });
+  return suggestions;
+};
+
+/**
+ * Display composite of a decoded TIFF as RGBA (transparency channel goes to alpha).
+ */
+export const compositeToRgba = (image: SeparatedImage, conversion: CmykConversion): PixelMap => {
+  const { width, height, process } = image;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const alpha = image.extras.find(e => e.kind === 'transparency')?.data;
+  const convert = image.colorModel === 'cmyk' ? createCmykConverter(conversion) : null;
+
+  for (let p = 0; p < width * height; p++) {
+    if (convert) {
+      const [r, g, b] = convert(process[0][p], process[1][p], process[2][p], process[3][p]);
+      data[p * 4] = r;
+      data[p * 4 + 1] = g;
+      data[p * 4 + 2] = b;
+    } else if (image.colorModel === 'rgb') {
+      data[p * 4] = process[0][p];
+      data[p * 4 + 1] = process[1][p];
+      data[p * 4 + 2] = process[2][p];
+    } else {
+      data[p * 4] = data[p * 4 + 1] = data[p * 4 + 2] = process[0][p];
+    }
+    data[p * 4 + 3] = alpha ? alpha[p] : 255;
+  }
+  return { width, height, data };
+};
+
+// Artwork with transparent areas laid on white paper
+export const flattenOnWhite = (map: PixelMap): PixelMap => {
+  const { data } = map;
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3] / 255;
+    data[i] = data[i] * a + 255 * (1 - a);
+    data[i + 1] = data[i + 1] * a + 255 * (1 - a);
+    data[i + 2] = data[i + 2] * a + 255 * (1 - a);
+    data[i + 3] = 255;
+  }
+  return map;
+};
+
+/**
+ * Mask of a painted layer in file convention (Black = Ink). Layers with transparency
+ * are read by shape (opaque = ink, whatever the colour); opaque layers by darkness.
+ */
+export const imageToMask = (image: SeparatedImage, conversion: CmykConversion): PixelMap => {
+  const rgba = compositeToRgba(image, conversion);
+  const hasShape = image.extras.some(e => e.kind === 'transparency');
+  const { data } = rgba;
+  for (let i = 0; i < data.length; i += 4) {
+    const ink = hasShape ? data[i + 3] : 255 - (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]);
+    data[i] = data[i + 1] = data[i + 2] = 255 - ink;
+    data[i + 3] = 255;
+  }
+  return rgba;
+};
+
+// Extra channel as a mask in file convention (Black = Ink)
+export const channelToPixelMap = (channel: SeparatedChannel, width: number, height: number): PixelMap => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) {
+    const v = 255 - channel.data[p];
+    data[p * 4] = v;
+    data[p * 4 + 1] = v;
+    data[p * 4 + 2] = v;
+    data[p * 4 + 3] = 255;
+  }
+  return { width, height, data };
+};
@@ -0,0 +1,26 @@
+/**
+ * Spot colour inks in the sheet material, applied to the CMYK base colour as
+ * colour * mul + add (see buildSpotMaps). The metal hiding is already in the
+ * metalness map.
+ *
+ * Must be applied after FOIL_SHADER_CHUNKS: both patch map_fragment, and the spot
+ * inks have to land before the cold foil reads the ink colour.
+ */
+export const SPOT_SHADER_CHUNKS: [string, string][] = [
+  [
+    '#include <metalnessmap_pars_fragment>',
+    `#include <metalnessmap_pars_fragment>
+uniform sampler2D uSpotMulMap;
+uniform sampler2D uSpotAddMap;
+uniform float uSpotEnabled;`
+  ],
+  [
+    '#include <map_fragment>',
+    `#include <map_fragment>
+if ( uSpotEnabled > 0.5 ) {
+  vec3 spotMul = pow( texture2D( uSpotMulMap, vSheetUv ).rgb, vec3( 2.2 ) );
+  vec3 spotAdd = pow( texture2D( uSpotAddMap, vSheetUv ).rgb, vec3( 2.2 ) );
+  diffuseColor.rgb = diffuseColor.rgb * spotMul + spotAdd;
+}`
+  ]
+];
@@ -0,0 +1,141 @@
+import { HologramPattern, Substrate } from '../types';
+
+// Index is the uHoloPattern uniform value
+const HOLOGRAM_PATTERNS: HologramPattern[] = ['none', 'linear', 'radial', 'pillar'];
+
+/**
+ * Shader patches applied to the sheet's MeshPhysicalMaterial via onBeforeCompile.
+ * Kept as plain [search, replace] strings so the HTML export can embed them as-is.
+ *
+ * "Bare" areas are read from the R channel of the metalness map (no white ink),
+ * so the substrate only changes where the stock is visible.
+ *
+ * Holographic stocks use a diffraction grating model: for grating period d, the
+ * m-th order is seen at wavelength d * |(L + V) · G| / m, where G is the grating
+ * vector in the surface. L is a virtual light straight above the sheet, so the
+ * rainbow moves with the view angle.
+ */
+// Untransformed sheet UV (vMapUv carries the CMYK misregistration)
+export const SHEET_VERTEX_CHUNKS: [string, string][] = [
+  [
+    '#include <uv_pars_vertex>',
+    `#include <uv_pars_vertex>
+varying vec2 vSheetUv;`
+  ],
+  [
+    '#include <uv_vertex>',
+    `#include <uv_vertex>
+vSheetUv = uv;`
+  ]
+];
+
+export const SUBSTRATE_SHADER_CHUNKS: [string, string][] = [
+  [
+    '#include <metalnessmap_pars_fragment>',
+    `#include <metalnessmap_pars_fragment>
+varying vec2 vSheetUv;
+uniform vec3 uSubstrateTint;
+uniform float uSubstrateReflectivity;
+uniform float uSubstrateMetallic;
+uniform sampler2D uMicroMap;
+uniform float uMicroStrength;
+uniform float uMicroScale;
+uniform float uMicroRotation;
+uniform float uSheetAspect;
+uniform float uHoloPattern;
+uniform float uHoloDensity;
+uniform float uHoloStrength;
+
+// Approximate linear RGB of a spectral wavelength in nm (zero outside 400-700)
+vec3 holoSpectrum( float w ) {
+  float x = saturate( ( w - 400.0 ) / 300.0 );
+  vec3 y = vec3( 3.54541723, 2.86670055, 2.29421995 ) * ( x - vec3( 0.69548916, 0.49416934, 0.23269281 ) );
+  y = saturate( 1.0 - y * y - vec3( 0.02320775, 0.15936245, 0.53520021 ) );
+  return y * step( 400.0, w ) * step( w, 700.0 );
+}
+
+// Diffraction colour of a grating (pattern 1 linear, 2 radial, 3 pillar; density in lines/mm)
+vec3 holoDiffraction( vec3 n, float pattern, float density, float angle ) {
+  // Grating vector on the sheet (physical units, x across the width)
+  vec2 holoPos = ( vSheetUv - 0.5 ) * vec2( 1.0, 1.0 / uSheetAspect );
+  vec2 holoDir;
+  if ( pattern < 1.5 ) {
+    holoDir = vec2( - sin( angle ), cos( angle ) );
+  } else if ( pattern < 2.5 ) {
+    holoDir = normalize( holoPos + 1e-5 );
+  } else {
+    float holoAngle = fract( sin( floor( holoPos.x * 24.0 ) * 12.9898 ) * 43758.5453 ) * PI;
+    holoDir = vec2( cos( holoAngle ), sin( holoAngle ) );
+  }
+
+  // UV tangent frame from screen-space derivatives (as in getTangentFrame)
+  vec3 holoQ0 = dFdx( - vViewPosition );
+  vec3 holoQ1 = dFdy( - vViewPosition );
+  vec2 holoSt0 = dFdx( vSheetUv );
+  vec2 holoSt1 = dFdy( vSheetUv );
+  vec3 holoQ1Perp = cross( holoQ1, n );
+  vec3 holoQ0Perp = cross( n, holoQ0 );
+  vec3 holoT = normalize( holoQ1Perp * holoSt0.x + holoQ0Perp * holoSt1.x + 1e-9 );
+  vec3 holoB = normalize( holoQ1Perp * holoSt0.y + holoQ0Perp * holoSt1.y + 1e-9 );
+  vec3 holoG = normalize( holoDir.x * holoT + holoDir.y * holoB );
+
+  vec3 holoL = normalize( ( viewMatrix * vec4( 0.0, 1.0, 0.0, 0.0 ) ).xyz );
+  float holoU = abs( dot( holoL + normalize( vViewPosition ), holoG ) );
+  float holoPeriod = 1.0e6 / density;
+  vec3 holo = vec3( 0.0 );
+  for ( int m = 1; m <= 3; m ++ ) holo += holoSpectrum( holoPeriod * holoU / float( m ) );
+  return saturate( holo );
+}`
+  ],
+  [
+    '#include <metalnessmap_fragment>',
+    `#include <metalnessmap_fragment>
+#ifdef USE_METALNESSMAP
+float substrateBare = texture2D( metalnessMap, vMetalnessMapUv ).r * metalness;
+#else
+float substrateBare = metalnessFactor;
+#endif
+metalnessFactor *= uSubstrateMetallic;
+diffuseColor.rgb *= mix( vec3( 1.0 ), uSubstrateTint * uSubstrateReflectivity, substrateBare );
+vec2 microUv = ( vSheetUv - 0.5 ) * vec2( 1.0, 1.0 / uSheetAspect );
+microUv = mat2( cos( uMicroRotation ), sin( uMicroRotation ), - sin( uMicroRotation ), cos( uMicroRotation ) ) * microUv * uMicroScale;
+float microValue = texture2D( uMicroMap, microUv ).r - 0.5;
+roughnessFactor = clamp( roughnessFactor + microValue * uMicroStrength * substrateBare, 0.04, 1.0 );`
+  ],
+  [
+    '#include <emissivemap_fragment>',
+    `#include <emissivemap_fragment>
+if ( uHoloPattern > 0.5 && substrateBare > 0.0 ) {
+  vec3 holo = holoDiffraction( normal, uHoloPattern, uHoloDensity, uMicroRotation );
+  // Metals reflect in their base colour, so the rainbow goes there
+  float holoAmount = max( holo.r, max( holo.g, holo.b ) ) * uHoloStrength * substrateBare;
+  diffuseColor.rgb = mix( diffuseColor.rgb, holo * diffuseColor.rgb, holoAmount );
+}`
+  ],
+  // Brushed highlights (anisotropy) and the thin-film rainbow (iridescence) are set
+  // on the material from the substrate; ink and white cover them, so both are
+  // limited to bare stock here
+  [
+    'material.anisotropy = saturate( material.anisotropy );',
+    'material.anisotropy = saturate( material.anisotropy ) * substrateBare;'
+  ],
+  [
+    'material.iridescence = iridescence;',
+    'material.iridescence = iridescence * substrateBare;'
+  ]
+];
+
+/**
+ * Scalar uniform values for a substrate (the tint colour and micro map are set by the caller).
+ */
+export const substrateScalarUniforms = (substrate: Substrate, aspectRatio: number) => ({
+  uSubstrateReflectivity: substrate.reflectivity,
+  uSubstrateMetallic: substrate.metallic ? 1.0 : 0.0,
+  uMicroStrength: substrate.microTexture === 'none' ? 0.0 : substrate.microStrength,
+  uMicroScale: substrate.microScale,
+  uMicroRotation: substrate.brushDirectionDeg * Math.PI / 180,
+  uSheetAspect: aspectRatio,
+  uHoloPattern: HOLOGRAM_PATTERNS.indexOf(substrate.hologram),
+  uHoloDensity: substrate.gratingDensity,
+  uHoloStrength: substrate.hologramStrength
+});
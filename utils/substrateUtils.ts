@@ -0,0 +1,148 @@
+import { MicroTextureKind, PixelMap, Substrate } from '../types';
+
+const STORAGE_KEY = 'metalprint.customSubstrates';
+
+export const SUBSTRATES: Substrate[] = [
+  {
+    id: 'metpol-silver', name: 'MetPol Серебро', metallic: true,
+    tint: '#f2f2f2', reflectivity: 1.0, baseRoughness: 0.2,
+    anisotropy: 0, brushDirectionDeg: 0, iridescence: 0,
+    microTexture: 'grain', microStrength: 0.05, microScale: 20,
+    hologram: 'none', gratingDensity: 1000, hologramStrength: 0
+  },
+  {
+    id: 'metpol-gold', name: 'MetPol Золото', metallic: true,
+    tint: '#f5c86a', reflectivity: 1.0, baseRoughness: 0.2,
+    anisotropy: 0, brushDirectionDeg: 0, iridescence: 0,
+    microTexture: 'grain', microStrength: 0.05, microScale: 20,
+    hologram: 'none', gratingDensity: 1000, hologramStrength: 0
+  },
+  {
+    id: 'brushed-silver', name: 'Шлифованное серебро', metallic: true,
+    tint: '#e6e6e6', reflectivity: 0.95, baseRoughness: 0.3,
+    anisotropy: 0.8, brushDirectionDeg: 0, iridescence: 0,
+    microTexture: 'brushed', microStrength: 0.25, microScale: 8,
+    hologram: 'none', gratingDensity: 1000, hologramStrength: 0
+  },
+  {
+    id: 'holographic-film', name: 'Голографическая плёнка', metallic: true,
+    tint: '#f0f0f5', reflectivity: 1.0, baseRoughness: 0.1,
+    anisotropy: 0, brushDirectionDeg: 0, iridescence: 0.3,
+    microTexture: 'none', microStrength: 0, microScale: 1,
+    hologram: 'linear', gratingDensity: 1200, hologramStrength: 0.9
+  },
+  {
+    id: 'holographic-radial', name: 'Голографический картон (радиальный)', metallic: true,
+    tint: '#f0f0f5', reflectivity: 1.0, baseRoughness: 0.12,
+    anisotropy: 0, brushDirectionDeg: 0, iridescence: 0,
+    microTexture: 'none', microStrength: 0, microScale: 1,
+    hologram: 'radial', gratingDensity: 1000, hologramStrength: 0.9
+  },
+  {
+    id: 'holographic-pillar', name: 'Голографический картон (колонны)', metallic: true,
+    tint: '#f0f0f5', reflectivity: 1.0, baseRoughness: 0.12,
+    anisotropy: 0, brushDirectionDeg: 0, iridescence: 0,
+    microTexture: 'none', microStrength: 0, microScale: 1,
+    hologram: 'pillar', gratingDensity: 1000, hologramStrength: 0.9
+  },
+  {
+    id: 'coated-paper', name: 'Мелованная бумага', metallic: false,
+    tint: '#f7f7f4', reflectivity: 1.0, baseRoughness: 0.45,
+    anisotropy: 0, brushDirectionDeg: 0, iridescence: 0,
+    microTexture: 'grain', microStrength: 0.05, microScale: 30,
+    hologram: 'none', gratingDensity: 1000, hologramStrength: 0
+  },
+  {
+    id: 'uncoated-paper', name: 'Немелованная бумага', metallic: false,
+    tint: '#f1efe6', reflectivity: 0.95, baseRoughness: 0.9,
+    anisotropy: 0, brushDirectionDeg: 0, iridescence: 0,
+    microTexture: 'paper', microStrength: 0.1, microScale: 15,
+    hologram: 'none', gratingDensity: 1000, hologramStrength: 0
+  }
+];
+
+export const DEFAULT_SUBSTRATE = SUBSTRATES[0];
+
+/**
+ * Custom substrates saved in the browser (local storage).
+ */
+export const loadCustomSubstrates = (): Substrate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const list = raw ? JSON.parse(raw) : [];
+    // Fill in fields added after a substrate was saved
+    return Array.isArray(list) ? list.map((s: Substrate) => ({ ...DEFAULT_SUBSTRATE, ...s })) : [];
+  } catch (e) {
+    console.error("Failed to read custom substrates", e);
+    return [];
+  }
+};
+
+export const saveCustomSubstrates = (substrates: Substrate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(substrates));
+  } catch (e) {
+    console.error("Failed to save custom substrates", e);
+  }
+};
+
+// Small deterministic PRNG so micro-textures are identical between app and export
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Generates a tileable grayscale micro-texture (mid-gray = no change).
+ */
+export const generateMicroTexture = (kind: MicroTextureKind, size = 256): PixelMap => {
+  const random = mulberry32(kind.length * 7919);
+  const values = new Float32Array(size * size);
+
+  // Sum of sine waves with integer frequencies tiles seamlessly
+  const waves = (count: number, maxFreqX: number, maxFreqY: number) =>
+    Array.from({ length: count }, () => ({
+      fx: Math.floor(random() * (maxFreqX + 1)),
+      fy: Math.floor(random() * (maxFreqY + 1)),
+      phase: random() * Math.PI * 2,
+      amp: 0.5 + random() * 0.5
+    }));
+
+  if (kind === 'brushed') {
+    // Fine streaks along X: high frequency across rows, very low along them
+    const streaks = waves(48, 2, size / 2);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        let v = 0;
+        streaks.forEach(w => { v += w.amp * Math.sin(2 * Math.PI * (w.fx * x + w.fy * y) / size + w.phase); });
+        values[y * size + x] = v / 12;
+      }
+    }
+  } else if (kind === 'grain' || kind === 'paper') {
+    for (let p = 0; p < values.length; p++) values[p] = random() - 0.5;
+    if (kind === 'paper') {
+      // Cloudy fibre formation on top of the grain
+      const clouds = waves(12, 6, 6);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          let v = 0;
+          clouds.forEach(w => { v += w.amp * Math.sin(2 * Math.PI * (w.fx * x + w.fy * y) / size + w.phase); });
+          values[y * size + x] = values[y * size + x] * 0.6 + v / 8;
+        }
+      }
+    }
+  }
+
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let p = 0; p < values.length; p++) {
+    const v = Math.round(128 + Math.max(-1, Math.min(1, values[p])) * 127);
+    data[p * 4] = v;
+    data[p * 4 + 1] = v;
+    data[p * 4 + 2] = v;
+    data[p * 4 + 3] = 255;
+  }
+  return { width: size, height: size, data };
+};
@@ -0,0 +1,172 @@
+import { AnalysisResult, CmykConversion, CoverageReport, MaskLayer, ProofProfileInfo, ProofProfileSlot, ProofStats, PsdLayerInfo, SeparationChannel, SoftProofOptions, PixelMap, PreflightOptions, TextureMaps, WhiteGenOptions } from '../types';
+import { RemapParams, VarnishParams } from './textureUtils';
+import type { TextureWorkerRequest, TextureWorkerResponse } from './textureWorker';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// Requests without the id, which is assigned by send()
+type WorkerCommand = DistributiveOmit<TextureWorkerRequest, 'id'>;
+
+export interface TextureProcessor {
+  // Decodes a mask in the worker and keeps it cached until replaced
+  setMask: (layer: MaskLayer, source: Blob | null) => Promise<void>;
+  // Same for a finishing layer (foil) identified by id; null removes it
+  setFinishMask: (finishId: string, source: Blob | null) => Promise<void>;
+  // Regenerates the maps from the cached masks. Resolves to null when superseded by a newer call.
+  remap: (params: RemapParams) => Promise<TextureMaps | null>;
+  // Runs the rule-based preflight on the cached layers (dpi of the job converts the mm limits);
+  // every varnish layer with a mask is checked, names label its findings
+  preflight: (options: PreflightOptions, dpi: number, varnishes: VarnishParams[], names: Record<string, string>) => Promise<AnalysisResult>;
+  // Returns a processed mask in file convention (Black = Ink), e.g. the trapped white mask
+  exportMask: (layer: MaskLayer, params: RemapParams) => Promise<PixelMap | null>;
+  // Same for a finishing layer (foil, spot colour, extra varnish), as decoded
+  exportFinishMask: (finishId: string) => Promise<PixelMap | null>;
+  // Derives a white ink mask from the CMYK artwork, as a PNG in file convention
+  generateWhite: (options: WhiteGenOptions) => Promise<Blob>;
+  // Decodes a separated TIFF into a display composite (PNG) and its extra channels (mask PNGs).
+  // A null source re-converts the last file with new settings and returns no channels.
+  decodeSeparations: (source: Blob | null, conversion: CmykConversion) => Promise<{ composite: Blob; channels: SeparationChannel[] }>;
+  // Parses a PSD in the worker and suggests a slot for each pixel layer
+  openPsd: (source: Blob) => Promise<{ layers: PsdLayerInfo[]; hasComposite: boolean }>;
+  // Renders a layer of the last PSD (-1 = merged image) as artwork or as a mask PNG (Black = Ink)
+  renderPsdLayer: (index: number, as: 'artwork' | 'mask', conversion: CmykConversion) => Promise<Blob>;
+  // Loads (or clears) an ICC profile for the soft proof
+  setProfile: (slot: ProofProfileSlot, source: Blob | null) => Promise<ProofProfileInfo | null>;
+  // Proofed artwork and its gamut / ink limit overlay
+  softProof: (options: SoftProofOptions, separated: boolean) => Promise<{ image: Blob; overlay: Blob; stats: ProofStats }>;
+  // Area coverage of all plates and the TAC hot spots above inkLimit (%)
+  coverage: (params: RemapParams, inkLimit: number, separated: boolean, names: Record<string, string>) => Promise<CoverageReport>;
+  dispose: () => void;
+}
+
+/**
+ * Runs mask decoding and map generation in a Web Worker, off the main thread.
+ */
+export const createTextureProcessor = (): TextureProcessor => {
+  const worker = new Worker(new URL('./textureWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (response: TextureWorkerResponse) => void; reject: (e: Error) => void }>();
+  let nextId = 1;
+
+  worker.onmessage = (event: MessageEvent<TextureWorkerResponse>) => {
+    const response = event.data;
+    const entry = pending.get(response.id);
+    if (!entry) return;
+    pending.delete(response.id);
+    if (response.type === 'error') entry.reject(new Error(response.message));
+    else entry.resolve(response);
+  };
+
+  const send = (command: WorkerCommand): Promise<TextureWorkerResponse> => {
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      worker.postMessage({ ...command, id });
+    });
+  };
+
+  // Only one remap runs at a time; while it is busy, the latest request waits and older ones are dropped.
+  let remapBusy = false;
+  let queued: { params: RemapParams; resolve: (maps: TextureMaps | null) => void; reject: (e: Error) => void } | null = null;
+
+  // Rejects everything in flight; a queued remap is dropped so the next one starts fresh
+  const failPending = (message: string) => {
+    pending.forEach(entry => entry.reject(new Error(message)));
+    pending.clear();
+    queued?.reject(new Error(message));
+    queued = null;
+  };
+
+  // A crashed worker (e.g. out of memory on a large file) never answers
+  worker.onerror = (event: ErrorEvent) => {
+    console.error("Texture worker failed", event.message);
+    failPending(event.message || "Texture worker failed");
+  };
+  worker.onmessageerror = () => failPending("Texture worker message could not be read");
+
+  const runRemap = async (params: RemapParams): Promise<TextureMaps | null> => {
+    remapBusy = true;
+    try {
+      const response = await send({ type: 'remap', params });
+      return response.type === 'maps' ? response.maps : null;
+    } finally {
+      remapBusy = false;
+      if (queued) {
+        const next = queued;
+        queued = null;
+        runRemap(next.params).then(next.resolve, next.reject);
+      }
+    }
+  };
+
+  return {
+    setMask: async (layer, source) => {
+      await send({ type: 'setMask', layer, source });
+    },
+    setFinishMask: async (finishId, source) => {
+      await send({ type: 'setFinishMask', finishId, source });
+    },
+    remap: (params) => {
+      if (!remapBusy) return runRemap(params);
+      return new Promise((resolve, reject) => {
+        queued?.resolve(null);
+        queued = { params, resolve, reject };
+      });
+    },
+    preflight: async (options, dpi, varnishes, names) => {
+      const response = await send({ type: 'preflight', options, dpi, varnishes, names });
+      if (response.type !== 'preflight') throw new Error("Unexpected preflight response");
+      return response.result;
+    },
+    exportMask: async (layer, params) => {
+      const response = await send({ type: 'exportMask', layer, params });
+      if (response.type !== 'mask') throw new Error("Unexpected mask response");
+      return response.mask;
+    },
+    exportFinishMask: async (finishId) => {
+      const response = await send({ type: 'exportFinishMask', finishId });
+      if (response.type !== 'mask') throw new Error("Unexpected mask response");
+      return response.mask;
+    },
+    generateWhite: async (options) => {
+      const response = await send({ type: 'generateWhite', options });
+      if (response.type !== 'blob') throw new Error("Unexpected generator response");
+      return response.blob;
+    },
+    decodeSeparations: async (source, conversion) => {
+      const response = await send({ type: 'decodeSeparations', source, conversion });
+      if (response.type !== 'separations') throw new Error("Unexpected separations response");
+      return { composite: response.composite, channels: response.channels };
+    },
+    openPsd: async (source) => {
+      const response = await send({ type: 'openPsd', source });
+      if (response.type !== 'psd') throw new Error("Unexpected PSD response");
+      return { layers: response.layers, hasComposite: response.hasComposite };
+    },
+    renderPsdLayer: async (index, as, conversion) => {
+      const response = await send({ type: 'renderPsdLayer', index, as, conversion });
+      if (response.type !== 'blob') throw new Error("Unexpected PSD layer response");
+      return response.blob;
+    },
+    setProfile: async (slot, source) => {
+      const response = await send({ type: 'setProfile', slot, source });
+      if (response.type !== 'profile') throw new Error("Unexpected profile response");
+      return response.info;
+    },
+    softProof: async (options, separated) => {
+      const response = await send({ type: 'softProof', options, separated });
+      if (response.type !== 'proof') throw new Error("Unexpected soft proof response");
+      return { image: response.image, overlay: response.overlay, stats: response.stats };
+    },
+    coverage: async (params, inkLimit, separated, names) => {
+      const response = await send({ type: 'coverage', params, inkLimit, separated, names });
+      if (response.type !== 'coverage') throw new Error("Unexpected coverage response");
+      return response.report;
+    },
+    dispose: () => {
+      worker.terminate();
+      queued?.resolve(null);
+      queued = null;
+      failPending("Texture processor disposed");
+    }
+  };
+};
@@ -1,173 +1,482 @@
+import { FoilLayer, SpotColorLayer, VarnishType, PixelMap, TextureMaps } from '../types';
+import { spotColorRgb, srgbToLinear } from './colorUtils';
 
 /**
- * Processes the white ink mask to create Metalness and Roughness Maps.
- * Optionally processes a Spot Varnish mask to modify Roughness and create a Clearcoat Map.
- */
-export const processTextureMaps = (
-    imgSrc: string | null, // White Ink Mask (Now Optional)
-    varnishSrc: string | null, // Spot Varnish Mask (Optional)
-    metalRoughness: number,
-    paperRoughness: number,
-    targetWidth: number = 1024,
-    targetHeight: number = 1024
-  ): Promise<{ metalnessMap: string; roughnessMap: string; clearcoatMap: string | null }> => {
-    return new Promise((resolve, reject) => {
-        // Helper to run the processing once we have dimensions and images
-        const runProcessing = (whiteImg: HTMLImageElement | null, varnishImg: HTMLImageElement | null) => {
-            const width = whiteImg ? whiteImg.width : (varnishImg ? varnishImg.width : targetWidth);
-            const height = whiteImg ? whiteImg.height : (varnishImg ? varnishImg.height : targetHeight);
-
-            const canvas = document.createElement('canvas');
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d');
-            
-            if (!ctx) {
-              reject(new Error("Could not get canvas context"));
-              return;
+ * Single-channel mask in internal logic: 255 = Ink, 0 = Metal.
+ */
+export interface MaskData {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Affine placement of a layer on the sheet.
+ * Offsets are fractions of the image width (same physical unit on both axes).
+ */
+export interface LayerTransform {
+  dx: number;
+  dy: number;
+  rotation: number; // Radians, clockwise
+  scale: number;
+}
+
+/**
+ * Parameters of the cheap remap step (masks stay decoded between calls).
+ */
+export interface RemapParams {
+  metalRoughness: number;
+  paperRoughness: number;
+  // Choke (< 0) or spread (> 0) of the white ink in pixels, applied before registration
+  whiteTrapPx?: number;
+  // Combined opacity of all white passes (0-1), 1 = white fully hides the metal
+  whiteOpacity?: number;
+  // Halftone screen for gray white values (cell size in pixels); contone when absent
+  whiteScreen?: { cellPx: number; angleDeg: number };
+  // Misregistration of the white ink and varnish masks (all varnish layers share the varnish unit)
+  whiteTransform?: LayerTransform;
+  varnishTransform?: LayerTransform;
+  // Varnish layers, top-most last; masks are cached in the worker (flood coats have none)
+  varnishes?: VarnishParams[];
+  // 0 = process inks hide the metal, 1 = they only tint it (where there is no white underneath)
+  inkTransparency?: number;
+  // CMYK misregistration, so the ink coverage lines up with the shifted artwork
+  cmykTransform?: LayerTransform;
+  emboss?: EmbossParams;
+  // Foil layers; masks are cached in the worker under the same id
+  foils?: FoilLayer[];
+  // Spot colour layers in press order; masks are cached in the worker under the same id
+  spots?: SpotColorLayer[];
+}
+
+export interface VarnishParams {
+  id: string;
+  type: VarnishType;
+  // Edge rounding radius in mask pixels
+  edgePx: number;
+}
+
+export interface EmbossParams {
+  // Relief depth in mask pixels, negative for deboss
+  depthPx: number;
+  bevelPx: number;
+  // Registered emboss follows the artwork's misregistration
+  transform?: LayerTransform;
+}
+
+export const isIdentityTransform = (t: LayerTransform | undefined): boolean =>
+    !t || (t.dx === 0 && t.dy === 0 && t.rotation === 0 && t.scale === 1);
+
+/**
+ * Inverse of a layer transform in pixel space (y down, around the image centre):
+ * maps a sheet pixel to the source pixel it shows, as [a, b, c, d, e, f]
+ * with srcX = a*x + b*y + c and srcY = d*x + e*y + f.
+ */
+export const inverseTransform = (t: LayerTransform, width: number, height: number): number[] => {
+    const cx = width / 2;
+    const cy = height / 2;
+    const tx = t.dx * width;
+    const ty = t.dy * width;
+    const cos = Math.cos(t.rotation);
+    const sin = Math.sin(t.rotation);
+    const a = cos / t.scale;
+    const b = sin / t.scale;
+    const d = -sin / t.scale;
+    const e = cos / t.scale;
+    return [
+        a, b, cx - a * (cx + tx) - b * (cy + ty),
+        d, e, cy - d * (cx + tx) - e * (cy + ty)
+    ];
+};
+
+/**
+ * Resamples a mask with a layer transform (nearest neighbour).
+ * Pixels that come from outside the source are empty (no ink / no varnish).
+ */
+export const transformMask = (mask: MaskData, t: LayerTransform): MaskData => {
+    const { width, height } = mask;
+    const [a, b, c, d, e, f] = inverseTransform(t, width, height);
+    const data = new Uint8Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+        // Sample at pixel centres
+        let sx = a * 0.5 + b * (y + 0.5) + c;
+        let sy = d * 0.5 + e * (y + 0.5) + f;
+        for (let x = 0, p = y * width; x < width; x++, p++) {
+            const ix = Math.floor(sx);
+            const iy = Math.floor(sy);
+            if (ix >= 0 && ix < width && iy >= 0 && iy < height) {
+                data[p] = mask.data[iy * width + ix];
             }
+            sx += a;
+            sy += d;
+        }
+    }
+    return { width, height, data };
+};
 
-            // 1. Get White Ink Data
-            let whiteInkData: Uint8ClampedArray;
-            
-            if (whiteImg) {
-                ctx.drawImage(whiteImg, 0, 0, width, height);
-                const rawData = ctx.getImageData(0, 0, width, height).data;
-                whiteInkData = rawData;
-                
-                // INVERT WHITE INK DATA (Black Input -> White Logic)
-                // Black (0) in file = Ink. White (255) in file = Metal.
-                // We want Internal Logic: 255 = Ink, 0 = Metal.
-                for (let i = 0; i < whiteInkData.length; i += 4) {
-                    whiteInkData[i] = 255 - whiteInkData[i];     // R
-                    whiteInkData[i + 1] = 255 - whiteInkData[i + 1]; // G
-                    whiteInkData[i + 2] = 255 - whiteInkData[i + 2]; // B
-                }
-            } else {
-                // If no white ink mask, assume FULL PAPER (All Ink).
-                // Create array filled with 255.
-                whiteInkData = new Uint8ClampedArray(width * height * 4);
-                whiteInkData.fill(255); 
+/**
+ * Converts the decoded RGBA pixels of an uploaded mask to internal logic.
+ * Black (0) in file = Ink. White (255) in file = Metal.
+ * We want Internal Logic: 255 = Ink, 0 = Metal.
+ */
+export const decodeMask = (rgba: Uint8ClampedArray, width: number, height: number): MaskData => {
+    const data = new Uint8Array(width * height);
+    for (let p = 0, i = 0; p < data.length; p++, i += 4) {
+        data[p] = 255 - rgba[i]; // R channel is enough for grayscale masks
+    }
+    return { width, height, data };
+};
+
+/**
+ * Converts decoded RGBA artwork pixels to a process ink coverage estimate.
+ * Paper white (255, 255, 255) = 0, the darkest or most saturated channel drives coverage.
+ */
+export const decodeCoverage = (rgba: Uint8ClampedArray, width: number, height: number): MaskData => {
+    const data = new Uint8Array(width * height);
+    for (let p = 0, i = 0; p < data.length; p++, i += 4) {
+        data[p] = 255 - Math.min(rgba[i], rgba[i + 1], rgba[i + 2]);
+    }
+    return { width, height, data };
+};
+
+// Chamfer 3-4 distance units per pixel
+export const CHAMFER_UNIT = 3;
+const CHAMFER_FAR = 0xffff;
+
+/**
+ * Two-pass chamfer distance from each set pixel to the nearest unset pixel (in 1/3 px).
+ * Pixels outside the image do not count as unset, so shapes touching the edge are not thinned there.
+ */
+export const distanceTransform = (mask: Uint8Array, width: number, height: number): Uint16Array => {
+  const d = new Uint16Array(mask.length);
+  for (let p = 0; p < mask.length; p++) d[p] = mask[p] ? CHAMFER_FAR : 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0, p = y * width; x < width; x++, p++) {
+      if (!d[p]) continue;
+      let v = d[p];
+      if (x > 0) v = Math.min(v, d[p - 1] + CHAMFER_UNIT);
+      if (y > 0) {
+        v = Math.min(v, d[p - width] + CHAMFER_UNIT);
+        if (x > 0) v = Math.min(v, d[p - width - 1] + 4);
+        if (x < width - 1) v = Math.min(v, d[p - width + 1] + 4);
+      }
+      d[p] = v;
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1, p = y * width + x; x >= 0; x--, p--) {
+      if (!d[p]) continue;
+      let v = d[p];
+      if (x < width - 1) v = Math.min(v, d[p + 1] + CHAMFER_UNIT);
+      if (y < height - 1) {
+        v = Math.min(v, d[p + width] + CHAMFER_UNIT);
+        if (x < width - 1) v = Math.min(v, d[p + width + 1] + 4);
+        if (x > 0) v = Math.min(v, d[p + width - 1] + 4);
+      }
+      d[p] = v;
+    }
+  }
+  return d;
+};
+
+/**
+ * Chokes (negative distance) or spreads (positive distance) the ink of a mask, in pixels.
+ * The mask is thresholded at 50%, the new edge is anti-aliased over one pixel.
+ */
+export const trapMask = (mask: MaskData, distancePx: number): MaskData => {
+    if (distancePx === 0) return mask;
+    const { width, height } = mask;
+    const spread = distancePx > 0;
+    const radius = Math.abs(distancePx);
+
+    // Spread: distance of empty pixels to the ink. Choke: distance of ink pixels to the edge.
+    const binary = new Uint8Array(mask.data.length);
+    for (let p = 0; p < binary.length; p++) {
+        binary[p] = ((mask.data[p] >= 128) !== spread) ? 1 : 0;
+    }
+    const dist = distanceTransform(binary, width, height);
+
+    const data = new Uint8Array(binary.length);
+    for (let p = 0; p < data.length; p++) {
+        const d = dist[p] / CHAMFER_UNIT;
+        const coverage = spread ? (radius + 1 - d) : (d - radius);
+        data[p] = Math.round(Math.min(1, Math.max(0, coverage)) * 255);
+    }
+    return { width, height, data };
+};
+
+/**
+ * Mask used when no white ink is uploaded: FULL PAPER (All Ink).
+ */
+export const createFullInkMask = (width: number, height: number): MaskData => {
+    const data = new Uint8Array(width * height);
+    data.fill(255);
+    return { width, height, data };
+};
+
+/**
+ * Halftones a mask with a round clustered-dot screen: each pixel is fully inked
+ * or bare, dot size follows the gray value.
+ */
+export const screenMask = (mask: MaskData, cellPx: number, angleDeg: number): MaskData => {
+    const { width, height } = mask;
+    const data = new Uint8Array(width * height);
+    const angle = angleDeg * Math.PI / 180;
+    const cos = Math.cos(angle) * 2 * Math.PI / cellPx;
+    const sin = Math.sin(angle) * 2 * Math.PI / cellPx;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const p = y * width + x;
+            const v = mask.data[p];
+            if (v === 0 || v === 255) {
+                data[p] = v;
+                continue;
             }
+            // Spot function: 1 at the dot centre, 0 between dots
+            const u = (x + 0.5) * cos + (y + 0.5) * sin;
+            const w = -(x + 0.5) * sin + (y + 0.5) * cos;
+            const spot = 0.5 + 0.25 * (Math.cos(u) + Math.cos(w));
+            data[p] = spot >= 1 - v / 255 ? 255 : 0;
+        }
+    }
+    return { width, height, data };
+};
 
-            // 2. Get Varnish Data
-            let varnishData: Uint8ClampedArray | null = null;
-            if (varnishImg) {
-                ctx.clearRect(0, 0, width, height);
-                ctx.drawImage(varnishImg, 0, 0, width, height);
-                const varnishRaw = ctx.getImageData(0, 0, width, height);
-                varnishData = varnishRaw.data;
-
-                // INVERT VARNISH DATA (Black Input -> White Logic)
-                for (let i = 0; i < varnishData.length; i += 4) {
-                    varnishData[i] = 255 - varnishData[i];
-                    varnishData[i + 1] = 255 - varnishData[i + 1];
-                    varnishData[i + 2] = 255 - varnishData[i + 2];
-                }
+/**
+ * Combined opacity of stacked white passes: each pass lets (1 - opacity) of the metal through.
+ */
+export const whitePassOpacity = (passOpacity: number[]): number =>
+    1 - passOpacity.reduce((through, o) => through * (1 - Math.min(1, Math.max(0, o))), 1);
+
+/**
+ * Separable box blur, run twice for a smoother (tent-shaped) edge.
+ */
+export const boxBlur = (values: Float32Array, width: number, height: number, radius: number) => {
+    if (radius < 1) return;
+    const r = Math.round(radius);
+    const line = new Float32Array(Math.max(width, height));
+    const pass = (count: number, length: number, index: (i: number, j: number) => number) => {
+        for (let i = 0; i < count; i++) {
+            for (let j = 0; j < length; j++) line[j] = values[index(i, j)];
+            let sum = 0;
+            for (let j = -r; j <= r; j++) sum += line[Math.min(length - 1, Math.max(0, j))];
+            for (let j = 0; j < length; j++) {
+                values[index(i, j)] = sum / (2 * r + 1);
+                sum += line[Math.min(length - 1, j + r + 1)] - line[Math.max(0, j - r)];
             }
+        }
+    };
+    for (let k = 0; k < 2; k++) {
+        pass(height, width, (y, x) => y * width + x);
+        pass(width, height, (x, y) => y * width + x);
+    }
+};
+
+// Packs a gray value into one little-endian RGBA pixel with alpha 255
+const gray = (v: number) => (0xff000000 | (v * 0x010101)) >>> 0;
+
+const createPixelMap = (width: number, height: number): { map: PixelMap; pixels: Uint32Array } => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    return { map: { width, height, data }, pixels: new Uint32Array(data.buffer) };
+};
+
+/**
+ * Converts a mask back to the file convention (Black = Ink, White = Metal) for download.
+ */
+export const maskToPixelMap = (mask: MaskData): PixelMap => {
+    const { map, pixels } = createPixelMap(mask.width, mask.height);
+    for (let p = 0; p < mask.data.length; p++) {
+        pixels[p] = gray(255 - mask.data[p]);
+    }
+    return map;
+};
+
+/**
+ * Builds the Metalness and Roughness maps from the decoded white mask (varnish,
+ * emboss and foil maps are added by their own builders). All masks must have the
+ * same dimensions. Runs on typed arrays only, so it is safe inside a worker.
+ *
+ * The metalness map keeps two contributions apart:
+ * - R: bare stock (no white ink), used by the substrate shader
+ * - G/B: effective metalness. Over bare metal, the opaque part of the process
+ *   ink scatters like paint, the transparent part tints the metal reflection
+ *   (the CMYK map is the base colour in both cases).
+ */
+export const buildTextureMaps = (
+    white: MaskData,
+    params: RemapParams,
+    ink: MaskData | null = null
+  ): TextureMaps => {
+    // Misregistered layers are resampled first, the rest of the pipeline is unchanged
+    if (white && params.whiteTransform && !isIdentityTransform(params.whiteTransform)) {
+        white = transformMask(white, params.whiteTransform);
+    }
+    if (ink && params.cmykTransform && !isIdentityTransform(params.cmykTransform)) {
+        ink = transformMask(ink, params.cmykTransform);
+    }
+
+    const { width, height } = white;
+
+    // Calculate scale factors (0-255)
+    const metalRoughVal = Math.floor(Math.min(1, Math.max(0, params.metalRoughness)) * 255);
+    const paperRoughVal = Math.floor(Math.min(255, params.paperRoughness * 255));
+
+    // Lookup tables: every output only depends on the mask intensity.
+    // The white opacity scales the mask first, so metalness, roughness and the bare
+    // stock (base colour tint) all see the same effective white.
+    const whiteOpacity = Math.min(1, Math.max(0, params.whiteOpacity ?? 1));
+    const effective = new Uint8Array(256);
+    const metalLut = new Uint32Array(256);
+    const roughLut = new Uint32Array(256);
+    for (let r = 0; r < 256; r++) {
+        const e = effective[r] = Math.round(r * whiteOpacity);
+        // If e=255 (Ink), Metal=0. If e=0 (Metal), Metal=255. Intermediate values create a blend.
+        metalLut[r] = gray(255 - e);
+        // Smooth interpolation between metal and paper roughness (no thresholding)
+        roughLut[r] = gray(Math.round(metalRoughVal + (e / 255) * (paperRoughVal - metalRoughVal)));
+    }
+    // Metal left visible through the ink, indexed by ink coverage
+    const inkOpacity = 1 - Math.min(1, Math.max(0, params.inkTransparency ?? 1));
+    const throughInk = new Float32Array(256);
+    for (let i = 0; i < 256; i++) throughInk[i] = 1 - inkOpacity * (i / 255);
 
-            // Prepare Output Maps
-            const metalnessData = new Uint8ClampedArray(whiteInkData.length);
-            const roughnessData = new Uint8ClampedArray(whiteInkData.length);
-            const clearcoatData = varnishImg ? new Uint8ClampedArray(whiteInkData.length) : null;
-      
-            // Calculate scale factors (0-255)
-            const metalRoughVal = Math.floor(Math.min(1, Math.max(0, metalRoughness)) * 255);
-            const paperRoughVal = Math.floor(Math.min(255, paperRoughness * 255));
-            const varnishRoughVal = 5; // Very low roughness for varnish (Glossy)
-            
-            for (let i = 0; i < whiteInkData.length; i += 4) {
-              const r = whiteInkData[i]; // Mask Intensity: 0 = Metal, 255 = Ink/Paper
-              
-              // REMOVED THRESHOLDING: Allow gradients for smooth transitions
-              const normalizedMask = r / 255;
-    
-              // --- Metalness ---
-              // If r=255 (Ink), Metal=0. If r=0 (Metal), Metal=255.
-              // Intermediate values create a blend.
-              const metalVal = 255 - r; 
-              metalnessData[i] = metalVal;
-              metalnessData[i+1] = metalVal;
-              metalnessData[i+2] = metalVal;
-              metalnessData[i+3] = 255;
-      
-              // --- Roughness & Clearcoat ---
-              let isVarnished = false;
-              if (varnishData && clearcoatData) {
-                  if (varnishData[i] > 100) {
-                      isVarnished = true;
-                      clearcoatData[i] = 255;
-                      clearcoatData[i+1] = 255;
-                      clearcoatData[i+2] = 255;
-                      clearcoatData[i+3] = 255;
-                  } else {
-                      clearcoatData[i] = 0;
-                      clearcoatData[i+1] = 0;
-                      clearcoatData[i+2] = 0;
-                      clearcoatData[i+3] = 255;
-                  }
-              }
-
-              if (isVarnished) {
-                  roughnessData[i] = varnishRoughVal;
-                  roughnessData[i+1] = varnishRoughVal;
-                  roughnessData[i+2] = varnishRoughVal;
-                  roughnessData[i+3] = 255;
-              } else {
-                  // Standard logic: Metal vs Paper
-                  // Smooth interpolation based on mask intensity
-                  const roughVal = metalRoughVal + normalizedMask * (paperRoughVal - metalRoughVal);
-                  roughnessData[i] = roughVal;
-                  roughnessData[i+1] = roughVal;
-                  roughnessData[i+2] = roughVal;
-                  roughnessData[i+3] = 255;
-              }
+    const metalness = createPixelMap(width, height);
+    const roughness = createPixelMap(width, height);
+
+    const src = white.data;
+    const coverage = (ink && ink.width === width && ink.height === height) ? ink.data : null;
+    for (let p = 0; p < src.length; p++) {
+        const r = src[p];
+        const bare = 255 - effective[r];
+        if (coverage && coverage[p] && bare > 0) {
+            const metal = Math.round(bare * throughInk[coverage[p]]);
+            metalness.pixels[p] = (0xff000000 | (metal << 16) | (metal << 8) | bare) >>> 0;
+        } else {
+            metalness.pixels[p] = metalLut[r];
+        }
+        roughness.pixels[p] = roughLut[r];
+    }
+
+    return {
+        metalnessMap: metalness.map,
+        roughnessMap: roughness.map,
+        clearcoatMap: null,
+        varnishHeightMap: null,
+        normalMap: null,
+        heightMap: null,
+        foilColorMap: null,
+        foilPropsMap: null,
+        spotMulMap: null,
+        spotAddMap: null
+    };
+};
+
+/**
+ * Composites the spot ink layers (press order, masks 255 = ink) over the CMYK.
+ * Each layer turns the colour below into mix(below, below * c * (1 - o) + c * o, coverage)
+ * for ink colour c and opacity o, so the whole stack is colour * mul + add. Both maps
+ * are stored gamma-encoded (linear ^ 1/2.2) to keep precision in the darks.
+ *
+ * Spots over white hide the metal completely and take the paper roughness; spots on
+ * the metal hide it by their opacity (as the process inks do). The metalness and
+ * roughness maps are updated in place.
+ */
+export const buildSpotMaps = (
+    spots: { spot: SpotColorLayer; mask: MaskData }[],
+    metalnessMap: PixelMap,
+    roughnessMap: PixelMap,
+    paperRoughness: number
+  ): { spotMulMap: PixelMap; spotAddMap: PixelMap } => {
+    const { width, height } = metalnessMap;
+    const size = width * height;
+    const metal = metalnessMap.data;
+    const rough = roughnessMap.data;
+    const paperRoughVal = Math.min(1, Math.max(0, paperRoughness)) * 255;
+    const layers = spots.map(({ spot, mask }) => ({
+        c: spotColorRgb(spot).map(v => srgbToLinear(v / 255)),
+        o: Math.min(1, Math.max(0, spot.opacity)),
+        overWhite: spot.base === 'white',
+        mask: mask.data
+    }));
+
+    const mulMap = createPixelMap(width, height);
+    const addMap = createPixelMap(width, height);
+    const encode = (v: number) => Math.round(Math.pow(Math.min(1, Math.max(0, v)), 1 / 2.2) * 255);
+    // The stack is accumulated per pixel, so no full-size float buffers are needed
+    const mul = [1, 1, 1];
+    const add = [0, 0, 0];
+    for (let p = 0; p < size; p++) {
+        mul[0] = mul[1] = mul[2] = 1;
+        add[0] = add[1] = add[2] = 0;
+        for (const { c, o, overWhite, mask } of layers) {
+            const cov = mask[p] / 255;
+            if (cov === 0) continue;
+            for (let k = 0; k < 3; k++) {
+                const a = 1 - cov + cov * c[k] * (1 - o);
+                mul[k] *= a;
+                add[k] = add[k] * a + cov * c[k] * o;
             }
-      
-            const createMapUrl = (pixelData: Uint8ClampedArray) => {
-                const mapCanvas = document.createElement('canvas');
-                mapCanvas.width = width;
-                mapCanvas.height = height;
-                const mapCtx = mapCanvas.getContext('2d');
-                mapCtx?.putImageData(new ImageData(pixelData, width, height), 0, 0);
-                return mapCanvas.toDataURL();
-            };
-    
-            resolve({ 
-                metalnessMap: createMapUrl(metalnessData), 
-                roughnessMap: createMapUrl(roughnessData),
-                clearcoatMap: clearcoatData ? createMapUrl(clearcoatData) : null
-            });
-        };
-
-        // Loading Logic
-        if (imgSrc) {
-            // Case 1: White Ink Exists
-            const img = new Image();
-            img.crossOrigin = "Anonymous";
-            img.src = imgSrc;
-            img.onload = () => {
-                if (varnishSrc) {
-                    const vImg = new Image();
-                    vImg.crossOrigin = "Anonymous";
-                    vImg.src = varnishSrc;
-                    vImg.onload = () => runProcessing(img, vImg);
-                    vImg.onerror = () => runProcessing(img, null);
-                } else {
-                    runProcessing(img, null);
+            const keep = 1 - cov * (overWhite ? 1 : o);
+            metal[p * 4 + 1] *= keep;
+            metal[p * 4 + 2] *= keep;
+            if (overWhite) {
+                metal[p * 4] *= keep;
+                const r = rough[p * 4];
+                const v = r + (paperRoughVal - r) * cov;
+                rough[p * 4] = v;
+                rough[p * 4 + 1] = v;
+                rough[p * 4 + 2] = v;
+            }
+        }
+        mulMap.pixels[p] = (0xff000000 | (encode(mul[2]) << 16) | (encode(mul[1]) << 8) | encode(mul[0])) >>> 0;
+        addMap.pixels[p] = (0xff000000 | (encode(add[2]) << 16) | (encode(add[1]) << 8) | encode(add[0])) >>> 0;
+    }
+
+    return { spotMulMap: mulMap.map, spotAddMap: addMap.map };
+};
+
+/**
+ * Box-filters a map down by a whole factor until both sides fit in maxSize
+ * (the GPU texture limit); maps that already fit are returned as-is.
+ */
+export const fitPixelMap = (map: PixelMap, maxSize: number): PixelMap => {
+    const factor = Math.ceil(Math.max(map.width, map.height) / maxSize);
+    if (factor <= 1) return map;
+    const width = Math.max(1, Math.floor(map.width / factor));
+    const height = Math.max(1, Math.floor(map.height / factor));
+    const data = new Uint8ClampedArray(width * height * 4);
+    const sum = new Uint32Array(4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            sum.fill(0);
+            for (let sy = 0; sy < factor; sy++) {
+                const row = ((y * factor + sy) * map.width + x * factor) * 4;
+                for (let i = row; i < row + factor * 4; i += 4) {
+                    sum[0] += map.data[i];
+                    sum[1] += map.data[i + 1];
+                    sum[2] += map.data[i + 2];
+                    sum[3] += map.data[i + 3];
                 }
-            };
-            img.onerror = (err) => reject(err);
-        } else if (varnishSrc) {
-            // Case 2: No White Ink, but Varnish Exists
-            const vImg = new Image();
-            vImg.crossOrigin = "Anonymous";
-            vImg.src = varnishSrc;
-            vImg.onload = () => runProcessing(null, vImg);
-            vImg.onerror = () => reject(new Error("Failed to load varnish"));
-        } else {
-            // Case 3: Nothing
-            reject(new Error("No textures to process"));
+            }
+            const o = (y * width + x) * 4;
+            for (let c = 0; c < 4; c++) data[o + c] = sum[c] / (factor * factor);
         }
-    });
-  };
+    }
+    return { width, height, data };
+};
+
+/**
+ * Encodes a generated map as a PNG Data URL (used for the HTML export and downloads).
+ */
+export const pixelMapToDataUrl = (map: PixelMap): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = map.width;
+    canvas.height = map.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+    ctx.putImageData(new ImageData(map.data as Uint8ClampedArray<ArrayBuffer>, map.width, map.height), 0, 0);
+    return canvas.toDataURL();
+};
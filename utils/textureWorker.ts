@@ -0,0 +1,393 @@
+import { AnalysisResult, CmykConversion, FoilLayer, MaskLayer, PsdLayerInfo, SeparationChannel, SpotColorLayer, PixelMap, CoverageReport, PreflightOptions, ProofProfileInfo, ProofProfileSlot, ProofStats, SoftProofOptions, TextureMaps, WhiteGenOptions } from '../types';
+import { MaskData, RemapParams, VarnishParams, buildSpotMaps, buildTextureMaps, createFullInkMask, decodeCoverage, decodeMask, maskToPixelMap, screenMask, trapMask } from './textureUtils';
+import { runPreflight } from './preflightUtils';
+import { generateWhiteMask } from './maskGenerator';
+import { buildEmbossMaps } from './embossUtils';
+import { buildFoilMaps, productionOrder } from './foilUtils';
+import { PRIMARY_VARNISH_ID, buildVarnishMaps } from './varnishUtils';
+import { decodeTiff } from './tiffDecoder';
+import { rgbToHex } from './colorUtils';
+import { SeparatedImage, channelToPixelMap, classifyChannel, compositeToRgba, flattenOnWhite, imageToMask, suggestLayerRoles } from './separationUtils';
+import { PsdDocument, parsePsd, psdComposite, psdLayerImage } from './psdParser';
+import { IccProfile, parseIccProfile } from './iccProfile';
+import { SoftProof, proofCmyk, proofRgb, separateRgb } from './proofUtils';
+import { CoverageCmyk, buildCoverageReport, estimateCmyk } from './coverageUtils';
+
+export type TextureWorkerRequest =
+  | { id: number; type: 'setMask'; layer: MaskLayer; source: Blob | null }
+  | { id: number; type: 'setFinishMask'; finishId: string; source: Blob | null }
+  | { id: number; type: 'remap'; params: RemapParams }
+  | { id: number; type: 'preflight'; options: PreflightOptions; dpi: number; varnishes: VarnishParams[]; names: Record<string, string> }
+  | { id: number; type: 'exportMask'; layer: MaskLayer; params: RemapParams }
+  | { id: number; type: 'exportFinishMask'; finishId: string }
+  | { id: number; type: 'generateWhite'; options: WhiteGenOptions }
+  // source null re-converts the last decoded file (composite only)
+  | { id: number; type: 'decodeSeparations'; source: Blob | null; conversion: CmykConversion }
+  | { id: number; type: 'openPsd'; source: Blob }
+  // index -1 = merged composite
+  | { id: number; type: 'renderPsdLayer'; index: number; as: 'artwork' | 'mask'; conversion: CmykConversion }
+  | { id: number; type: 'setProfile'; slot: ProofProfileSlot; source: Blob | null }
+  // separated: the artwork comes from a TIFF / PSD, whose CMYK data is proofed directly
+  | { id: number; type: 'softProof'; options: SoftProofOptions; separated: boolean }
+  // names: display names of the varnish layers by id
+  | { id: number; type: 'coverage'; params: RemapParams; inkLimit: number; separated: boolean; names: Record<string, string> };
+
+export type TextureWorkerResponse =
+  | { id: number; type: 'done' }
+  | { id: number; type: 'maps'; maps: TextureMaps | null }
+  | { id: number; type: 'preflight'; result: AnalysisResult }
+  | { id: number; type: 'mask'; mask: PixelMap | null }
+  | { id: number; type: 'blob'; blob: Blob }
+  | { id: number; type: 'separations'; composite: Blob; channels: SeparationChannel[] }
+  | { id: number; type: 'psd'; layers: PsdLayerInfo[]; hasComposite: boolean }
+  | { id: number; type: 'profile'; info: ProofProfileInfo | null }
+  | { id: number; type: 'proof'; image: Blob; overlay: Blob; stats: ProofStats }
+  | { id: number; type: 'coverage'; report: CoverageReport }
+  | { id: number; type: 'error'; message: string };
+
+const LAYERS: MaskLayer[] = ['cmyk', 'white', 'varnish', 'emboss'];
+
+// Decoded sources and masks are cached here, so parameter changes only redo the remap step
+const sources: Record<MaskLayer, ImageBitmap | null> = { cmyk: null, white: null, varnish: null, emboss: null };
+const masks: Record<MaskLayer, MaskData | null> = { cmyk: null, white: null, varnish: null, emboss: null };
+
+// Finishing layers (foils, spot colours, extra varnishes) are keyed by id and decoded like the other masks
+const finishSources = new Map<string, ImageBitmap>();
+const finishMasks = new Map<string, MaskData>();
+
+// Last trapped white mask, reused while only other parameters change
+let trapCache: { source: MaskData; distancePx: number; mask: MaskData } | null = null;
+
+const trappedWhite = (distancePx: number): MaskData | null => {
+  const white = masks.white;
+  if (!white || !distancePx) return white;
+  if (!trapCache || trapCache.source !== white || trapCache.distancePx !== distancePx) {
+    trapCache = { source: white, distancePx, mask: trapMask(white, distancePx) };
+  }
+  return trapCache.mask;
+};
+
+// Last emboss relief, rebuilt only when the die or its parameters change
+let embossCache: { source: MaskData; key: string; maps: { normalMap: PixelMap; heightMap: PixelMap } } | null = null;
+
+const embossMaps = (params: RemapParams) => {
+  const emboss = masks.emboss;
+  if (!emboss || !params.emboss) return null;
+  const key = JSON.stringify(params.emboss);
+  if (!embossCache || embossCache.source !== emboss || embossCache.key !== key) {
+    embossCache = { source: emboss, key, maps: buildEmbossMaps(emboss, params.emboss) };
+  }
+  // Copies, the cached buffers must not be transferred
+  const { normalMap, heightMap } = embossCache.maps;
+  return {
+    normalMap: { ...normalMap, data: normalMap.data.slice() },
+    heightMap: { ...heightMap, data: heightMap.data.slice() }
+  };
+};
+
+const foilMaps = (params: RemapParams, width: number, height: number) => {
+  const foils = productionOrder(params.foils || [])
+    .map(foil => ({ foil, mask: finishMasks.get(foil.id) }))
+    .filter((f): f is { foil: FoilLayer; mask: MaskData } => !!f.mask && f.mask.width === width && f.mask.height === height);
+  return foils.length ? buildFoilMaps(foils, width, height) : null;
+};
+
+// Spot colour layers with their masks, in press order
+const spotInputs = (params: RemapParams, width: number, height: number) => (params.spots || [])
+  .map(spot => ({ spot, mask: finishMasks.get(spot.id) }))
+  .filter((s): s is { spot: SpotColorLayer; mask: MaskData } => !!s.mask && s.mask.width === width && s.mask.height === height);
+
+// Varnish layers with their masks (a flood coat needs none)
+const varnishInputs = (varnishes: VarnishParams[] = []) => varnishes
+  .map(v => ({ params: v, mask: (v.id === PRIMARY_VARNISH_ID ? masks.varnish : finishMasks.get(v.id)) || null }))
+  .filter(v => v.mask || v.params.type === 'flood');
+
+// Last halftoned white mask
+let screenCache: { source: MaskData; key: string; mask: MaskData } | null = null;
+
+const screenedWhite = (params: RemapParams): MaskData | null => {
+  const white = trappedWhite(params.whiteTrapPx || 0);
+  const screen = params.whiteScreen;
+  if (!white || !screen) return white;
+  const key = `${screen.cellPx}/${screen.angleDeg}`;
+  if (!screenCache || screenCache.source !== white || screenCache.key !== key) {
+    screenCache = { source: white, key, mask: screenMask(white, screen.cellPx, screen.angleDeg) };
+  }
+  return screenCache.mask;
+};
+
+// Mask as it goes to the plate (after trapping and screening, before press registration)
+const plateMask = (layer: MaskLayer, params: RemapParams): MaskData | null =>
+  layer === 'white' ? screenedWhite(params) : masks[layer];
+
+// The white mask defines the map size. Without it, the varnish mask, then the artwork does.
+const baseSource = () => sources.white || sources.varnish || sources.cmyk;
+
+const readPixels = (bitmap: ImageBitmap, width: number, height: number): Uint8ClampedArray => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+const rasterize = (layer: MaskLayer, bitmap: ImageBitmap, width: number, height: number): MaskData => {
+  const rgba = readPixels(bitmap, width, height);
+  return layer === 'cmyk' ? decodeCoverage(rgba, width, height) : decodeMask(rgba, width, height);
+};
+
+const encodePng = (map: PixelMap): Promise<Blob> => {
+  const canvas = new OffscreenCanvas(map.width, map.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.putImageData(new ImageData(map.data as Uint8ClampedArray<ArrayBuffer>, map.width, map.height), 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+};
+
+// Last decoded separated file, kept for re-conversion with other CMYK settings
+let separationCache: SeparatedImage | null = null;
+
+// Device data behind the last separated artwork (PSD artwork is shown flattened on white)
+let separatedArtwork: { image: SeparatedImage; flatten: boolean } | null = null;
+
+// Separated TIFF -> display composite + extra channels as mask PNGs
+const decodeSeparations = async (source: Blob | null, conversion: CmykConversion) => {
+  if (source) separationCache = await decodeTiff(await source.arrayBuffer());
+  const image = separationCache;
+  if (!image) throw new Error("No separated file loaded");
+  separatedArtwork = { image, flatten: false };
+
+  const composite = await encodePng(compositeToRgba(image, conversion));
+  const channels: SeparationChannel[] = [];
+  if (source) {
+    for (const channel of image.extras) {
+      channels.push({
+        name: channel.name,
+        role: classifyChannel(channel),
+        color: channel.color ? rgbToHex(channel.color) : null,
+        mask: await encodePng(channelToPixelMap(channel, image.width, image.height))
+      });
+    }
+  }
+  return { composite, channels };
+};
+
+// Last opened PSD; layers are rendered one by one once their slots are confirmed
+let psdCache: PsdDocument | null = null;
+
+// Pixel layers with suggested slots, top-most first (as in the Photoshop layers panel)
+const openPsd = async (source: Blob) => {
+  const doc = psdCache = await parsePsd(await source.arrayBuffer());
+  const pixelLayers = doc.layers
+    .map((layer, index) => ({ layer, index }))
+    .filter(({ layer }) => !layer.group && layer.width > 0 && layer.height > 0);
+  const suggestions = suggestLayerRoles(pixelLayers.map(({ layer }) => layer.name));
+  const layers: PsdLayerInfo[] = pixelLayers.map(({ layer, index }, i) => ({
+    index,
+    name: layer.name,
+    hidden: layer.hidden,
+    ...suggestions[i]
+  }));
+  return { layers: layers.reverse(), hasComposite: !!doc.composite };
+};
+
+const renderPsdLayer = (index: number, as: 'artwork' | 'mask', conversion: CmykConversion): Promise<Blob> => {
+  const doc = psdCache;
+  if (!doc) throw new Error("No PSD file loaded");
+  const image = index < 0 ? psdComposite(doc) : psdLayerImage(doc, doc.layers[index]);
+  if (!image) throw new Error("PSD has no merged image");
+  if (as === 'artwork') separatedArtwork = { image, flatten: true };
+  return encodePng(as === 'mask' ? imageToMask(image, conversion) : flattenOnWhite(compositeToRgba(image, conversion)));
+};
+
+// ICC profiles for the soft proof
+const profiles: Record<ProofProfileSlot, IccProfile | null> = { press: null, output: null };
+
+const setProfile = async (slot: ProofProfileSlot, source: Blob | null): Promise<ProofProfileInfo | null> => {
+  if (!source) {
+    profiles[slot] = null;
+    return null;
+  }
+  const profile = parseIccProfile(await source.arrayBuffer());
+  if (slot === 'press' && (profile.colorSpace !== 'CMYK' || !profile.toPcs)) {
+    throw new Error(`Press profile must be a CMYK output profile (got ${profile.colorSpace})`);
+  }
+  if (slot === 'output' && (profile.colorSpace !== 'RGB' || !profile.fromPcs)) {
+    throw new Error(`Output profile must be an RGB display profile (got ${profile.colorSpace})`);
+  }
+  profiles[slot] = profile;
+  return { fileName: source instanceof File ? source.name : '', description: profile.description, colorSpace: profile.colorSpace };
+};
+
+// Proofed artwork and the gamut / ink limit overlay as PNGs
+const softProof = async (options: SoftProofOptions, separated: boolean) => {
+  const press = profiles.press;
+  if (!press) throw new Error("No press profile loaded");
+  let proof: SoftProof;
+  if (separated && separatedArtwork?.image.colorModel === 'cmyk') {
+    proof = proofCmyk(separatedArtwork.image, press, profiles.output, options);
+    if (separatedArtwork.flatten) flattenOnWhite(proof.image);
+  } else {
+    const artwork = sources.cmyk;
+    if (!artwork) throw new Error("No CMYK artwork loaded");
+    const { width, height } = artwork;
+    proof = proofRgb(readPixels(artwork, width, height), width, height, press, profiles.output, options);
+  }
+  return { image: await encodePng(proof.image), overlay: await encodePng(proof.overlay), stats: proof.stats };
+};
+
+// CMYK planes of the artwork: the separated file itself, the press profile, or a plain estimate
+const artworkCmyk = (separated: boolean): CoverageCmyk | null => {
+  if (separated && separatedArtwork?.image.colorModel === 'cmyk') {
+    const { width, height, process, extras } = separatedArtwork.image;
+    const alpha = extras.find(e => e.kind === 'transparency')?.data || null;
+    return { source: 'separation', width, height, channels: process, alpha };
+  }
+  const artwork = sources.cmyk;
+  if (!artwork) return null;
+  const { width, height } = artwork;
+  const rgba = readPixels(artwork, width, height);
+  if (!profiles.press?.fromPcs) return estimateCmyk(rgba, width, height);
+  const alpha = new Uint8Array(width * height);
+  for (let p = 0; p < alpha.length; p++) alpha[p] = rgba[p * 4 + 3];
+  return { source: 'profile', width, height, channels: separateRgb(rgba, width, height, profiles.press), alpha };
+};
+
+// Coverage of the plates as they go to press (white trapped and screened)
+const coverage = (params: RemapParams, inkLimit: number, separated: boolean, names: Record<string, string>): CoverageReport => {
+  const base = baseSource();
+  if (!base) throw new Error("No layers loaded");
+  const { width, height } = base;
+  return buildCoverageReport({
+    width,
+    height,
+    cmyk: artworkCmyk(separated),
+    white: plateMask('white', params),
+    varnishes: varnishInputs(params.varnishes).map(v => ({ name: names[v.params.id] || v.params.id, mask: v.mask })),
+    spots: spotInputs(params, width, height).map(({ spot, mask }) => ({ name: spot.name, mask })),
+    foils: (params.foils || [])
+      .map(foil => ({ name: foil.name, mask: finishMasks.get(foil.id) }))
+      .filter((f): f is { name: string; mask: MaskData } => !!f.mask && f.mask.width === width && f.mask.height === height)
+  }, inkLimit);
+};
+
+// Generated white mask as a PNG (file convention), so it goes through the same path as an upload
+const generateWhite = async (options: WhiteGenOptions): Promise<Blob> => {
+  const artwork = sources.cmyk;
+  if (!artwork) throw new Error("No CMYK artwork loaded");
+  const { width, height } = artwork;
+  const mask = generateWhiteMask(readPixels(artwork, width, height), width, height, options);
+  return encodePng(maskToPixelMap(mask));
+};
+
+const setMask = async (layer: MaskLayer, source: Blob | null) => {
+  const before = baseSource();
+  const beforeSize = before ? `${before.width}x${before.height}` : null;
+
+  sources[layer]?.close();
+  sources[layer] = source ? await createImageBitmap(source) : null;
+
+  const base = baseSource();
+  const sizeChanged = !base || `${base.width}x${base.height}` !== beforeSize;
+
+  // Other layers are only resampled when the map size changed
+  LAYERS.forEach(l => {
+    if (l !== layer && !sizeChanged) return;
+    const bitmap = sources[l];
+    masks[l] = (bitmap && base) ? rasterize(l, bitmap, base.width, base.height) : null;
+  });
+  if (sizeChanged) {
+    finishMasks.clear();
+    finishSources.forEach((bitmap, id) => {
+      if (base) finishMasks.set(id, decodeMask(readPixels(bitmap, base.width, base.height), base.width, base.height));
+    });
+  }
+};
+
+const setFinishMask = async (id: string, source: Blob | null) => {
+  finishSources.get(id)?.close();
+  finishSources.delete(id);
+  finishMasks.delete(id);
+  if (!source) return;
+
+  const bitmap = await createImageBitmap(source);
+  finishSources.set(id, bitmap);
+  const base = baseSource();
+  if (base) finishMasks.set(id, decodeMask(readPixels(bitmap, base.width, base.height), base.width, base.height));
+};
+
+const reply = (message: TextureWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = async (event: MessageEvent<TextureWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'setMask') {
+      await setMask(request.layer, request.source);
+      reply({ id: request.id, type: 'done' });
+    } else if (request.type === 'setFinishMask') {
+      await setFinishMask(request.finishId, request.source);
+      reply({ id: request.id, type: 'done' });
+    } else if (request.type === 'preflight') {
+      const varnishes = varnishInputs(request.varnishes)
+        .filter((v): v is { params: VarnishParams; mask: MaskData } => !!v.mask)
+        .map(v => ({ name: request.names[v.params.id] || v.params.id, mask: v.mask }));
+      reply({ id: request.id, type: 'preflight', result: runPreflight({ white: masks.white, cmyk: masks.cmyk, varnishes }, request.options, request.dpi) });
+    } else if (request.type === 'generateWhite') {
+      reply({ id: request.id, type: 'blob', blob: await generateWhite(request.options) });
+    } else if (request.type === 'openPsd') {
+      reply({ id: request.id, type: 'psd', ...await openPsd(request.source) });
+    } else if (request.type === 'renderPsdLayer') {
+      reply({ id: request.id, type: 'blob', blob: await renderPsdLayer(request.index, request.as, request.conversion) });
+    } else if (request.type === 'setProfile') {
+      reply({ id: request.id, type: 'profile', info: await setProfile(request.slot, request.source) });
+    } else if (request.type === 'softProof') {
+      reply({ id: request.id, type: 'proof', ...await softProof(request.options, request.separated) });
+    } else if (request.type === 'coverage') {
+      reply({ id: request.id, type: 'coverage', report: coverage(request.params, request.inkLimit, request.separated, request.names) });
+    } else if (request.type === 'decodeSeparations') {
+      reply({ id: request.id, type: 'separations', ...await decodeSeparations(request.source, request.conversion) });
+    } else if (request.type === 'exportFinishMask') {
+      const mask = finishMasks.get(request.finishId);
+      const pixels = mask ? maskToPixelMap(mask) : null;
+      reply({ id: request.id, type: 'mask', mask: pixels }, pixels ? [pixels.data.buffer] : []);
+    } else if (request.type === 'exportMask') {
+      const mask = plateMask(request.layer, request.params);
+      const pixels = mask ? maskToPixelMap(mask) : null;
+      reply({ id: request.id, type: 'mask', mask: pixels }, pixels ? [pixels.data.buffer] : []);
+    } else {
+      const base = baseSource();
+      const varnishes = varnishInputs(request.params.varnishes);
+      const spots = base ? spotInputs(request.params, base.width, base.height) : [];
+      const hasFinish = varnishes.length > 0 || spots.length > 0 || !!masks.emboss || (request.params.foils || []).some(f => finishMasks.has(f.id));
+      if ((!masks.white && !hasFinish) || !base) {
+        reply({ id: request.id, type: 'maps', maps: null });
+        return;
+      }
+      // Finishes on their own sit on plain (fully inked) stock
+      const white = plateMask('white', request.params) || createFullInkMask(base.width, base.height);
+      const surface = buildTextureMaps(white, request.params, masks.cmyk);
+      // Press order: spot inks follow the CMYK, varnish goes on top of both
+      const maps = {
+        ...surface,
+        ...(spots.length ? buildSpotMaps(spots, surface.metalnessMap, surface.roughnessMap, request.params.paperRoughness) : null),
+        ...(varnishes.length ? buildVarnishMaps(varnishes, surface.roughnessMap, request.params.varnishTransform) : null),
+        ...embossMaps(request.params),
+        ...foilMaps(request.params, base.width, base.height)
+      };
+      const transfer: Transferable[] = [maps.metalnessMap.data.buffer, maps.roughnessMap.data.buffer];
+      if (maps.clearcoatMap) transfer.push(maps.clearcoatMap.data.buffer);
+      if (maps.varnishHeightMap) transfer.push(maps.varnishHeightMap.data.buffer);
+      if (maps.normalMap) transfer.push(maps.normalMap.data.buffer);
+      if (maps.heightMap) transfer.push(maps.heightMap.data.buffer);
+      if (maps.foilColorMap) transfer.push(maps.foilColorMap.data.buffer);
+      if (maps.foilPropsMap) transfer.push(maps.foilPropsMap.data.buffer);
+      if (maps.spotMulMap) transfer.push(maps.spotMulMap.data.buffer);
+      if (maps.spotAddMap) transfer.push(maps.spotAddMap.data.buffer);
+      reply({ id: request.id, type: 'maps', maps }, transfer);
+    }
+  } catch (e) {
+    reply({ id: request.id, type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,421 @@
+import { labToSrgb } from './colorUtils';
+import type { SeparatedChannel, SeparatedImage, SeparatedColorModel } from './separationUtils';
+
+/**
+ * Minimal TIFF decoder for prepress files: grayscale, RGB, CMYK and multichannel
+ * (InkSet 2) images with extra channels, 8 or 16 bits per sample, strips or tiles,
+ * chunky or planar, uncompressed / LZW / Deflate / PackBits, horizontal predictor.
+ *
+ * Extra channel names and display colours come from the Photoshop image resources
+ * (alpha names, DisplayInfo) or the InkNames tag. Everything is reduced to 8 bits.
+ */
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfig: 284,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  inkSet: 332,
+  inkNames: 333,
+  extraSamples: 338,
+  sampleFormat: 339,
+  photoshop: 34377
+};
+
+// Byte size of each TIFF field type
+const TYPE_SIZE = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8, 4, 0, 0, 8, 8, 8];
+
+type Tags = Map<number, number[] | string | Uint8Array>;
+
+const readIfd = (view: DataView, offset: number, le: boolean): Tags => {
+  const tags: Tags = new Map();
+  const count = view.getUint16(offset, le);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, le);
+    const type = view.getUint16(entry + 2, le);
+    const n = view.getUint32(entry + 4, le);
+    const size = (TYPE_SIZE[type] || 0) * n;
+    if (!size) continue;
+    const at = size <= 4 ? entry + 8 : view.getUint32(entry + 8, le);
+    if (at + size > view.byteLength) throw new Error(`TIFF tag ${tag} points outside the file`);
+
+    if (type === 2) {
+      tags.set(tag, new TextDecoder('latin1').decode(new Uint8Array(view.buffer, view.byteOffset + at, n)));
+    } else if (type === 1 || type === 7) {
+      tags.set(tag, new Uint8Array(view.buffer, view.byteOffset + at, n));
+    } else {
+      const values: number[] = [];
+      for (let k = 0; k < n; k++) {
+        const p = at + k * TYPE_SIZE[type];
+        if (type === 3) values.push(view.getUint16(p, le));
+        else if (type === 4 || type === 13) values.push(view.getUint32(p, le));
+        else if (type === 16) values.push(Number(view.getBigUint64(p, le)));
+        else if (type === 5) values.push(view.getUint32(p, le) / view.getUint32(p + 4, le));
+        else if (type === 8) values.push(view.getInt16(p, le));
+        else if (type === 9) values.push(view.getInt32(p, le));
+        else values.push(0);
+      }
+      tags.set(tag, values);
+    }
+  }
+  return tags;
+};
+
+const num = (tags: Tags, tag: number, fallback: number): number => {
+  const v = tags.get(tag);
+  return Array.isArray(v) && v.length ? v[0] : fallback;
+};
+
+const nums = (tags: Tags, tag: number): number[] => {
+  const v = tags.get(tag);
+  return Array.isArray(v) ? v : [];
+};
+
+/**
+ * TIFF LZW: MSB-first codes of 9-12 bits, with the "early change" code width switch.
+ */
+export const decodeLzw = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const length = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    first[i] = i;
+    length[i] = 1;
+  }
+
+  let outPos = 0;
+  const write = (code: number) => {
+    const len = length[code];
+    for (let c = code, i = outPos + len - 1; i >= outPos; i--, c = prefix[c]) {
+      if (i < expected) out[i] = suffix[c];
+    }
+    outPos += len;
+  };
+
+  let next = 258;
+  let width = 9;
+  let old = -1;
+  const add = (code: number, byte: number) => {
+    if (next >= 4096) return;
+    prefix[next] = code;
+    suffix[next] = byte;
+    first[next] = first[code];
+    length[next] = length[code] + 1;
+    next++;
+    if (next + 1 === 1 << width && width < 12) width++;
+  };
+
+  const totalBits = input.length * 8;
+  let bitPos = 0;
+  while (bitPos + width <= totalBits && outPos < expected) {
+    const i = bitPos >> 3;
+    const window = (input[i] << 16) | ((input[i + 1] || 0) << 8) | (input[i + 2] || 0);
+    const code = (window >> (24 - (bitPos & 7) - width)) & ((1 << width) - 1);
+    bitPos += width;
+
+    if (code === 257) break;
+    if (code === 256) {
+      next = 258;
+      width = 9;
+      old = -1;
+      continue;
+    }
+    if (old === -1) {
+      write(code);
+    } else if (code < next) {
+      write(code);
+      add(old, first[code]);
+    } else {
+      // Code not in the table yet (KwKwK): old string + its own first byte
+      add(old, first[old]);
+      write(code);
+    }
+    old = code;
+  }
+  return out;
+};
+
+export const decodePackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < expected) {
+    const n = (input[i++] << 24) >> 24;
+    if (n >= 0) {
+      for (let k = 0; k <= n && o < expected; k++) out[o++] = input[i++];
+    } else if (n !== -128) {
+      const value = input[i++];
+      for (let k = 0; k < 1 - n && o < expected; k++) out[o++] = value;
+    }
+  }
+  return out;
+};
+
+export const inflate = async (input: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([input as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (compression: number, input: Uint8Array, expected: number): Promise<Uint8Array> => {
+  if (compression === 1) return input;
+  if (compression === 5) return decodeLzw(input, expected);
+  if (compression === 8 || compression === 32946) return inflate(input);
+  if (compression === 32773) return decodePackBits(input, expected);
+  throw new Error(`Unsupported TIFF compression (${compression})`);
+};
+
+interface PhotoshopInfo {
+  alphaNames: string[];
+  display: { kind: 'alpha' | 'spot'; color: [number, number, number] | null }[];
+}
+
+// Photoshop DisplayInfo colour (RGB, CMYK, Lab or gray) as 8-bit sRGB
+const displayColor = (space: number, v: number[]): [number, number, number] | null => {
+  if (space === 0) return [v[0] >> 8, v[1] >> 8, v[2] >> 8];
+  if (space === 2) {
+    // Stored inverted: 0 = 100% ink
+    const k = v[3] / 65535;
+    return [0, 1, 2].map(i => Math.round(255 * (v[i] / 65535) * k)) as [number, number, number];
+  }
+  if (space === 7) {
+    const s = (x: number) => (x << 16) >> 16;
+    return labToSrgb([v[0] / 100, s(v[1]) / 100, s(v[2]) / 100]);
+  }
+  if (space === 8) {
+    const g = Math.round(255 * (1 - v[0] / 10000));
+    return [g, g, g];
+  }
+  return null;
+};
+
+/**
+ * Reads channel names and display info from the Photoshop image resource block (tag 34377).
+ */
+const readPhotoshopInfo = (block: Uint8Array): PhotoshopInfo => {
+  const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  const info: PhotoshopInfo = { alphaNames: [], display: [] };
+  let unicodeNames: string[] | null = null;
+  let p = 0;
+  while (p + 12 <= block.length) {
+    if (view.getUint32(p) !== 0x3842494d) break; // '8BIM'
+    const id = view.getUint16(p + 4);
+    const nameLength = block[p + 6];
+    p += 6 + ((nameLength + 2) & ~1);
+    const size = view.getUint32(p);
+    p += 4;
+    const end = Math.min(block.length, p + size);
+
+    if (id === 0x03ee) {
+      // Pascal strings
+      for (let q = p; q < end;) {
+        const n = block[q];
+        info.alphaNames.push(new TextDecoder('latin1').decode(block.subarray(q + 1, q + 1 + n)));
+        q += 1 + n;
+      }
+    } else if (id === 0x0415) {
+      // Unicode strings: UInt32 length (in characters, with the trailing NUL), UTF-16BE
+      unicodeNames = [];
+      for (let q = p; q + 4 <= end;) {
+        const n = view.getUint32(q);
+        q += 4;
+        let s = '';
+        for (let k = 0; k < n && q + 2 <= end; k++, q += 2) {
+          const c = view.getUint16(q);
+          if (c) s += String.fromCharCode(c);
+        }
+        unicodeNames.push(s);
+      }
+    } else if (id === 0x0435 || id === 0x03ef) {
+      // 0x0435: version, then 13 bytes per channel; 0x03EF: 14 bytes per channel
+      const start = id === 0x0435 ? p + 4 : p;
+      const stride = id === 0x0435 ? 13 : 14;
+      info.display = [];
+      for (let q = start; q + 13 <= end; q += stride) {
+        const space = view.getUint16(q);
+        const v = [0, 1, 2, 3].map(k => view.getUint16(q + 2 + k * 2));
+        info.display.push({ kind: block[q + 12] === 2 ? 'spot' : 'alpha', color: displayColor(space, v) });
+      }
+    }
+    p = end + (size & 1);
+  }
+  if (unicodeNames) info.alphaNames = unicodeNames;
+  return info;
+};
+
+const PROCESS_INKS = ['cyan', 'magenta', 'yellow', 'black'];
+
+const processIndex = (name: string): number =>
+  PROCESS_INKS.findIndex(ink => name.trim().toLowerCase().replace(/^process\s+/, '') === ink);
+
+/**
+ * Decodes the first image of a TIFF file.
+ */
+export const decodeTiff = async (buffer: ArrayBuffer): Promise<SeparatedImage> => {
+  const view = new DataView(buffer);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error("Not a TIFF file");
+  const le = order === 0x4949;
+  const magic = view.getUint16(2, le);
+  if (magic === 43) throw new Error("BigTIFF is not supported");
+  if (magic !== 42) throw new Error("Not a TIFF file");
+
+  const tags = readIfd(view, view.getUint32(4, le), le);
+  const width = num(tags, TAG.width, 0);
+  const height = num(tags, TAG.height, 0);
+  const spp = num(tags, TAG.samplesPerPixel, 1);
+  const bits = nums(tags, TAG.bitsPerSample)[0] || 1;
+  const compression = num(tags, TAG.compression, 1);
+  const photometric = num(tags, TAG.photometric, 1);
+  const planar = num(tags, TAG.planarConfig, 1) === 2;
+  const predictor = num(tags, TAG.predictor, 1);
+
+  if (!width || !height) throw new Error("TIFF has no image size");
+  if (bits !== 8 && bits !== 16) throw new Error(`Unsupported TIFF bit depth (${bits})`);
+  if (num(tags, TAG.sampleFormat, 1) !== 1) throw new Error("Only unsigned integer TIFF samples are supported");
+  if (predictor !== 1 && predictor !== 2) throw new Error(`Unsupported TIFF predictor (${predictor})`);
+  if (![0, 1, 2, 5].includes(photometric)) throw new Error(`Unsupported TIFF colour model (${photometric})`);
+
+  // Chunk layout: tiles or strips
+  const tiled = tags.has(TAG.tileOffsets);
+  const chunkWidth = tiled ? num(tags, TAG.tileWidth, width) : width;
+  const chunkHeight = tiled ? num(tags, TAG.tileLength, height) : Math.min(height, num(tags, TAG.rowsPerStrip, height));
+  const offsets = nums(tags, tiled ? TAG.tileOffsets : TAG.stripOffsets);
+  const counts = nums(tags, tiled ? TAG.tileByteCounts : TAG.stripByteCounts);
+  const across = Math.ceil(width / chunkWidth);
+  const down = Math.ceil(height / chunkHeight);
+  const perPlane = across * down;
+  const samples = planar ? 1 : spp;
+  const bytes = bits / 8;
+
+  const planes = Array.from({ length: spp }, () => new Uint8Array(width * height));
+  for (let chunk = 0; chunk < offsets.length; chunk++) {
+    const plane = planar ? Math.floor(chunk / perPlane) : 0;
+    if (plane >= spp) break;
+    const index = chunk % perPlane;
+    const x0 = (index % across) * chunkWidth;
+    const y0 = Math.floor(index / across) * chunkHeight;
+    // The last strip may be shorter; tiles are always full size
+    const rows = tiled ? chunkHeight : Math.min(chunkHeight, height - y0);
+    const rowSamples = chunkWidth * samples;
+    const expected = rowSamples * rows * bytes;
+
+    const raw = new Uint8Array(buffer, offsets[chunk], Math.min(counts[chunk] ?? 0, buffer.byteLength - offsets[chunk]));
+    const data = await decompress(compression, raw, expected);
+
+    // Sample values (16-bit in file byte order)
+    let values: Uint8Array | Uint16Array;
+    if (bytes === 1) {
+      values = data;
+    } else {
+      const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      values = new Uint16Array(Math.min(rowSamples * rows, data.byteLength >> 1));
+      for (let i = 0; i < values.length; i++) values[i] = dv.getUint16(i * 2, le);
+    }
+
+    if (predictor === 2) {
+      const mask = bytes === 1 ? 0xff : 0xffff;
+      for (let r = 0; r < rows; r++) {
+        const row = r * rowSamples;
+        for (let i = samples; i < rowSamples && row + i < values.length; i++) {
+          values[row + i] = (values[row + i] + values[row + i - samples]) & mask;
+        }
+      }
+    }
+
+    for (let r = 0; r < rows; r++) {
+      const y = y0 + r;
+      if (y >= height) break;
+      for (let x = 0; x < chunkWidth; x++) {
+        const X = x0 + x;
+        if (X >= width) break;
+        const src = r * rowSamples + x * samples;
+        for (let s = 0; s < samples; s++) {
+          const v = values[src + s] ?? 0;
+          planes[planar ? plane : s][y * width + X] = bytes === 1 ? v : Math.round(v / 257);
+        }
+      }
+    }
+  }
+
+  // Channel meaning
+  const extraTypes = nums(tags, TAG.extraSamples);
+  const photoshop = tags.get(TAG.photoshop);
+  const ps = photoshop instanceof Uint8Array ? readPhotoshopInfo(photoshop) : { alphaNames: [], display: [] };
+  const extras: SeparatedChannel[] = [];
+  let colorModel: SeparatedColorModel;
+  let process: Uint8Array[];
+  let extraStart: number;
+
+  if (photometric === 5) {
+    colorModel = 'cmyk';
+    const inkNames = (tags.get(TAG.inkNames) as string | undefined)?.split('\0').filter(Boolean) || [];
+    const inkCount = spp - extraTypes.length;
+    if (num(tags, TAG.inkSet, 1) === 2 && inkNames.length) {
+      // Multichannel: process inks by name, anything else is a spot ink
+      process = [0, 1, 2, 3].map(() => new Uint8Array(width * height));
+      for (let i = 0; i < inkCount; i++) {
+        const name = inkNames[i] || `Ink ${i + 1}`;
+        const k = processIndex(name);
+        if (k >= 0) process[k] = planes[i];
+        else extras.push({ name, kind: 'spot', data: planes[i], color: null });
+      }
+    } else {
+      if (inkCount < 4) throw new Error("CMYK TIFF needs four ink channels");
+      process = planes.slice(0, 4);
+      for (let i = 4; i < inkCount; i++) extras.push({ name: inkNames[i] || `Ink ${i + 1}`, kind: 'spot', data: planes[i], color: null });
+    }
+    extraStart = inkCount;
+  } else if (photometric === 2) {
+    colorModel = 'rgb';
+    process = planes.slice(0, 3);
+    extraStart = 3;
+  } else {
+    colorModel = 'gray';
+    process = [photometric === 0 ? planes[0].map(v => 255 - v) : planes[0]];
+    extraStart = 1;
+  }
+
+  // Extra samples: transparency (associated / unassociated alpha), then named channels
+  let named = 0;
+  for (let i = extraStart; i < spp; i++) {
+    const type = extraTypes[i - extraStart] ?? 0;
+    if (type === 1 || type === 2) {
+      extras.push({ name: 'Transparency', kind: 'transparency', data: planes[i], color: null });
+      continue;
+    }
+    const display = ps.display[named];
+    extras.push({
+      name: ps.alphaNames[named] || `Alpha ${named + 1}`,
+      kind: display?.kind || 'alpha',
+      data: planes[i],
+      color: display?.color || null
+    });
+    named++;
+  }
+
+  return { width, height, colorModel, process, extras };
+};
+
+// TIFF files by extension, MIME type or signature
+export const isTiffFile = async (file: Blob & { name?: string }): Promise<boolean> => {
+  if (file.type === 'image/tiff' || /\.tiff?$/i.test(file.name || '')) return true;
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return (head[0] === 0x49 && head[1] === 0x49 && head[2] === 42 && head[3] === 0)
+    || (head[0] === 0x4d && head[1] === 0x4d && head[2] === 0 && head[3] === 42);
+};
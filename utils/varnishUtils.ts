@@ -0,0 +1,105 @@
+import { PixelMap, VarnishLayer, VarnishType } from '../types';
+import { LayerTransform, MaskData, VarnishParams, boxBlur, isIdentityTransform, transformMask } from './textureUtils';
+
+// The mask slot of the original varnish upload; further layers are cached by their own id
+export const PRIMARY_VARNISH_ID = 'varnish';
+
+// Varnish height map: 255 = this many gloss UV coats
+export const VARNISH_HEIGHT_RANGE = 5;
+
+interface VarnishTypeSpec {
+  label: string;
+  clearcoat: number;          // 0-1
+  clearcoatRoughness: number; // 0-1
+  // Roughness of the surface under the coat (null = leaves the print as is)
+  baseRoughness: number | null;
+  height: number;             // Film thickness, in gloss UV coats
+  profile: 'flat' | 'dome';
+  edgeMm: number;             // Edge rounding radius
+}
+
+export const VARNISH_TYPES: Record<VarnishType, VarnishTypeSpec> = {
+  gloss: { label: 'Глянцевый УФ', clearcoat: 1, clearcoatRoughness: 0.03, baseRoughness: 0.02, height: 1, profile: 'flat', edgeMm: 0.05 },
+  matte: { label: 'Матовый', clearcoat: 0.5, clearcoatRoughness: 0.55, baseRoughness: 0.6, height: 0.8, profile: 'flat', edgeMm: 0.05 },
+  softTouch: { label: 'Soft-touch', clearcoat: 0.25, clearcoatRoughness: 0.9, baseRoughness: 0.85, height: 0.6, profile: 'flat', edgeMm: 0.1 },
+  raised: { label: 'Объёмный (тактильный)', clearcoat: 1, clearcoatRoughness: 0.05, baseRoughness: 0.02, height: 5, profile: 'dome', edgeMm: 0.4 },
+  flood: { label: 'Сплошной (по всему листу)', clearcoat: 0.8, clearcoatRoughness: 0.2, baseRoughness: null, height: 0, profile: 'flat', edgeMm: 0 }
+};
+
+let varnishCount = 0;
+
+export const createVarnishLayer = (name: string, type: VarnishType, id = `varnish-${Date.now()}-${varnishCount++}`): VarnishLayer =>
+  ({ id, name, type });
+
+export const toVarnishParams = (layers: VarnishLayer[], dpi: number): VarnishParams[] =>
+  layers.map(({ id, type }) => ({ id, type, edgePx: (VARNISH_TYPES[type].edgeMm / 25.4) * dpi }));
+
+/**
+ * Composites the varnish layers (bottom to top) into the clearcoat map (R coat,
+ * G coat roughness) and a film height map, and sets the roughness under each coat.
+ * Mask gray values (255 = full) scale the density and thickness of the coat.
+ * A flood coat covers the whole sheet and has no mask.
+ */
+export const buildVarnishMaps = (
+  varnishes: { params: VarnishParams; mask: MaskData | null }[],
+  roughnessMap: PixelMap,
+  transform?: LayerTransform
+): { clearcoatMap: PixelMap; varnishHeightMap: PixelMap } => {
+  const { width, height } = roughnessMap;
+  const size = width * height;
+  const coat = new Float32Array(size);
+  const coatRough = new Float32Array(size);
+  const film = new Float32Array(size);
+  const rough = roughnessMap.data;
+
+  varnishes.forEach(({ params, mask }) => {
+    const spec = VARNISH_TYPES[params.type];
+    if (params.type !== 'flood' && !mask) return;
+    if (mask && transform && !isIdentityTransform(transform)) mask = transformMask(mask, transform);
+
+    const density = new Float32Array(size);
+    if (params.type === 'flood' || !mask) density.fill(1);
+    else for (let p = 0; p < size; p++) density[p] = mask.data[p] / 255;
+
+    // Film profile: rounded edges, raised varnish builds up to a dome
+    const profile = density.slice();
+    boxBlur(profile, width, height, params.edgePx / 2);
+
+    for (let p = 0; p < size; p++) {
+      const d = density[p];
+      if (d > 0) {
+        coat[p] += (spec.clearcoat - coat[p]) * d;
+        coatRough[p] += (spec.clearcoatRoughness - coatRough[p]) * d;
+        if (spec.baseRoughness !== null) {
+          const r = rough[p * 4];
+          const v = Math.round(r + (spec.baseRoughness * 255 - r) * d);
+          rough[p * 4] = v;
+          rough[p * 4 + 1] = v;
+          rough[p * 4 + 2] = v;
+        }
+      }
+      // Dome: convex shoulders instead of a straight ramp
+      const h = spec.profile === 'dome' ? Math.sqrt(profile[p]) : profile[p];
+      film[p] += h * spec.height;
+    }
+  });
+
+  const coatData = new Uint8ClampedArray(size * 4);
+  const filmData = new Uint8ClampedArray(size * 4);
+  for (let p = 0; p < size; p++) {
+    coatData[p * 4] = coat[p] * 255;
+    coatData[p * 4 + 1] = coatRough[p] * 255;
+    coatData[p * 4 + 2] = 0;
+    coatData[p * 4 + 3] = 255;
+    const f = (film[p] / VARNISH_HEIGHT_RANGE) * 255;
+    filmData[p * 4] = f;
+    filmData[p * 4 + 1] = f;
+    filmData[p * 4 + 2] = f;
+    filmData[p * 4 + 3] = 255;
+  }
+
+  return {
+    clearcoatMap: { width, height, data: coatData },
+    varnishHeightMap: { width, height, data: filmData }
+  };
+};